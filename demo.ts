@@ -5,14 +5,17 @@ import { GUI } from 'lil-gui';
 import Stats from 'stats.js';
 import { 
   OctahedralImpostor, 
-  createOctahedralImpostorMaterial, 
+  createOctahedralImpostorMaterialFromTextures,
   ImpostorPositioningMode
 } from './src/impostor-rendering.js';
 import { 
   centerOrbitalCamera
 } from './src/camera-framing-utils.js';
-import { exportTextureAsPNG } from './src/texture-export.js';
-import { OctahedralMode, CameraType } from './src/octahedral-utils.js';
+import { downloadFile, encodeTextureAsEXR, exportTextureAsPNG } from './src/texture-export.js';
+import { createImpostorBundleManifest, exportImpostorBundle } from './src/impostor-bundle.js';
+import { compressImpostorAtlas } from './src/block-compression.js';
+import { ImpostorLoader } from './src/impostor-loader.js';
+import { OctahedralMode, CameraType, NormalDepthLayout, AtlasFraming } from './src/octahedral-utils.js';
 import { AtlasVisualization } from './src/atlas-visualization.js';
 // Import Rapier directly - the plugins will handle the WASM loading
 import RAPIER from '@dimforge/rapier3d-compat';
@@ -1033,16 +1036,11 @@ async function generateImpostorFromTextures(): Promise<void> {
       currentMesh.visible = false;
     }
 
-    // Create a dummy target object for material creation
-    const dummyGeometry = new THREE.BoxGeometry(1, 1, 1);
-    const dummyMaterial = new THREE.MeshLambertMaterial();
-    const dummyTarget = new THREE.Mesh(dummyGeometry, dummyMaterial);
-
-    // Create impostor material using the standard creation process
-    const material = createOctahedralImpostorMaterial({
-      renderer: renderer,
-      target: dummyTarget,
+    // Create impostor material directly from the imported atlas
+    const material = createOctahedralImpostorMaterialFromTextures({
       baseType: THREE.MeshLambertMaterial,
+      albedo: textureImportConfig.albedoTexture,
+      normalDepth: textureImportConfig.normalTexture,
       spritesPerSide: textureImportConfig.framesPerSide,
       octahedralMode: textureImportConfig.octahedralMode,
       cameraType: textureImportConfig.cameraType,
@@ -1052,14 +1050,6 @@ async function generateImpostorFromTextures(): Promise<void> {
       translation: new THREE.Vector3(0, 0, 0)
     });
 
-    // Override the generated textures with our imported ones
-    if (material.map) material.map.dispose();
-    if (material.normalMap) material.normalMap.dispose();
-    
-    material.map = textureImportConfig.albedoTexture;
-    material.normalMap = textureImportConfig.normalTexture;
-    material.needsUpdate = true;
-
     // Create impostor mesh
     impostor = new OctahedralImpostor(material);
     const impostorScale = 5;
@@ -1085,6 +1075,116 @@ async function generateImpostorFromTextures(): Promise<void> {
 
 
 
+async function loadImpostorBundle(files: FileList): Promise<void> {
+  const manifestFile = Array.from(files).find((file) => file.name.toLowerCase().endsWith('.json'));
+  if (!manifestFile) {
+    alert('Please select the bundle .json manifest together with its images');
+    return;
+  }
+
+  // Resolve the file names referenced by the manifest to the selected files
+  const objectURLs = new Map<string, string>();
+  Array.from(files).forEach((file) => objectURLs.set(file.name, URL.createObjectURL(file)));
+
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url) => objectURLs.get(url.split('/').pop()!) ?? url);
+
+  try {
+    const loadedImpostor = await new ImpostorLoader(manager)
+      .setMaterialType(THREE.MeshLambertMaterial)
+      .setMaterialOptions({ transparent: true, disableBlending: false })
+      .loadAsync(manifestFile.name);
+
+    // Clean up previous impostor
+    if (impostor) {
+      scene.remove(impostor);
+      if (impostor.material.map) impostor.material.map.dispose();
+      if (impostor.material.normalMap) impostor.material.normalMap.dispose();
+      impostor.material.dispose();
+    }
+
+    if (currentMesh) {
+      currentMesh.visible = false;
+    }
+
+    impostor = loadedImpostor;
+    scene.add(impostor);
+
+    if (atlasVisualization) {
+      atlasVisualization.setImpostor(impostor, camera, renderer);
+    }
+
+    console.log('✅ Successfully loaded impostor bundle:', manifestFile.name);
+  } catch (error) {
+    console.error('❌ Failed to load impostor bundle:', error);
+    alert('Failed to load impostor bundle');
+  } finally {
+    objectURLs.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+function compressCurrentImpostor(): void {
+  if (!impostor) {
+    console.warn('No impostor loaded to compress');
+    return;
+  }
+  // The albedo keeps its sRGB color space, which needs the sRGB variants of the S3TC formats
+  const extensions = ['WEBGL_compressed_texture_s3tc', 'WEBGL_compressed_texture_s3tc_srgb', 'EXT_texture_compression_rgtc'];
+  if (!extensions.every((name) => renderer.extensions.has(name))) {
+    alert('This GPU does not support BC (S3TC/RGTC) compressed textures');
+    return;
+  }
+
+  try {
+    // The manifest already describes everything needed to rebuild the impostor from textures
+    const manifest = createImpostorBundleManifest(impostor, 'current');
+    const material = impostor.material;
+    const start = performance.now();
+
+    const { textures, metrics } = compressImpostorAtlas(renderer, {
+      albedo: material.map!,
+      normalDepth: material.normalMap!,
+      normalDepthLayout: manifest.normalDepthLayout,
+      depthRange: manifest.depthRange
+    });
+
+    console.log(`🗜️ Compressed atlas in ${(performance.now() - start).toFixed(0)}ms`, metrics);
+
+    const compressedMaterial = createOctahedralImpostorMaterialFromTextures({
+      ...textures,
+      baseType: THREE.MeshLambertMaterial,
+      octahedralMode: manifest.octahedralMode,
+      cameraType: manifest.cameraType,
+      spritesPerSide: manifest.spritesPerSide,
+      gutter: manifest.gutter,
+      transparent: true,
+      disableBlending: false,
+      scale: manifest.scale,
+      translation: new THREE.Vector3().fromArray(manifest.translation)
+    });
+
+    const compressedImpostor = new OctahedralImpostor(compressedMaterial);
+    compressedImpostor.scale.copy(impostor.scale);
+    compressedImpostor.position.copy(impostor.position);
+    compressedImpostor.quaternion.copy(impostor.quaternion);
+
+    scene.remove(impostor);
+    material.map?.dispose();
+    material.normalMap?.dispose();
+    material.dispose();
+
+    impostor = compressedImpostor;
+    scene.add(impostor);
+
+    if (atlasVisualization) {
+      atlasVisualization.setImpostor(impostor, camera, renderer);
+    }
+  } catch (error) {
+    console.error('❌ Failed to compress impostor atlas:', error);
+    alert('Failed to compress impostor atlas');
+  }
+}
+
 // Function to load a preset model
 async function loadPresetModel(filename: string) {
   const loader = new GLTFLoader();
@@ -1360,6 +1460,26 @@ function setupGUI(mesh: THREE.Object3D | null, impostorParam: OctahedralImpostor
   
   // Generate button
   textureImportFolder.add(textureImportConfig, 'generateFromTextures').name('🚀 Generate Impostor');
+
+  // Bundle input: manifest and images are selected together
+  const bundleFileInput = document.createElement('input');
+  bundleFileInput.type = 'file';
+  bundleFileInput.accept = '.json,image/*';
+  bundleFileInput.multiple = true;
+  bundleFileInput.style.display = 'none';
+  document.body.appendChild(bundleFileInput);
+
+  bundleFileInput.addEventListener('change', async (event) => {
+    const files = (event.target as HTMLInputElement).files;
+    if (files?.length) {
+      await loadImpostorBundle(files);
+    }
+    bundleFileInput.value = '';
+  });
+
+  textureImportFolder.add({
+    selectBundle: () => bundleFileInput.click()
+  }, 'selectBundle').name('📦 Load Impostor Bundle');
   
   textureImportFolder.close(); // Explicitly collapse
 
@@ -1464,10 +1584,17 @@ function setupGUI(mesh: THREE.Object3D | null, impostorParam: OctahedralImpostor
         target: currentMesh,
         octahedralMode: currentAtlasConfig.octahedralMode,
         cameraType: currentAtlasConfig.cameraType,
+        framing: currentAtlasConfig.framing,
         transparent: materialConfig.transparent,
         disableBlending: materialConfig.disableBlending,
         spritesPerSide: currentAtlasConfig.spritesPerSide,
         textureSize: currentAtlasConfig.textureSize,
+        normalDepthLayout: currentAtlasConfig.normalDepthLayout,
+        gutter: currentAtlasConfig.gutter,
+        dilation: currentAtlasConfig.dilation,
+        trilinear: currentAtlasConfig.trilinear,
+        trimFrames: currentAtlasConfig.trimFrames,
+        supersample: currentAtlasConfig.supersample,
         baseType: THREE.MeshLambertMaterial,
         smartConfig: {
           positioningMode: ImpostorPositioningMode.SMART,
@@ -1629,6 +1756,71 @@ function setupGUI(mesh: THREE.Object3D | null, impostorParam: OctahedralImpostor
     const type = value === CameraType.ORTHOGRAPHIC ? 'Orthographic (no perspective distortion)' : 'Perspective (with perspective distortion)';
     console.log(`Camera type changed to: ${type}`);
   });
+
+  if (!('framing' in atlasConfigForGUI)) {
+    atlasConfigForGUI.framing = AtlasFraming.SPHERE;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'framing', {
+    'Bounding Sphere': AtlasFraming.SPHERE,
+    'Tight (silhouette)': AtlasFraming.TIGHT
+  }).name('Framing').onChange((value: AtlasFraming) => {
+    if (currentAtlasConfig) currentAtlasConfig.framing = value;
+    console.log(`Atlas framing changed to: ${value}`);
+  });
+
+  if (!('normalDepthLayout' in atlasConfigForGUI)) {
+    atlasConfigForGUI.normalDepthLayout = NormalDepthLayout.HALF_FLOAT;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'normalDepthLayout', {
+    'Half Float (8 B/texel)': NormalDepthLayout.HALF_FLOAT,
+    'Packed (4 B/texel)': NormalDepthLayout.PACKED
+  }).name('Normal/Depth Layout').onChange((value: NormalDepthLayout) => {
+    if (currentAtlasConfig) currentAtlasConfig.normalDepthLayout = value;
+    console.log(`Normal/depth layout changed to: ${value}`);
+  });
+
+  if (!('gutter' in atlasConfigForGUI)) {
+    atlasConfigForGUI.gutter = 0;
+    atlasConfigForGUI.dilation = 0;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'gutter', 0, 8, 1).name('Sprite Gutter (px)').onChange((value: number) => {
+    if (currentAtlasConfig) currentAtlasConfig.gutter = value;
+    console.log(`Sprite gutter changed to: ${value}px`);
+  });
+  atlasFolder.add(atlasConfigForGUI, 'dilation', 0, 32, 1).name('Edge Dilation (px)').onChange((value: number) => {
+    if (currentAtlasConfig) currentAtlasConfig.dilation = value;
+    console.log(`Edge dilation changed to: ${value}px`);
+  });
+
+  if (!('supersample' in atlasConfigForGUI)) {
+    atlasConfigForGUI.supersample = 1;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'supersample', { 'Off': 1, '2x': 2, '4x': 4 }).name('Supersampling').onChange((value: number) => {
+    if (currentAtlasConfig) currentAtlasConfig.supersample = value;
+    console.log(`Supersampling changed to: ${value}x`);
+  });
+
+  if (!('trilinear' in atlasConfigForGUI)) {
+    atlasConfigForGUI.trilinear = false;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'trilinear').name('Sprite Mipmaps (Trilinear)').onChange((value: boolean) => {
+    if (currentAtlasConfig) currentAtlasConfig.trilinear = value;
+    console.log(`Sprite mipmaps ${value ? 'enabled' : 'disabled'}`);
+  });
+
+  if (!('trimFrames' in atlasConfigForGUI)) {
+    atlasConfigForGUI.trimFrames = false;
+  }
+
+  atlasFolder.add(atlasConfigForGUI, 'trimFrames').name('Trim Cards To Frames').onChange((value: boolean) => {
+    if (currentAtlasConfig) currentAtlasConfig.trimFrames = value;
+    console.log(`Trimmed cards ${value ? 'enabled' : 'disabled'}`);
+  });
   atlasFolder.add(infoDisplay, 'totalAngles').name('📊 Total Angles').listen().disable();
   atlasFolder.add(infoDisplay, 'atlasInfo').name('📏 Current Atlas').listen().disable();
   atlasFolder.add(infoDisplay, 'octahedralMode').name('🌐 Mode').listen().disable();
@@ -1692,10 +1884,30 @@ function setupGUI(mesh: THREE.Object3D | null, impostorParam: OctahedralImpostor
       } else {
         console.warn('Normal/Depth texture not available for export');
       }
+    },
+    exportNormalDepthEXR: () => {
+      const normalTexture = impostor?.material.normalMap;
+      if (!normalTexture || !currentAtlasConfig) {
+        console.warn('Normal/Depth texture not available for export');
+        return;
+      }
+      const exr = encodeTextureAsEXR(renderer, normalTexture);
+      downloadFile(exr, `normalDepth_${currentAtlasConfig.textureSize}px_${currentAtlasConfig.spritesPerSide}x${currentAtlasConfig.spritesPerSide}.exr`, 'image/x-exr');
+    },
+    compressAtlas: () => compressCurrentImpostor(),
+    exportBundle: () => {
+      if (!impostor || !currentAtlasConfig) {
+        console.warn('No impostor loaded for export');
+        return;
+      }
+      exportImpostorBundle(renderer, impostor, `impostor_${currentAtlasConfig.textureSize}px_${currentAtlasConfig.spritesPerSide}x${currentAtlasConfig.spritesPerSide}`);
     }
   };
   exportFolder.add(exportConfig, 'exportAlbedo').name('📤 Export Albedo PNG');
   exportFolder.add(exportConfig, 'exportNormalDepth').name('📤 Export Normal/Depth PNG');
+  exportFolder.add(exportConfig, 'exportNormalDepthEXR').name('📤 Export Normal/Depth EXR (lossless)');
+  exportFolder.add(exportConfig, 'compressAtlas').name('🗜️ Compress Atlas (BC3 + BC5)');
+  exportFolder.add(exportConfig, 'exportBundle').name('📦 Export Impostor Bundle');
   
   // Camera Control Mode
   const controlConfig = {
@@ -1,33 +1,50 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import {
   Texture,
   PerspectiveCamera,
-  Sprite,
+  Mesh,
+  Object3D,
+  PlaneGeometry,
+  RenderTarget,
   Scene,
+  Sphere,
+  Box3,
+  Vector3,
   DirectionalLight,
   AmbientLight,
   Color,
   TextureLoader,
+  SRGBColorSpace,
   ACESFilmicToneMapping,
   EquirectangularReflectionMapping,
 } from 'three'
-import { WebGPURenderer, SpriteNodeMaterial } from 'three/webgpu'
+import { WebGPURenderer } from 'three/webgpu'
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js'
+import { createTextureAtlasAsync } from './atlas-generation'
+import { AtlasVisualization } from './atlas-visualization'
+import { OctahedralImpostorNodeMaterial } from './impostor-node-material'
 import {
-  uniform,
-  texture as tslTexture,
-  uv,
-  normalize,
-  clamp,
-  min as tslMin,
-  step,
-  vec2,
-  vec4,
-  float,
-  Fn,
-  cameraPosition,
-  modelWorldMatrix,
-} from 'three/tsl'
+  AtlasFraming,
+  CameraType,
+  NormalDepthLayout,
+  OctahedralMode,
+  TextureAtlas,
+  computeObjectBoundingSphere,
+} from './octahedral-utils'
+import {
+  TexturePixels,
+  downloadFile,
+  encodeAtlasAttachmentAsPNG16Async,
+  encodeAtlasAttachmentAsPNGAsync,
+  readRenderTargetPixelsAsync,
+} from './texture-export'
+
+const PRESET_MODELS = [
+  { name: 'BattleAxe', filename: 'battleaxe.glb' },
+  { name: 'Tree', filename: 'tree.glb' },
+  { name: 'JungleTree', filename: 'jungletree.glb' },
+]
 
 type TexturePair = {
   albedo: Texture | null
@@ -35,27 +52,63 @@ type TexturePair = {
 }
 
 type Config = {
-  spritesPerSide: number
   alphaClamp: number
   disableBlending: boolean
   hybridDistance: number
   showWireframe: boolean
-  isHemispherical: boolean
+  showOriginal: boolean
   restrictCameraBelow: boolean
 }
 
-const useThree = (config: Config, textures: TexturePair) => {
+type BakeSettings = {
+  textureSize: number
+  spritesPerSide: number
+  octahedralMode: OctahedralMode
+  cameraType: CameraType
+  framing: AtlasFraming
+  normalDepthLayout: NormalDepthLayout
+  gutter: number
+  useORM: boolean
+}
+
+// Atlas drawn by the impostor, either baked from the loaded model or uploaded
+type ImpostorSource = {
+  albedo: Texture
+  normalDepth: Texture | null
+  orm: Texture | null
+  normalDepthLayout: NormalDepthLayout
+  octahedralMode: OctahedralMode
+  spritesPerSide: number
+  gutter: number
+  center: Vector3
+  scale: number
+  atlas: TextureAtlas<RenderTarget> | null
+}
+
+const panelSectionStyle = { marginTop: 10, paddingTop: 5, borderTop: '1px solid #555' }
+
+const useThree = (config: Config, model: Object3D | null, source: ImpostorSource | null) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const rendererRef = useRef<WebGPURenderer | null>(null)
   const sceneRef = useRef<Scene | null>(null)
   const cameraRef = useRef<PerspectiveCamera | null>(null)
   const controlsRef = useRef<OrbitControls | null>(null)
-  const spriteRef = useRef<Sprite | null>(null)
+  const impostorRef = useRef<Mesh | null>(null)
+  const visualizationRef = useRef<AtlasVisualization | null>(null)
+  const configRef = useRef(config)
+  const sourceRef = useRef(source)
   const rafRef = useRef<number | null>(null)
   const [isReady, setIsReady] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  configRef.current = config
+  sourceRef.current = source
+
+  useEffect(() => {
+    let disposed = false
+    let cleanup: (() => void) | undefined
 
-  const initThree = useMemo(
-    () => async () => {
+    const initThree = async () => {
       if (!canvasRef.current) return
 
       if (!navigator.gpu) throw new Error('WebGPU not supported')
@@ -67,6 +120,10 @@ const useThree = (config: Config, textures: TexturePair) => {
         powerPreference: 'high-performance',
       })
       await renderer.init()
+      if (disposed) {
+        renderer.dispose()
+        return
+      }
       renderer.setSize(window.innerWidth, window.innerHeight)
       renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
       renderer.toneMapping = ACESFilmicToneMapping
@@ -111,6 +168,16 @@ const useThree = (config: Config, textures: TexturePair) => {
       fillLight.position.set(-5, 0, -5)
       scene.add(fillLight)
 
+      // Atlas panel in the bottom right corner, following the frames the impostor samples
+      const visualization = new AtlasVisualization({
+        showGrid: true,
+        indicatorColor: '#ff0000',
+        indicatorLineWidth: 2,
+        updateFrequency: 16,
+      })
+      visualization.attachTo()
+      visualizationRef.current = visualization
+
       const onResize = () => {
         if (!rendererRef.current || !cameraRef.current) return
         cameraRef.current.aspect = window.innerWidth / window.innerHeight
@@ -119,216 +186,429 @@ const useThree = (config: Config, textures: TexturePair) => {
       }
       window.addEventListener('resize', onResize)
 
-      const animate = () => {
+      const animate = (time: number) => {
         if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !controlsRef.current) return
         controlsRef.current.update()
-        if (config.isHemispherical && config.restrictCameraBelow) {
+        // Hemispherical atlases have no frames below the horizon
+        const isHemispherical = sourceRef.current?.octahedralMode === OctahedralMode.HEMISPHERICAL
+        if (isHemispherical && configRef.current.restrictCameraBelow) {
           if (cameraRef.current.position.y < 0) {
             cameraRef.current.position.y = 0
             cameraRef.current.updateMatrixWorld()
           }
         }
         rendererRef.current.render(sceneRef.current, cameraRef.current)
+        visualizationRef.current?.update(time)
         rafRef.current = requestAnimationFrame(animate)
       }
-      animate()
+      rafRef.current = requestAnimationFrame(animate)
       setIsReady(true)
 
       return () => {
         window.removeEventListener('resize', onResize)
         if (rafRef.current) cancelAnimationFrame(rafRef.current)
+        visualizationRef.current?.dispose()
+        visualizationRef.current = null
         controlsRef.current?.dispose()
         rendererRef.current?.dispose()
+        rendererRef.current = null
         setIsReady(false)
       }
-    },
-    [config.isHemispherical, config.restrictCameraBelow]
-  )
-
-  const createMaterial = useMemo(() => {
-    return (albedo: Texture, normal: Texture) => {
-      const material = new SpriteNodeMaterial()
-      const spritesPerSideUniform = uniform(config.spritesPerSide)
-      const albedoNode = tslTexture(albedo)
-
-      const colorNode = Fn(() => {
-        const spriteWorldPos = modelWorldMatrix.mul(vec4(0.0, 0.0, 0.0, 1.0)).xyz
-        const viewDir = normalize(cameraPosition.sub(spriteWorldPos))
-
-        // Octahedral encode camera-to-sprite direction, compute grid and weights
-        const absDir = viewDir.abs()
-        const denom = absDir.x.add(absDir.y).add(absDir.z)
-        const n = viewDir.div(denom)
-        const encX = n.x.add(n.z)
-        const encY = n.z.sub(n.x)
-        const encoded = vec2(encX, encY).add(1.0).mul(0.5)
-
-        const spritesMinusOne = vec2(spritesPerSideUniform.sub(1.0), spritesPerSideUniform.sub(1.0))
-        const grid = encoded.mul(spritesPerSideUniform.sub(1.0))
-        const gridFloor = clamp(grid.floor(), vec2(0.0), spritesMinusOne)
-        const gridFract = grid.fract()
-
-        // Compute sprite indices (vSprite1, vSprite2, vSprite3)
-        const w = gridFract.x.sub(gridFract.y).ceil().clamp(0.0, 1.0)
-        const dirMix = vec2(w, w.oneMinus()) // (1,0) or (0,1)
-        const vSprite1 = gridFloor
-        const vSprite2 = tslMin(vSprite1.add(dirMix), spritesMinusOne)
-        const vSprite3 = tslMin(vSprite1.add(vec2(1.0)), spritesMinusOne)
-
-        // UVs within each frame
-        const frameSize = float(1.0).div(spritesPerSideUniform)
-        const uvLocal = uv().mul(frameSize)
-        const uv1 = vSprite1.mul(frameSize).add(uvLocal)
-        const uv2 = vSprite2.mul(frameSize).add(uvLocal)
-        const uv3 = vSprite3.mul(frameSize).add(uvLocal)
-
-        // Weights like GLSL version
-        const w1 = tslMin(float(1.0).sub(gridFract.x), float(1.0).sub(gridFract.y))
-        const w2 = gridFract.x.sub(gridFract.y).abs()
-        const w3 = tslMin(gridFract.x, gridFract.y)
-
-        const s1 = albedoNode.sample(uv1)
-        const s2 = albedoNode.sample(uv2)
-        const s3 = albedoNode.sample(uv3)
-
-        const blended = s1.mul(w1).add(s2.mul(w2)).add(s3.mul(w3))
-
-        if (config.disableBlending) {
-          // Select dominant sprite without blending
-          const b12 = step(w2, w1) // w1 >= w2
-          const b13 = step(w3, w1) // w1 >= w3
-          const m1 = b12.mul(b13)
-          const b23 = step(w3, w2) // w2 >= w3
-          const b21 = step(w1, w2) // w2 >= w1
-          const m2 = b23.mul(b21)
-          const m3 = float(1.0).sub(m1.add(m2))
-          return s1.mul(m1).add(s2.mul(m2)).add(s3.mul(m3))
-        }
-
-        return blended
-      })()
-
-      material.colorNode = colorNode
-      material.transparent = true
-      material.alphaTest = config.alphaClamp
-      return material
     }
-  }, [config.alphaClamp, config.spritesPerSide, config.disableBlending])
 
-  useEffect(() => {
-    let cleanup: (() => void) | undefined
     initThree()
       .then(fn => {
-        cleanup = fn
+        if (disposed) fn?.()
+        else cleanup = fn
       })
-      .catch(() => {})
-    return () => cleanup?.()
-  }, [initThree])
+      .catch(e => setError(e instanceof Error ? e.message : String(e)))
+    return () => {
+      disposed = true
+      cleanup?.()
+    }
+  }, [])
 
+  const focusCamera = useCallback((target: Object3D | null) => {
+    if (!cameraRef.current || !controlsRef.current) return
+    if (!target) {
+      cameraRef.current.position.set(0, 0, 5)
+      controlsRef.current.target.set(0, 0, 0)
+    } else {
+      const { center, radius } = computeObjectBoundingSphere(target, new Sphere(), true)
+      controlsRef.current.target.copy(center)
+      cameraRef.current.position.set(center.x, center.y + radius * 0.5, center.z + radius * 3)
+    }
+    controlsRef.current.update()
+  }, [])
+
+  // Loaded model, kept in the scene so it can be compared with its impostor
   useEffect(() => {
-    if (!isReady) return
     const scene = sceneRef.current
-    if (!scene) return
+    if (!isReady || !scene || !model) return
 
-    // remove old sprite
-    if (spriteRef.current) {
-      scene.remove(spriteRef.current)
-      spriteRef.current.material.dispose()
-      spriteRef.current = null
+    scene.add(model)
+    focusCamera(model)
+    return () => {
+      scene.remove(model)
     }
+  }, [model, isReady, focusCamera])
 
-    if (!textures.albedo || !textures.normal) return
+  // Impostor drawn with the node material, rebuilt for every atlas
+  useEffect(() => {
+    const scene = sceneRef.current
+    if (!isReady || !scene || !source) return
+
+    const { alphaClamp, disableBlending, hybridDistance } = configRef.current
+    const material = new OctahedralImpostorNodeMaterial({
+      albedo: source.albedo,
+      normalDepth: source.normalDepth ?? undefined,
+      normalDepthLayout: source.normalDepthLayout,
+      orm: source.orm ?? undefined,
+      octahedralMode: source.octahedralMode,
+      spritesPerSide: source.spritesPerSide,
+      gutter: source.gutter,
+      alphaClamp,
+      disableBlending,
+      hybridDistance,
+      transparent: true,
+    })
+    const impostor = new Mesh(new PlaneGeometry(), material)
+    impostor.position.copy(source.center)
+    impostor.scale.setScalar(source.scale)
+    scene.add(impostor)
+    impostorRef.current = impostor
 
-    const material = createMaterial(textures.albedo, textures.normal)
-    const sprite = new Sprite(material)
-    sprite.position.set(0, 0, 0)
-    sprite.scale.set(4, 4, 1)
-    scene.add(sprite)
-    spriteRef.current = sprite
-  }, [textures.albedo, textures.normal, createMaterial, isReady])
+    return () => {
+      scene.remove(impostor)
+      impostor.geometry.dispose()
+      material.dispose()
+      impostorRef.current = null
+    }
+  }, [source, isReady])
 
-  const resetCamera = () => {
-    if (!cameraRef.current || !controlsRef.current) return
-    cameraRef.current.position.set(0, 0, 5)
-    controlsRef.current.target.set(0, 0, 0)
-    controlsRef.current.update()
-  }
+  useEffect(() => {
+    const impostor = impostorRef.current
+    if (impostor) {
+      const material = impostor.material as OctahedralImpostorNodeMaterial
+      material.alphaClamp = config.alphaClamp
+      material.disableBlending = config.disableBlending
+      material.hybridDistance = config.hybridDistance
+      material.wireframe = config.showWireframe
+      impostor.visible = !config.showOriginal
+    }
+    if (model) model.visible = config.showOriginal || !impostor
+  }, [config, model, source, isReady])
 
-  return { canvasRef, resetCamera, isReady }
-}
+  useEffect(() => {
+    const renderer = rendererRef.current
+    const visualization = visualizationRef.current
+    if (!isReady || !renderer || !visualization) return
 
-const useDemoTextures = () => {
-  const [textures, setTextures] = useState<TexturePair>({ albedo: null, normal: null })
-  const [usingDemo, setUsingDemo] = useState(true)
+    if (!source) {
+      visualization.setAtlas(null, null)
+      return
+    }
 
-  useEffect(() => {
     let cancelled = false
-    const loader = new TextureLoader()
-    const load = (path: string) =>
-      new Promise<Texture>((resolve, reject) => {
-        loader.load(
-          path,
-          t => resolve(t),
-          undefined,
-          e => reject(e)
-        )
+    const showAtlas = (albedo?: CanvasImageSource | TexturePixels) => {
+      visualization.setAtlas(impostorRef.current, cameraRef.current, {
+        spritesPerSide: source.spritesPerSide,
+        octahedralMode: source.octahedralMode,
+        albedo,
       })
-    Promise.all([load('/exported-textures/albedo_demo.png'), load('/exported-textures/normal_demo.png')])
-      .then(([albedo, normal]) => {
-        if (cancelled) return
-        setTextures({ albedo, normal })
-        setUsingDemo(true)
-      })
-      .catch(() => {})
+    }
+
+    if (source.atlas) {
+      // Grid only until the baked albedo is read back
+      const { renderTarget } = source.atlas
+      showAtlas()
+      readRenderTargetPixelsAsync(renderer, renderTarget, renderTarget.textures.indexOf(source.atlas.albedo))
+        .then(pixels => {
+          if (!cancelled) showAtlas(pixels)
+        })
+        .catch(e => console.warn('Failed to read back atlas:', e))
+    } else {
+      showAtlas(source.albedo.image as CanvasImageSource)
+    }
+
     return () => {
       cancelled = true
     }
-  }, [])
+  }, [source, isReady])
 
-  const setAlbedoFile = (file: File) => {
+  const resetCamera = () => focusCamera(model)
+
+  return { canvasRef, rendererRef, resetCamera, isReady, error }
+}
+
+const useUploadedTextures = () => {
+  const [textures, setTextures] = useState<TexturePair>({ albedo: null, normal: null })
+
+  const loadFile = (file: File, onLoad: (texture: Texture) => void) => {
     const url = URL.createObjectURL(file)
     new TextureLoader().load(url, t => {
       URL.revokeObjectURL(url)
+      onLoad(t)
+    })
+  }
+
+  const setAlbedoFile = (file: File) => {
+    loadFile(file, t => {
+      t.colorSpace = SRGBColorSpace
       setTextures(prev => ({ ...prev, albedo: t }))
-      setUsingDemo(false)
     })
   }
 
   const setNormalFile = (file: File) => {
-    const url = URL.createObjectURL(file)
-    new TextureLoader().load(url, t => {
-      URL.revokeObjectURL(url)
-      setTextures(prev => ({ ...prev, normal: t }))
-      setUsingDemo(false)
-    })
+    loadFile(file, t => setTextures(prev => ({ ...prev, normal: t })))
   }
 
-  return { textures, usingDemo, setAlbedoFile, setNormalFile }
+  return { textures, setAlbedoFile, setNormalFile }
 }
 
+const loadModel = async (url: string) => {
+  const gltf = await new GLTFLoader().loadAsync(url)
+  const model = gltf.scene
+
+  // Place the bottom of the model on the ground
+  const box = new Box3().setFromObject(model)
+  model.position.set(0, -box.min.y, 0)
+  model.updateMatrixWorld(true)
+
+  return model
+}
+
+const isModelFile = (file: File) => /\.(glb|gltf)$/i.test(file.name)
+
 export const WebgpuApp = () => {
   const [config, setConfig] = useState<Config>({
-    spritesPerSide: 32,
     alphaClamp: 0.1,
     disableBlending: false,
     hybridDistance: 2.0,
     showWireframe: false,
-    isHemispherical: true,
+    showOriginal: false,
     restrictCameraBelow: true,
   })
+  const [settings, setSettings] = useState<BakeSettings>({
+    textureSize: 4096,
+    spritesPerSide: 32,
+    octahedralMode: OctahedralMode.HEMISPHERICAL,
+    cameraType: CameraType.ORTHOGRAPHIC,
+    framing: AtlasFraming.SPHERE,
+    normalDepthLayout: NormalDepthLayout.PACKED,
+    gutter: 0,
+    useORM: false,
+  })
+  const [model, setModel] = useState<Object3D | null>(null)
+  const [modelName, setModelName] = useState<string | null>(null)
+  const [source, setSource] = useState<ImpostorSource | null>(null)
+  const [bakeProgress, setBakeProgress] = useState<number | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const bakeAbortRef = useRef<AbortController | null>(null)
+  const presetRequestedRef = useRef(false)
+
+  const { textures, setAlbedoFile, setNormalFile } = useUploadedTextures()
+  const { canvasRef, rendererRef, resetCamera, isReady, error } = useThree(config, model, source)
+
+  // Baked atlases are owned by the app, uploaded textures by the upload inputs
+  useEffect(() => () => source?.atlas?.renderTarget.dispose(), [source])
+
+  const bake = useCallback(
+    async (target: Object3D) => {
+      const renderer = rendererRef.current
+      if (!renderer) return
+
+      bakeAbortRef.current?.abort()
+      const controller = new AbortController()
+      bakeAbortRef.current = controller
+      setBakeProgress(0)
+
+      // Invisible objects are skipped by the renderer, so show the model while it is baked
+      const wasVisible = target.visible
+      target.visible = true
+
+      try {
+        const atlas = await createTextureAtlasAsync({
+          renderer,
+          target,
+          ...settings,
+          signal: controller.signal,
+          onProgress: ({ progress }) => setBakeProgress(progress),
+        })
+        const boundingSphere = computeObjectBoundingSphere(target, new Sphere(), true)
+
+        setSource({
+          albedo: atlas.albedo,
+          normalDepth: atlas.normalDepth,
+          orm: atlas.orm ?? null,
+          normalDepthLayout: atlas.normalDepthLayout ?? settings.normalDepthLayout,
+          octahedralMode: settings.octahedralMode,
+          spritesPerSide: settings.spritesPerSide,
+          gutter: atlas.gutter ?? 0,
+          center: boundingSphere.center,
+          scale: boundingSphere.radius * 2 * (atlas.frameScale ?? 1),
+          atlas,
+        })
+      } catch (e) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to bake impostor atlas:', e)
+          alert(`Failed to bake impostor atlas: ${e instanceof Error ? e.message : e}`)
+        }
+      } finally {
+        target.visible = wasVisible
+        if (bakeAbortRef.current === controller) {
+          bakeAbortRef.current = null
+          setBakeProgress(null)
+        }
+      }
+    },
+    [settings, rendererRef]
+  )
 
-  const { textures, setAlbedoFile, setNormalFile } = useDemoTextures()
-  const { canvasRef, resetCamera, isReady } = useThree(config, textures)
+  const openModel = useCallback(
+    async (url: string, name: string) => {
+      try {
+        const loaded = await loadModel(url)
+        setModel(loaded)
+        setModelName(name)
+        await bake(loaded)
+      } catch (e) {
+        console.error('Failed to load model:', name, e)
+        alert(`Failed to load model: ${name}`)
+      }
+    },
+    [bake]
+  )
+
+  const openModelFile = useCallback(
+    (file: File) => {
+      if (!isModelFile(file)) {
+        alert('Please drop a .glb or .gltf file')
+        return
+      }
+      const url = URL.createObjectURL(file)
+      openModel(url, file.name).finally(() => URL.revokeObjectURL(url))
+    },
+    [openModel]
+  )
+
+  useEffect(() => {
+    if (!isReady || presetRequestedRef.current) return
+    presetRequestedRef.current = true
+    openModel(`/${PRESET_MODELS[0].filename}`, PRESET_MODELS[0].name)
+  }, [isReady, openModel])
+
+  useEffect(() => {
+    const onDragOver = (e: DragEvent) => {
+      e.preventDefault()
+      setIsDragging(true)
+    }
+    const onDragLeave = (e: DragEvent) => {
+      e.preventDefault()
+      setIsDragging(false)
+    }
+    const onDrop = (e: DragEvent) => {
+      e.preventDefault()
+      setIsDragging(false)
+      const file = e.dataTransfer?.files[0]
+      if (file) openModelFile(file)
+    }
+    document.addEventListener('dragover', onDragOver)
+    document.addEventListener('dragleave', onDragLeave)
+    document.addEventListener('drop', onDrop)
+    return () => {
+      document.removeEventListener('dragover', onDragOver)
+      document.removeEventListener('dragleave', onDragLeave)
+      document.removeEventListener('drop', onDrop)
+    }
+  }, [openModelFile])
+
+  // Uploaded atlases have no bake metadata, so they use the bake settings and the previous fixed placement
+  useEffect(() => {
+    if (!textures.albedo) return
+    setSource({
+      albedo: textures.albedo,
+      normalDepth: textures.normal,
+      orm: null,
+      normalDepthLayout: settings.normalDepthLayout,
+      octahedralMode: settings.octahedralMode,
+      spritesPerSide: settings.spritesPerSide,
+      gutter: settings.gutter,
+      center: new Vector3(),
+      scale: 4,
+      atlas: null,
+    })
+    setModel(null)
+    setModelName(null)
+  }, [textures])
+
+  useEffect(() => () => bakeAbortRef.current?.abort(), [])
+
+  const exportAttachment = async (attachment: 'albedo' | 'normalDepth') => {
+    const renderer = rendererRef.current
+    const atlas = source?.atlas
+    if (!renderer || !atlas) return
+
+    const size = atlas.renderTarget.width
+    const sprites = source.spritesPerSide
+    // Half-float normals are signed, 8 bits would clamp them to [0, 1]
+    const isSigned = attachment === 'normalDepth' && source.normalDepthLayout === NormalDepthLayout.HALF_FLOAT
+
+    try {
+      const data = isSigned
+        ? await encodeAtlasAttachmentAsPNG16Async(renderer, atlas, attachment, true)
+        : await encodeAtlasAttachmentAsPNGAsync(renderer, atlas, attachment)
+      downloadFile(data, `${attachment}_${size}px_${sprites}x${sprites}.png`)
+    } catch (e) {
+      console.error(`Failed to export ${attachment}:`, e)
+      alert(`Failed to export ${attachment}: ${e instanceof Error ? e.message : e}`)
+    }
+  }
+
+  const isBaking = bakeProgress !== null
+  const isHemispherical = source?.octahedralMode === OctahedralMode.HEMISPHERICAL
 
   return (
     <div style={{ position: 'relative', width: '100vw', height: '100vh' }}>
       <canvas ref={canvasRef} style={{ position: 'fixed', inset: 0, width: '100%', height: '100%', zIndex: 1 }} />
 
+      {isDragging && (
+        <div
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(0, 255, 0, 0.1)',
+            zIndex: 3,
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+
+      {error && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(255, 0, 0, 0.8)',
+            color: 'white',
+            padding: 20,
+            borderRadius: 10,
+            zIndex: 4,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
       <div
         style={{
           position: 'absolute',
           top: 10,
           left: 10,
+          maxHeight: 'calc(100vh - 40px)',
+          overflowY: 'auto',
           color: 'white',
           background: 'rgba(0,0,0,0.7)',
           padding: 10,
@@ -342,42 +622,216 @@ export const WebgpuApp = () => {
         <br />
         Using js WebGPURenderer + TSL Nodes
         <br />
-        <br />
-        <div style={{ margin: '5px 0' }}>
-          <label>
-            Albedo Texture:
+
+        <div style={panelSectionStyle}>
+          <strong>Model</strong>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Preset:
+              <select
+                value={PRESET_MODELS.some(preset => preset.name === modelName) ? modelName : ''}
+                onChange={e => {
+                  const preset = PRESET_MODELS.find(p => p.name === e.target.value)
+                  if (preset) openModel(`/${preset.filename}`, preset.name)
+                }}
+                disabled={!isReady}
+                style={{ marginLeft: 10 }}
+              >
+                <option value="" disabled>
+                  Select a model
+                </option>
+                {PRESET_MODELS.map(preset => (
+                  <option key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              GLB/GLTF File:
+              <input
+                type="file"
+                accept=".glb,.gltf"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  if (file) openModelFile(file)
+                  e.target.value = ''
+                }}
+                disabled={!isReady}
+                style={{ marginLeft: 10 }}
+              />
+            </label>
+            <small style={{ color: '#aaa', display: 'block', marginTop: 2 }}>
+              Or drag & drop a .glb/.gltf file anywhere
+            </small>
+          </div>
+        </div>
+
+        <div style={panelSectionStyle}>
+          <strong>Bake Settings</strong>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Texture Size:
+              <select
+                value={settings.textureSize}
+                onChange={e => setSettings(prev => ({ ...prev, textureSize: parseInt(e.target.value) }))}
+                style={{ marginLeft: 10 }}
+              >
+                {[1024, 2048, 4096].map(size => (
+                  <option key={size} value={size}>
+                    {size}px
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Sprites Per Side: <span>{settings.spritesPerSide}</span>
+            </label>
+            <br />
             <input
-              type="file"
-              accept="image/*"
-              onChange={e => {
-                const file = e.target.files?.[0]
-                if (file) setAlbedoFile(file)
-              }}
-              style={{ marginLeft: 10 }}
+              type="range"
+              min={4}
+              max={64}
+              step={1}
+              value={settings.spritesPerSide}
+              onChange={e => setSettings(prev => ({ ...prev, spritesPerSide: parseInt(e.target.value) }))}
+              style={{ width: 200 }}
             />
-          </label>
-          <small style={{ color: '#aaa', display: 'block', marginTop: 2 }}>
-            Auto-loads demo texture or upload your own
-          </small>
-        </div>
-        <div style={{ margin: '5px 0' }}>
-          <label>
-            Normal Map:
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Octahedral Mode:
+              <select
+                value={settings.octahedralMode}
+                onChange={e => setSettings(prev => ({ ...prev, octahedralMode: e.target.value as OctahedralMode }))}
+                style={{ marginLeft: 10 }}
+              >
+                <option value={OctahedralMode.HEMISPHERICAL}>Hemispherical</option>
+                <option value={OctahedralMode.SPHERICAL}>Spherical</option>
+              </select>
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Camera Type:
+              <select
+                value={settings.cameraType}
+                onChange={e => setSettings(prev => ({ ...prev, cameraType: e.target.value as CameraType }))}
+                style={{ marginLeft: 10 }}
+              >
+                <option value={CameraType.ORTHOGRAPHIC}>Orthographic</option>
+                <option value={CameraType.PERSPECTIVE}>Perspective</option>
+              </select>
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Framing:
+              <select
+                value={settings.framing}
+                onChange={e => setSettings(prev => ({ ...prev, framing: e.target.value as AtlasFraming }))}
+                style={{ marginLeft: 10 }}
+              >
+                <option value={AtlasFraming.SPHERE}>Bounding Sphere</option>
+                <option value={AtlasFraming.TIGHT}>Tight</option>
+              </select>
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Normal/Depth Layout:
+              <select
+                value={settings.normalDepthLayout}
+                onChange={e =>
+                  setSettings(prev => ({ ...prev, normalDepthLayout: e.target.value as NormalDepthLayout }))
+                }
+                style={{ marginLeft: 10 }}
+              >
+                <option value={NormalDepthLayout.PACKED}>Packed (8-bit)</option>
+                <option value={NormalDepthLayout.HALF_FLOAT}>Half Float</option>
+              </select>
+            </label>
+            <small style={{ color: '#aaa', display: 'block', marginTop: 2 }}>
+              Packed atlases export to PNG without losing normals
+            </small>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Gutter: <span>{settings.gutter}px</span>
+            </label>
+            <br />
             <input
-              type="file"
-              accept="image/*"
-              onChange={e => {
-                const file = e.target.files?.[0]
-                if (file) setNormalFile(file)
-              }}
-              style={{ marginLeft: 10 }}
+              type="range"
+              min={0}
+              max={8}
+              step={1}
+              value={settings.gutter}
+              onChange={e => setSettings(prev => ({ ...prev, gutter: parseInt(e.target.value) }))}
+              style={{ width: 200 }}
             />
-          </label>
-          <small style={{ color: '#aaa', display: 'block', marginTop: 2 }}>
-            Auto-loads demo texture or upload your own
-          </small>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.useORM}
+                onChange={e => setSettings(prev => ({ ...prev, useORM: e.target.checked }))}
+              />{' '}
+              Bake Occlusion/Roughness/Metalness
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <button onClick={() => model && bake(model)} disabled={!isReady || !model || isBaking}>
+              Bake Impostor
+            </button>
+            <button onClick={() => bakeAbortRef.current?.abort()} disabled={!isBaking}>
+              Cancel
+            </button>
+            {isBaking && <span style={{ marginLeft: 5 }}>{Math.round(bakeProgress * 100)}%</span>}
+          </div>
+        </div>
+
+        <div style={panelSectionStyle}>
+          <strong>Import Textures</strong>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Albedo Texture:
+              <input
+                type="file"
+                accept="image/*"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  if (file) setAlbedoFile(file)
+                }}
+                style={{ marginLeft: 10 }}
+              />
+            </label>
+          </div>
+          <div style={{ margin: '5px 0' }}>
+            <label>
+              Normal/Depth Map:
+              <input
+                type="file"
+                accept="image/*"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  if (file) setNormalFile(file)
+                }}
+                style={{ marginLeft: 10 }}
+              />
+            </label>
+            <small style={{ color: '#aaa', display: 'block', marginTop: 2 }}>
+              Uses the sprites per side, mode and layout of the bake settings
+            </small>
+          </div>
         </div>
-        <div style={{ marginTop: 10 }}>
+
+        <div style={panelSectionStyle}>
+          <strong>Display</strong>
           <div style={{ margin: '10px 0' }}>
             <label>
               Alpha Clamp: <span>{config.alphaClamp.toFixed(2)}</span>
@@ -405,31 +859,13 @@ export const WebgpuApp = () => {
             </label>
           </div>
 
-          <div style={{ margin: '10px 0' }}>
-            <label>
-              <input
-                type="checkbox"
-                checked={config.isHemispherical}
-                onChange={e => {
-                  const isHemispherical = e.target.checked
-                  setConfig(prev => ({
-                    ...prev,
-                    isHemispherical,
-                    restrictCameraBelow: isHemispherical ? true : false,
-                  }))
-                }}
-              />{' '}
-              Hemispherical Mode
-            </label>
-          </div>
-
           <div style={{ margin: '10px 0' }}>
             <label>
               <input
                 type="checkbox"
                 checked={config.restrictCameraBelow}
                 onChange={e => setConfig(prev => ({ ...prev, restrictCameraBelow: e.target.checked }))}
-                disabled={!config.isHemispherical}
+                disabled={!isHemispherical}
               />{' '}
               Restrict Camera Below Y=0
             </label>
@@ -454,6 +890,18 @@ export const WebgpuApp = () => {
             />
           </div>
 
+          <div style={{ margin: '10px 0' }}>
+            <label>
+              <input
+                type="checkbox"
+                checked={config.showOriginal}
+                onChange={e => setConfig(prev => ({ ...prev, showOriginal: e.target.checked }))}
+                disabled={!model}
+              />{' '}
+              Show Original Model
+            </label>
+          </div>
+
           <div style={{ margin: '10px 0' }}>
             <button onClick={resetCamera}>Reset Camera</button>
             <button onClick={() => setConfig(prev => ({ ...prev, showWireframe: !prev.showWireframe }))}>
@@ -461,12 +909,25 @@ export const WebgpuApp = () => {
             </button>
           </div>
         </div>
+
+        <div style={panelSectionStyle}>
+          <strong>Export</strong>
+          <div style={{ margin: '5px 0' }}>
+            <button onClick={() => exportAttachment('albedo')} disabled={!source?.atlas || isBaking}>
+              Albedo PNG
+            </button>
+            <button onClick={() => exportAttachment('normalDepth')} disabled={!source?.atlas || isBaking}>
+              Normal/Depth PNG
+            </button>
+          </div>
+        </div>
+
         <div style={{ marginTop: 15, fontSize: 11, opacity: 0.8 }}>
           Mouse: Orbit camera
           <br />
           Scroll: Zoom
           <br />
-          Requires albedo + normal textures to render impostor
+          Atlas panel: frames sampled for the current view
         </div>
       </div>
     </div>
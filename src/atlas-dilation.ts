@@ -0,0 +1,254 @@
+/**
+ * Edge dilation of baked atlases
+ * Spreads silhouette texels into the transparent area of each sprite, so filtering never pulls in background colors
+ */
+
+import {
+  GLSL3,
+  Mesh,
+  NearestFilter,
+  OrthographicCamera,
+  PlaneGeometry,
+  Scene,
+  ShaderMaterial,
+  Texture,
+  UnsignedByteType,
+  WebGLRenderer,
+  WebGLRenderTarget
+} from 'three';
+
+import { TextureAtlas } from './octahedral-utils.js';
+
+// ============================================================================
+// DILATION TYPES
+// ============================================================================
+
+/**
+ * Parameters for atlas dilation.
+ */
+export interface DilateTextureAtlasParams {
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Number of texels to grow each silhouette by (default: 8) */
+  texels?: number;
+}
+
+/** Neighbour offsets, edge neighbours first so diagonals are only used at corners */
+const NEIGHBOUR_OFFSETS = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [-1, 1], [1, -1], [-1, -1]];
+
+// ============================================================================
+// DILATION SHADERS
+// ============================================================================
+
+const DILATION_VERTEX_SHADER = /* glsl */ `
+  void main() {
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+/**
+ * Builds the fragment shader of one dilation step over all atlas attachments.
+ * Empty texels copy the first covered neighbour within the same sprite and become covered.
+ * The albedo alpha is kept as is, so silhouettes and the alpha test are unchanged.
+ */
+function createDilationFragmentShader(count: number): string {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  const offsets = NEIGHBOUR_OFFSETS.map(([x, y]) => `ivec2(${x}, ${y})`).join(', ');
+
+  return /* glsl */ `
+    precision highp float;
+    precision highp int;
+
+    ${indices.map((i) => `uniform sampler2D tAttachment${i};`).join('\n')}
+    uniform sampler2D tCoverage;
+    uniform float spriteSize;
+    uniform float initialStep;
+
+    ${indices.map((i) => `layout(location = ${i}) out vec4 gAttachment${i};`).join('\n')}
+    layout(location = ${count}) out vec4 gCoverage;
+
+    const ivec2 NEIGHBOURS[8] = ivec2[8](${offsets});
+
+    bool isCovered(ivec2 texel) {
+      // The first step starts from the baked silhouettes, later steps from the grown coverage
+      return initialStep > 0.5
+        ? texelFetch(tAttachment0, texel, 0).a > 0.0
+        : texelFetch(tCoverage, texel, 0).r > 0.5;
+    }
+
+    vec2 getSprite(ivec2 texel) {
+      return floor((vec2(texel) + 0.5) / spriteSize);
+    }
+
+    void main() {
+      ivec2 texel = ivec2(gl_FragCoord.xy);
+      ivec2 source = texel;
+      float covered = 1.0;
+
+      if (!isCovered(texel)) {
+        ivec2 size = textureSize(tAttachment0, 0);
+        vec2 sprite = getSprite(texel);
+        covered = 0.0;
+
+        for (int i = 0; i < 8; i++) {
+          ivec2 neighbour = texel + NEIGHBOURS[i];
+          if (any(lessThan(neighbour, ivec2(0))) || any(greaterThanEqual(neighbour, size))) continue;
+          if (getSprite(neighbour) != sprite) continue;
+
+          if (isCovered(neighbour)) {
+            source = neighbour;
+            covered = 1.0;
+            break;
+          }
+        }
+      }
+
+      gAttachment0 = vec4(texelFetch(tAttachment0, source, 0).rgb, texelFetch(tAttachment0, texel, 0).a);
+      ${indices.slice(1).map((i) => `gAttachment${i} = texelFetch(tAttachment${i}, source, 0);`).join('\n')}
+      gCoverage = vec4(covered);
+    }
+  `;
+}
+
+/**
+ * Builds the fragment shader copying dilated attachments back into the atlas render target.
+ */
+function createCopyFragmentShader(count: number): string {
+  const indices = Array.from({ length: count }, (_, i) => i);
+
+  return /* glsl */ `
+    precision highp float;
+    precision highp int;
+
+    ${indices.map((i) => `uniform sampler2D tAttachment${i};`).join('\n')}
+    ${indices.map((i) => `layout(location = ${i}) out vec4 gAttachment${i};`).join('\n')}
+
+    void main() {
+      ivec2 texel = ivec2(gl_FragCoord.xy);
+      ${indices.map((i) => `gAttachment${i} = texelFetch(tAttachment${i}, texel, 0);`).join('\n')}
+    }
+  `;
+}
+
+// ============================================================================
+// ATLAS DILATION
+// ============================================================================
+
+/**
+ * Dilates every attachment of a baked atlas in place.
+ * Transparent texels near a silhouette take the values of the closest covered texel of their own sprite,
+ * so linear filtering and mipmaps blend with plausible colors and normals instead of the black background.
+ * Coverage (albedo alpha) is left untouched.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param atlas - Atlas returned by createTextureAtlas
+ * @param params - Sprite layout and dilation distance
+ */
+export function dilateTextureAtlas(renderer: WebGLRenderer, atlas: TextureAtlas, params: DilateTextureAtlasParams): void {
+  const { renderTarget } = atlas;
+  const texels = params.texels ?? 8;
+
+  if (!renderTarget) throw new Error('dilateTextureAtlas: atlas has no render target');
+  if (!(params.spritesPerSide >= 1)) throw new Error('dilateTextureAtlas: spritesPerSide is required');
+  if (texels <= 0) return;
+
+  const count = renderTarget.textures.length;
+  const { width, height } = renderTarget;
+
+  const geometry = new PlaneGeometry(2, 2);
+  const dilationMaterial = new ShaderMaterial({
+    vertexShader: DILATION_VERTEX_SHADER,
+    fragmentShader: createDilationFragmentShader(count),
+    glslVersion: GLSL3,
+    depthTest: false,
+    depthWrite: false,
+    uniforms: {
+      ...createAttachmentUniforms(renderTarget.textures),
+      tCoverage: { value: renderTarget.textures[0] },
+      spriteSize: { value: width / params.spritesPerSide },
+      initialStep: { value: 1 }
+    }
+  });
+  const copyMaterial = new ShaderMaterial({
+    vertexShader: DILATION_VERTEX_SHADER,
+    fragmentShader: createCopyFragmentShader(count),
+    glslVersion: GLSL3,
+    depthTest: false,
+    depthWrite: false,
+    uniforms: createAttachmentUniforms(renderTarget.textures)
+  });
+
+  const mesh = new Mesh(geometry, dilationMaterial);
+  const scene = new Scene().add(mesh);
+  const camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  // Ping-pong targets mirroring the atlas attachments, plus a coverage mask
+  const targets = [createDilationTarget(renderTarget, width, height), createDilationTarget(renderTarget, width, height)];
+
+  const previousTarget = renderer.getRenderTarget();
+  const previousScissorTest = renderer.getScissorTest();
+  renderer.setScissorTest(false);
+
+  let sources = renderTarget.textures;
+  for (let step = 0; step < texels; step++) {
+    const target = targets[step % 2];
+
+    setAttachmentUniforms(dilationMaterial, sources);
+    dilationMaterial.uniforms.initialStep.value = step === 0 ? 1 : 0;
+    dilationMaterial.uniforms.tCoverage.value = step === 0 ? renderTarget.textures[0] : sources[count];
+
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    sources = target.textures;
+  }
+
+  // Copy the result back into the atlas attachments
+  setAttachmentUniforms(copyMaterial, sources);
+  mesh.material = copyMaterial;
+  renderer.setRenderTarget(renderTarget);
+  renderer.render(scene, camera);
+
+  renderer.setRenderTarget(previousTarget);
+  renderer.setScissorTest(previousScissorTest);
+
+  // Cleanup
+  targets.forEach((target) => target.dispose());
+  geometry.dispose();
+  dilationMaterial.dispose();
+  copyMaterial.dispose();
+}
+
+/**
+ * Creates a render target with the same attachments as the atlas, plus an 8-bit coverage mask.
+ */
+function createDilationTarget(source: WebGLRenderTarget, width: number, height: number): WebGLRenderTarget {
+  const count = source.textures.length;
+  const target = new WebGLRenderTarget(width, height, { count: count + 1, generateMipmaps: false, depthBuffer: false });
+
+  target.textures.forEach((texture, index) => {
+    const sourceTexture = source.textures[index];
+    texture.type = sourceTexture ? sourceTexture.type : UnsignedByteType;
+    texture.colorSpace = sourceTexture ? sourceTexture.colorSpace : texture.colorSpace;
+    texture.minFilter = NearestFilter;
+    texture.magFilter = NearestFilter;
+  });
+
+  return target;
+}
+
+/**
+ * Creates one sampler uniform per attachment.
+ */
+function createAttachmentUniforms(textures: Texture[]): Record<string, { value: Texture }> {
+  return Object.fromEntries(textures.map((texture, index) => [`tAttachment${index}`, { value: texture }]));
+}
+
+/**
+ * Points the attachment samplers of a material at new textures.
+ */
+function setAttachmentUniforms(material: ShaderMaterial, textures: Texture[]): void {
+  for (let index = 0; index < textures.length; index++) {
+    const uniform = material.uniforms[`tAttachment${index}`];
+    if (uniform) uniform.value = textures[index];
+  }
+}
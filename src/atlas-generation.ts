@@ -23,29 +23,85 @@ import {
   Material,
   Mesh,
   Vector3,
-  IUniform
+  IUniform,
+  Matrix3,
+  Matrix4,
+  Quaternion,
+  MathUtils,
+  PlaneGeometry,
+  Scene,
+  RenderTarget,
+  Box3
 } from 'three';
+import { ConvexHull } from 'three/addons/math/ConvexHull.js';
+import type { WebGPURenderer } from 'three/webgpu';
 
+import { dilateTextureAtlas } from './atlas-dilation.js';
 import { computeObjectBoundingSphere, hemiOctaGridToDir, octaGridToDir } from './octahedral-utils.js';
-import { CreateTextureAtlasParams, TextureAtlas, DEFAULT_CONFIG, OctahedralMode, CameraType } from './octahedral-utils.js';
+import {
+  AtlasRenderer,
+  CreateTextureAtlasParams,
+  CreateTextureAtlasAsyncParams,
+  TextureAtlas,
+  AtlasDepthRange,
+  DEFAULT_CONFIG,
+  OctahedralMode,
+  CameraType,
+  NormalDepthLayout,
+  AtlasFraming
+} from './octahedral-utils.js';
 
 // ============================================================================
 // ATLAS GENERATION SHADERS
 // ============================================================================
 
+/**
+ * GLSL helpers packing normal and depth into 8-bit channels (PACKED layout).
+ */
+const NORMAL_DEPTH_PACKING = /* glsl */ `
+  // Octahedral normal encoding, mapped to [0, 1]
+  vec2 encodeOctahedralNormal(vec3 n) {
+    n /= abs(n.x) + abs(n.y) + abs(n.z);
+    vec2 signs = vec2(n.x >= 0.0 ? 1.0 : -1.0, n.y >= 0.0 ? 1.0 : -1.0);
+    vec2 encoded = n.z >= 0.0 ? n.xy : (1.0 - abs(n.yx)) * signs;
+    return encoded * 0.5 + 0.5;
+  }
+
+  // Splits a [0, 1] value into high and low bytes of a 16-bit integer
+  vec2 packDepth16(float depth) {
+    float value = floor(clamp(depth, 0.0, 1.0) * 65535.0 + 0.5);
+    float high = floor(value / 256.0);
+    return vec2(high, value - high * 256.0) / 255.0;
+  }
+`;
+
 /**
  * Fragment shader for atlas generation.
- * Outputs albedo and packed normal-depth information to separate render targets.
+ * Outputs albedo, packed normal-depth and optional occlusion/roughness/metalness
+ * and emissive information to separate render targets.
  */
 const ATLAS_FRAGMENT_SHADER = /* glsl */ `
   precision highp float;
   precision highp int;
 
   uniform float alphaTest;
-  uniform mat3 normalMatrix;
   uniform sampler2D map;
   uniform vec3 diffuse;
 
+  #ifdef USE_ORM_OUTPUT
+    uniform float roughness;
+    uniform float metalness;
+    uniform float aoMapIntensity;
+    uniform sampler2D roughnessMap;
+    uniform sampler2D metalnessMap;
+    uniform sampler2D aoMap;
+  #endif
+
+  #ifdef USE_EMISSIVE_OUTPUT
+    uniform vec3 emissive;
+    uniform sampler2D emissiveMap;
+  #endif
+
   varying vec2 vUv;
   varying vec3 vNormal;
   varying vec2 vHighPrecisionZW;
@@ -53,6 +109,18 @@ const ATLAS_FRAGMENT_SHADER = /* glsl */ `
   layout(location = 0) out vec4 gAlbedo;
   layout(location = 1) out vec4 gNormalDepth;
 
+  #ifdef USE_ORM_OUTPUT
+    layout(location = ORM_LOCATION) out vec4 gOrm;
+  #endif
+
+  #ifdef USE_EMISSIVE_OUTPUT
+    layout(location = EMISSIVE_LOCATION) out vec4 gEmissive;
+  #endif
+
+  #ifdef PACK_NORMAL_DEPTH
+    ${NORMAL_DEPTH_PACKING}
+  #endif
+
   void main() {
     vec4 albedo = vec4(diffuse, 1.0);
     
@@ -69,30 +137,65 @@ const ATLAS_FRAGMENT_SHADER = /* glsl */ `
       float faceDirection = gl_FrontFacing ? 1.0 : -1.0;
       normal *= faceDirection;
     #endif
-    
-    normal = normalize(normalMatrix * normal);
+
     float fragCoordZ = 0.5 * vHighPrecisionZW[0] / vHighPrecisionZW[1] + 0.5;
 
     gAlbedo = linearToOutputTexel(albedo);
-    gNormalDepth = vec4(normal, 1.0 - fragCoordZ);
+    #ifdef PACK_NORMAL_DEPTH
+      gNormalDepth = vec4(encodeOctahedralNormal(normal), packDepth16(1.0 - fragCoordZ));
+    #else
+      gNormalDepth = vec4(normal, 1.0 - fragCoordZ);
+    #endif
+
+    #ifdef USE_ORM_OUTPUT
+      // Same channel layout as glTF: R = occlusion, G = roughness, B = metalness
+      float occlusionFactor = 1.0;
+      float roughnessFactor = roughness;
+      float metalnessFactor = metalness;
+
+      #ifdef HAS_AO_MAP
+        occlusionFactor = (texture(aoMap, vUv).r - 1.0) * aoMapIntensity + 1.0;
+      #endif
+      #ifdef HAS_ROUGHNESS_MAP
+        roughnessFactor *= texture(roughnessMap, vUv).g;
+      #endif
+      #ifdef HAS_METALNESS_MAP
+        metalnessFactor *= texture(metalnessMap, vUv).b;
+      #endif
+
+      gOrm = vec4(occlusionFactor, roughnessFactor, metalnessFactor, 1.0);
+    #endif
+
+    #ifdef USE_EMISSIVE_OUTPUT
+      vec3 emissiveRadiance = emissive;
+
+      #ifdef HAS_EMISSIVE_MAP
+        emissiveRadiance *= texture(emissiveMap, vUv).rgb;
+      #endif
+
+      gEmissive = vec4(emissiveRadiance, 1.0);
+    #endif
   }
 `;
 
 /**
  * Vertex shader for atlas generation.
- * Transforms vertices and passes through UV coordinates and normals.
+ * Transforms vertices and passes through UV coordinates and normals
+ * expressed in the local frame of the baked target.
  */
 const ATLAS_VERTEX_SHADER = /* glsl */ `
   precision highp float;
   precision highp int;
 
+  uniform mat3 targetNormalMatrix;
+
   varying vec2 vUv;
   varying vec3 vNormal;
   varying vec2 vHighPrecisionZW;
 
   void main() {
     vUv = uv;
-    vNormal = normalize(mat3(modelMatrix) * vec3(normal));
+    vNormal = normalize(targetNormalMatrix * transpose(inverse(mat3(modelMatrix))) * vec3(normal));
 
     vec4 mvPosition = vec4(position, 1.0);
     mvPosition = modelViewMatrix * mvPosition;
@@ -102,20 +205,147 @@ const ATLAS_VERTEX_SHADER = /* glsl */ `
   }
 `;
 
+/**
+ * Fragment shader resolving a supersampled sprite into the atlas.
+ * Each atlas texel box filters the samples of its footprint: colors are weighted by coverage,
+ * normals are summed and renormalized, and depth is averaged over covered samples only.
+ */
+const SUPERSAMPLE_RESOLVE_FRAGMENT_SHADER = /* glsl */ `
+  precision highp float;
+  precision highp int;
+
+  uniform sampler2D tAlbedo;
+  uniform sampler2D tNormalDepth;
+  uniform vec2 viewportOffset;
+  uniform float viewportSize;
+
+  #ifdef USE_ORM_OUTPUT
+    uniform sampler2D tOrm;
+    layout(location = ORM_LOCATION) out vec4 gOrm;
+  #endif
+
+  #ifdef USE_EMISSIVE_OUTPUT
+    uniform sampler2D tEmissive;
+    layout(location = EMISSIVE_LOCATION) out vec4 gEmissive;
+  #endif
+
+  layout(location = 0) out vec4 gAlbedo;
+  layout(location = 1) out vec4 gNormalDepth;
+
+  #ifdef PACK_NORMAL_DEPTH
+    ${NORMAL_DEPTH_PACKING}
+  #endif
+
+  // Coverage weighted average of the RGB channels, plain average of alpha
+  vec4 resolveColor(vec4 weightedSum, vec4 sum, float coverage, float count) {
+    vec3 rgb = coverage > 0.0 ? weightedSum.rgb / coverage : sum.rgb / count;
+    return vec4(rgb, sum.a / count);
+  }
+
+  void main() {
+    ivec2 size = textureSize(tAlbedo, 0);
+    vec2 scale = vec2(size) / viewportSize;
+    vec2 texelCorner = gl_FragCoord.xy - 0.5 - viewportOffset;
+
+    vec4 albedoSum = vec4(0.0);
+    vec4 albedoWeightedSum = vec4(0.0);
+    vec4 normalDepthWeightedSum = vec4(0.0);
+    float coverage = 0.0;
+
+    #ifdef USE_ORM_OUTPUT
+      vec4 ormSum = vec4(0.0);
+      vec4 ormWeightedSum = vec4(0.0);
+    #endif
+
+    #ifdef USE_EMISSIVE_OUTPUT
+      vec4 emissiveSum = vec4(0.0);
+      vec4 emissiveWeightedSum = vec4(0.0);
+    #endif
+
+    for (int y = 0; y < SUPERSAMPLE; y++) {
+      for (int x = 0; x < SUPERSAMPLE; x++) {
+        vec2 position = (texelCorner + (vec2(x, y) + 0.5) / float(SUPERSAMPLE)) * scale;
+        ivec2 texel = clamp(ivec2(floor(position)), ivec2(0), size - 1);
+
+        vec4 albedo = texelFetch(tAlbedo, texel, 0);
+        vec4 normalDepth = texelFetch(tNormalDepth, texel, 0);
+
+        albedoSum += albedo;
+        albedoWeightedSum += albedo * albedo.a;
+        normalDepthWeightedSum += normalDepth * albedo.a;
+        coverage += albedo.a;
+
+        #ifdef USE_ORM_OUTPUT
+          vec4 orm = texelFetch(tOrm, texel, 0);
+          ormSum += orm;
+          ormWeightedSum += orm * albedo.a;
+        #endif
+
+        #ifdef USE_EMISSIVE_OUTPUT
+          vec4 emissive = texelFetch(tEmissive, texel, 0);
+          emissiveSum += emissive;
+          emissiveWeightedSum += emissive * albedo.a;
+        #endif
+      }
+    }
+
+    float count = float(SUPERSAMPLE * SUPERSAMPLE);
+
+    gAlbedo = resolveColor(albedoWeightedSum, albedoSum, coverage, count);
+
+    // Uncovered texels keep the cleared value, as in regular bakes
+    gNormalDepth = vec4(0.0);
+
+    if (coverage > 0.0 && dot(normalDepthWeightedSum.xyz, normalDepthWeightedSum.xyz) > 0.0) {
+      vec3 normal = normalize(normalDepthWeightedSum.xyz);
+      float depth = normalDepthWeightedSum.w / coverage;
+
+      #ifdef PACK_NORMAL_DEPTH
+        gNormalDepth = vec4(encodeOctahedralNormal(normal), packDepth16(depth));
+      #else
+        gNormalDepth = vec4(normal, depth);
+      #endif
+    }
+
+    #ifdef USE_ORM_OUTPUT
+      gOrm = vec4(resolveColor(ormWeightedSum, ormSum, coverage, count).rgb, 1.0);
+    #endif
+
+    #ifdef USE_EMISSIVE_OUTPUT
+      gEmissive = vec4(resolveColor(emissiveWeightedSum, emissiveSum, coverage, count).rgb, 1.0);
+    #endif
+  }
+`;
+
+/**
+ * Vertex shader drawing a full viewport quad.
+ */
+const FULLSCREEN_VERTEX_SHADER = /* glsl */ `
+  void main() {
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
 // ============================================================================
 // ATLAS GENERATION SHARED RESOURCES
 // ============================================================================
 
 const ATLAS_RESOURCES = {
-  orthographicCamera: new OrthographicCamera(),
-  perspectiveCamera: new PerspectiveCamera(75, 1, 0.001, 1000),
-  boundingSphere: new Sphere(),
-  oldScissor: new Vector4(),
-  oldViewport: new Vector4(),
   coordinates: new Vector2(),
-  MATERIAL_KEY: 'octahedral_originalMaterial'
+  targetInverseMatrix: new Matrix4(),
+  up: new Vector3(0, 1, 0),
+  direction: new Vector3(),
+  tangent: new Vector3(),
+  bitangent: new Vector3(),
+  point: new Vector3()
 } as const;
 
+/** Field of view of the perspective bake camera, in degrees */
+const PERSPECTIVE_ATLAS_FOV = 75;
+
+/** Node atlas materials for WebGPURenderer bakes, loaded by initTextureAtlasRenderer */
+let atlasNodeMaterials: typeof import('./atlas-node-materials.js') | undefined;
+
 // ============================================================================
 // ATLAS GENERATION MAIN FUNCTION
 // ============================================================================
@@ -123,11 +353,181 @@ const ATLAS_RESOURCES = {
 /**
  * Creates a texture atlas by rendering the target object from multiple octahedral directions.
  * Generates both albedo and normal-depth textures for use in impostor rendering.
+ * WebGLRenderer bakes with GLSL materials, WebGPURenderer with node materials writing the same attachments.
  * 
  * @param params - Configuration parameters for atlas generation
  * @returns Generated texture atlas with albedo and normal-depth textures
  */
-export function createTextureAtlas(params: CreateTextureAtlasParams): TextureAtlas {
+export function createTextureAtlas(params: CreateTextureAtlasParams): TextureAtlas;
+export function createTextureAtlas(params: CreateTextureAtlasParams<WebGPURenderer>): TextureAtlas<RenderTarget>;
+export function createTextureAtlas(params: CreateTextureAtlasParams<AtlasRenderer>): TextureAtlas<RenderTarget> {
+  const { renderer } = params;
+
+  if (isNodeRenderer(renderer) && (!renderer.hasInitialized() || !atlasNodeMaterials)) {
+    throw new Error('Parameter "renderer" must be initialized, await initTextureAtlasRenderer(renderer) or use createTextureAtlasAsync');
+  }
+
+  const bake = prepareAtlasBake(params);
+
+  // Render all atlas views
+  renderAtlasViews(bake, 0);
+
+  return completeAtlasBake(bake);
+}
+
+/**
+ * Creates a texture atlas like createTextureAtlas, spreading the views over animation frames.
+ * Each frame renders views until its time budget is spent, then hands the renderer back to the
+ * application with its state and the target materials restored. The target should not move meanwhile.
+ * 
+ * @param params - Configuration parameters for atlas generation, plus progress callback and abort signal
+ * @returns Generated texture atlas; rejects with the signal's reason when aborted, leaving nothing allocated
+ */
+export async function createTextureAtlasAsync(params: CreateTextureAtlasAsyncParams): Promise<TextureAtlas>;
+export async function createTextureAtlasAsync(
+  params: CreateTextureAtlasAsyncParams<WebGPURenderer>
+): Promise<TextureAtlas<RenderTarget>>;
+export async function createTextureAtlasAsync(
+  params: CreateTextureAtlasAsyncParams<AtlasRenderer>
+): Promise<TextureAtlas<RenderTarget>> {
+  const { renderer, signal, onProgress } = params;
+  const frameBudget = params.frameBudget ?? DEFAULT_CONFIG.BAKE_FRAME_BUDGET;
+
+  await initTextureAtlasRenderer(renderer);
+
+  signal?.throwIfAborted();
+  const bake = prepareAtlasBake(params);
+
+  try {
+    let renderedViews = 0;
+
+    while (renderedViews < bake.viewCount) {
+      const sliceStart = performance.now();
+      renderedViews = renderAtlasViews(bake, renderedViews, () => performance.now() - sliceStart >= frameBudget);
+
+      onProgress?.({ renderedViews, totalViews: bake.viewCount, progress: renderedViews / bake.viewCount });
+
+      if (renderedViews < bake.viewCount) {
+        await waitForNextFrame();
+        signal?.throwIfAborted();
+      }
+    }
+  } catch (error) {
+    disposeAtlasBake(bake);
+    throw error;
+  }
+
+  return completeAtlasBake(bake);
+}
+
+/**
+ * Prepares a renderer for synchronous createTextureAtlas calls.
+ * A WebGPURenderer is initialized and the node atlas materials are loaded, so WebGL-only
+ * applications never load the node material stack. WebGLRenderers need no preparation.
+ * 
+ * @param renderer - Renderer atlases will be baked with
+ */
+export async function initTextureAtlasRenderer(renderer: AtlasRenderer): Promise<void> {
+  if (!isNodeRenderer(renderer)) return;
+
+  if (!renderer.hasInitialized()) {
+    await renderer.init();
+  }
+
+  atlasNodeMaterials ??= await import('./atlas-node-materials.js');
+}
+
+/**
+ * Computes the depth range an atlas bake produces for a camera configuration.
+ * Useful for atlases imported without their bake metadata.
+ * 
+ * @param cameraType - Camera type the atlas was baked with (default: ORTHOGRAPHIC)
+ * @param cameraFactor - Camera distance factor the atlas was baked with (default: 1)
+ * @param frameScale - Frame scale the atlas was baked with (default: 1)
+ * @returns Bake camera depth range, in impostor units
+ */
+export function getDefaultAtlasDepthRange(
+  cameraType: CameraType = DEFAULT_CONFIG.CAMERA_TYPE,
+  cameraFactor: number = DEFAULT_CONFIG.CAMERA_FACTOR,
+  frameScale = 1
+): AtlasDepthRange {
+  // Unit diameter sphere, so lengths are directly in impostor units
+  const boundingSphere = new Sphere(new Vector3(), 0.5);
+  const camera = cameraType === CameraType.PERSPECTIVE ? new PerspectiveCamera() : new OrthographicCamera();
+
+  // The frame size doesn't change the depth range, only the unit it is expressed in
+  updateAtlasCamera(camera, boundingSphere, cameraFactor, cameraType);
+  return getAtlasDepthRange(camera, boundingSphere, cameraFactor, frameScale);
+}
+
+// ============================================================================
+// ATLAS BAKE STATE
+// ============================================================================
+
+/**
+ * Interface for the state of an atlas bake, from setup to completion.
+ * Each bake owns its camera and target frame, so bakes spread over frames don't interfere.
+ */
+interface AtlasBake {
+  renderer: AtlasRenderer;
+  target: Object3D;
+  octahedralMode: OctahedralMode;
+  spritesPerSide: number;
+  spritesPerSideMinusOne: number;
+  spriteSize: number;
+  atlasSize: number;
+  gutter: number;
+  dilation: number;
+  cameraFactor: number;
+  camera: Camera;
+  /** Half size of the frames relative to the bounding sphere radius */
+  frameScale: number;
+  /** Number of views to render (spritesPerSide²) */
+  viewCount: number;
+  layout: AtlasAttachmentLayout;
+  renderTarget: RenderTarget;
+  boundingSphere: Sphere;
+  /** World rotation of the target when the bake started */
+  targetQuaternion: Quaternion;
+  /** Rotates world normals into the local frame of the target */
+  targetNormalMatrix: IUniform<Matrix3>;
+  /** Atlas materials swapped onto the target meshes while views render */
+  materials: TargetMaterialOverride[];
+  supersampler?: AtlasSupersampler;
+}
+
+/**
+ * Interface for the atlas material override of one target mesh.
+ */
+interface TargetMaterialOverride {
+  mesh: Mesh;
+  original: Material | Material[];
+  atlas: Material | Material[];
+}
+
+/**
+ * Renderer methods used to render views, shared by WebGLRenderer and WebGPURenderer.
+ */
+interface AtlasRenderContext {
+  getRenderTarget(): RenderTarget | null;
+  setRenderTarget(renderTarget: RenderTarget | null): void;
+  getClearAlpha(): number;
+  setClearAlpha(alpha: number): void;
+  clear(): void;
+  render(scene: Object3D, camera: Camera): void;
+}
+
+/**
+ * Checks whether atlases are baked with node materials, on a WebGPURenderer.
+ */
+function isNodeRenderer(renderer: AtlasRenderer): renderer is WebGPURenderer {
+  return (renderer as WebGPURenderer).isWebGPURenderer === true;
+}
+
+/**
+ * Validates the parameters and allocates everything a bake needs.
+ */
+function prepareAtlasBake(params: CreateTextureAtlasParams<AtlasRenderer>): AtlasBake {
   const { renderer, target, octahedralMode } = params;
   
   // Validate required parameters
@@ -140,72 +540,235 @@ export function createTextureAtlas(params: CreateTextureAtlasParams): TextureAtl
   const spritesPerSide = params.spritesPerSide ?? DEFAULT_CONFIG.SPRITES_PER_SIDE;
   const cameraFactor = params.cameraFactor ?? DEFAULT_CONFIG.CAMERA_FACTOR;
   const cameraType = params.cameraType ?? DEFAULT_CONFIG.CAMERA_TYPE;
+  const gutter = params.gutter ?? DEFAULT_CONFIG.GUTTER;
+  const dilation = params.dilation ?? DEFAULT_CONFIG.DILATION;
+  const supersample = params.supersample ?? DEFAULT_CONFIG.SUPERSAMPLE;
+  const framing = params.framing ?? DEFAULT_CONFIG.FRAMING;
+  const layout = getAtlasAttachmentLayout(params);
   
   const spritesPerSideMinusOne = spritesPerSide - 1;
   const spriteSize = atlasSize / spritesPerSide;
 
-  // Compute bounding sphere and setup camera
-  computeObjectBoundingSphere(target, ATLAS_RESOURCES.boundingSphere, true);
+  if (gutter < 0 || gutter * 2 >= spriteSize) {
+    throw new Error(`Parameter "gutter" must leave room for the sprite (sprite size: ${spriteSize} texels)`);
+  }
+  if (!Number.isInteger(supersample) || supersample < 1 || supersample > 4) {
+    throw new Error('Parameter "supersample" must be an integer from 1 to 4');
+  }
+
+  // Resolve and dilation passes are GLSL only
+  if (isNodeRenderer(renderer) && supersample > 1) {
+    throw new Error('Parameter "supersample" is not supported with WebGPURenderer');
+  }
+  if (isNodeRenderer(renderer) && dilation > 0) {
+    throw new Error('Parameter "dilation" is not supported with WebGPURenderer');
+  }
+
+  const boundingSphere = computeObjectBoundingSphere(target, new Sphere(), true);
+  const targetQuaternion = new Quaternion();
+  const targetNormalMatrix: IUniform<Matrix3> = { value: new Matrix3() };
+  updateTargetFrame(target, targetQuaternion, targetNormalMatrix.value);
+
+  // Fit the frames to the silhouette, or keep framing the bounding sphere
+  const frameRadius = framing === AtlasFraming.TIGHT
+    ? computeTightFrameRadius(target, boundingSphere, targetQuaternion, octahedralMode, spritesPerSide,
+      cameraType === CameraType.PERSPECTIVE ? getPerspectiveCameraDistance(boundingSphere.radius, cameraFactor) : undefined)
+    : undefined;
+
+  // Setup camera
   const camera = cameraType === CameraType.PERSPECTIVE 
-    ? ATLAS_RESOURCES.perspectiveCamera 
-    : ATLAS_RESOURCES.orthographicCamera;
-  updateAtlasCamera(camera, ATLAS_RESOURCES.boundingSphere, cameraFactor, cameraType);
+    ? new PerspectiveCamera(PERSPECTIVE_ATLAS_FOV, 1, 0.001, 1000) 
+    : new OrthographicCamera();
+  updateAtlasCamera(camera, boundingSphere, cameraFactor, cameraType, frameRadius);
 
-  // Setup rendering environment
-  const renderState = setupAtlasRenderer(renderer, atlasSize);
-  overrideTargetMaterials(target);
+  const supersampler = supersample > 1 ? createSupersampler(spriteSize - gutter * 2, supersample, layout) : undefined;
 
-  // Render all atlas views
-  for (let row = 0; row < spritesPerSide; row++) {
-    for (let col = 0; col < spritesPerSide; col++) {
-      renderAtlasView(col, row, {
-        renderer,
-        target,
-        octahedralMode,
-        spritesPerSide,
-        spritesPerSideMinusOne,
-        spriteSize,
-        atlasSize,
-        cameraFactor,
-        camera
-      });
+  // Supersampled sprites keep full precision normal-depth, packing happens when they are resolved
+  const materialLayout = supersampler ? { ...layout, packedNormalDepth: false } : layout;
+  const createMaterial: AtlasMaterialFactory = isNodeRenderer(renderer)
+    ? (source) => atlasNodeMaterials!.createAtlasNodeMaterial(source, materialLayout, targetNormalMatrix, cameraType)
+    : (source) => createAtlasMaterial(source, materialLayout, targetNormalMatrix);
+
+  return {
+    renderer,
+    target,
+    octahedralMode,
+    spritesPerSide,
+    spritesPerSideMinusOne,
+    spriteSize,
+    atlasSize,
+    gutter,
+    dilation,
+    cameraFactor,
+    camera,
+    frameScale: frameRadius !== undefined ? frameRadius / boundingSphere.radius : 1,
+    viewCount: spritesPerSide * spritesPerSide,
+    layout,
+    renderTarget: createAtlasRenderTarget(renderer, atlasSize, layout),
+    boundingSphere,
+    targetQuaternion,
+    targetNormalMatrix,
+    materials: createTargetMaterialOverrides(target, createMaterial),
+    supersampler
+  };
+}
+
+/**
+ * Renders views in grid order, starting at the given view, until all are done or shouldYield returns true.
+ * The renderer and target materials are only borrowed for the duration of the call.
+ * 
+ * @returns Index of the next view to render
+ */
+function renderAtlasViews(bake: AtlasBake, firstView: number, shouldYield: () => boolean = () => false): number {
+  const { renderer, spritesPerSide } = bake;
+  const rendererState = setupAtlasRenderer(renderer);
+  swapTargetMaterials(bake.materials, true);
+
+  let view = firstView;
+
+  try {
+    if (isNodeRenderer(renderer) && firstView === 0) {
+      // WebGPU clears whole attachments, so the atlas is cleared once and views are drawn without clearing
+      renderer.setRenderTarget(bake.renderTarget);
+      renderer.clear();
     }
+
+    while (view < bake.viewCount) {
+      renderAtlasView(view % spritesPerSide, Math.floor(view / spritesPerSide), bake);
+      view++;
+
+      if (shouldYield()) break;
+    }
+  } finally {
+    restoreAtlasRenderer(renderer, rendererState);
+    swapTargetMaterials(bake.materials, false);
   }
 
-  // Cleanup and restore state
-  restoreAtlasRenderer(renderer, renderState);
-  restoreTargetMaterials(target);
+  return view;
+}
 
-  return {
-    renderTarget: renderState.renderTarget,
-    albedo: renderState.renderTarget.textures[0],
-    normalDepth: renderState.renderTarget.textures[1]
+/**
+ * Releases the bake resources and returns the finished atlas.
+ */
+function completeAtlasBake(bake: AtlasBake): TextureAtlas<RenderTarget> {
+  const { renderer, renderTarget, layout, camera, boundingSphere, cameraFactor, frameScale, dilation, gutter } = bake;
+
+  disposeAtlasBake(bake, true);
+
+  // Later passes render to the whole atlas
+  renderTarget.viewport.set(0, 0, renderTarget.width, renderTarget.height);
+  renderTarget.scissor.set(0, 0, renderTarget.width, renderTarget.height);
+  renderTarget.scissorTest = false;
+
+  const { textures } = renderTarget;
+
+  const atlas: TextureAtlas<RenderTarget> = {
+    renderTarget,
+    albedo: textures[0],
+    normalDepth: textures[1],
+    normalDepthLayout: layout.packedNormalDepth ? NormalDepthLayout.PACKED : NormalDepthLayout.HALF_FLOAT,
+    gutter,
+    frameScale,
+    depthRange: getAtlasDepthRange(camera, boundingSphere, cameraFactor, frameScale),
+    ...(layout.orm >= 0 && { orm: textures[layout.orm] }),
+    ...(layout.emissive >= 0 && { emissive: textures[layout.emissive] })
   };
+
+  // Grow sprite edges into transparent texels so filtering doesn't bleed the background in
+  if (dilation > 0 && !isNodeRenderer(renderer)) {
+    dilateTextureAtlas(renderer, atlas as TextureAtlas<WebGLRenderTarget>, { spritesPerSide: bake.spritesPerSide, texels: dilation });
+  }
+
+  return atlas;
+}
+
+/**
+ * Disposes the temporary resources of a bake, and the atlas itself unless it is kept.
+ */
+function disposeAtlasBake(bake: AtlasBake, keepRenderTarget = false): void {
+  bake.supersampler?.dispose();
+
+  for (const { atlas } of bake.materials) {
+    (Array.isArray(atlas) ? atlas : [atlas]).forEach((material) => material.dispose());
+  }
+
+  if (!keepRenderTarget) {
+    bake.renderTarget.dispose();
+  }
+}
+
+/**
+ * Resolves on the next animation frame, or on the next task outside of browsers.
+ */
+function waitForNextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
 }
 
 // ============================================================================
 // ATLAS GENERATION HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Interface for the attachment layout of the atlas render target.
+ * Optional attachments are packed after albedo (0) and normal-depth (1).
+ * @internal
+ */
+export interface AtlasAttachmentLayout {
+  /** Total number of color attachments */
+  count: number;
+  /** Attachment index of the occlusion/roughness/metalness output, or -1 if disabled */
+  orm: number;
+  /** Attachment index of the emissive output, or -1 if disabled */
+  emissive: number;
+  /** Whether normal-depth is packed into 8-bit channels */
+  packedNormalDepth: boolean;
+}
+
+/** @internal Attachment names, matched by the MRT outputs of node atlas materials */
+export const ATLAS_ATTACHMENT_NAMES = {
+  albedo: 'output',
+  normalDepth: 'normalDepth',
+  orm: 'orm',
+  emissive: 'emissive'
+} as const;
+
+/**
+ * Resolves which optional attachments are rendered and at which index.
+ */
+function getAtlasAttachmentLayout(params: CreateTextureAtlasParams<AtlasRenderer>): AtlasAttachmentLayout {
+  let count = 2;
+  const orm = params.useORM ? count++ : -1;
+  const emissive = params.useEmissive ? count++ : -1;
+  const packedNormalDepth = (params.normalDepthLayout ?? DEFAULT_CONFIG.NORMAL_DEPTH_LAYOUT) === NormalDepthLayout.PACKED;
+  return { count, orm, emissive, packedNormalDepth };
+}
+
 /**
  * Updates the atlas camera configuration based on the bounding sphere.
+ * A frame radius replaces the sphere framing with frames of that half size, measured through the sphere center.
  */
-function updateAtlasCamera(camera: Camera, boundingSphere: Sphere, cameraFactor: number, cameraType: CameraType): void {
+function updateAtlasCamera(
+  camera: Camera,
+  boundingSphere: Sphere,
+  cameraFactor: number,
+  cameraType: CameraType,
+  frameRadius?: number
+): void {
   const { radius } = boundingSphere;
   
   if (cameraType === CameraType.PERSPECTIVE) {
     const perspectiveCamera = camera as PerspectiveCamera;
-    const fovRadians = (75 * Math.PI) / 180;
-    
-    // Calculate optimal distance to maximize texture space usage
-    // Use radius directly (not radius * sqrt(2)) for tighter framing
-    // Add small padding factor (1.1) to prevent edge clipping
-    const minDistance = (radius * 1.1) / Math.tan(fovRadians / 2);
-    
-    // Apply camera factor to the calculated distance
-    const cameraDistance = minDistance * cameraFactor;
+    const cameraDistance = getPerspectiveCameraDistance(radius, cameraFactor);
     
-    perspectiveCamera.fov = 75;
+    perspectiveCamera.fov = frameRadius !== undefined
+      ? MathUtils.radToDeg(2 * Math.atan(frameRadius / cameraDistance))
+      : PERSPECTIVE_ATLAS_FOV;
     perspectiveCamera.aspect = 1;
     perspectiveCamera.near = 0.001;
     perspectiveCamera.far = cameraDistance + radius + 0.001;
@@ -215,42 +778,226 @@ function updateAtlasCamera(camera: Camera, boundingSphere: Sphere, cameraFactor:
     (perspectiveCamera as any).computedDistanceFactor = cameraDistance / radius;
   } else {
     const orthographicCamera = camera as OrthographicCamera;
-    orthographicCamera.left = -radius;
-    orthographicCamera.right = radius;
-    orthographicCamera.top = radius;
-    orthographicCamera.bottom = -radius;
-    orthographicCamera.zoom = cameraFactor;
+    const halfSize = frameRadius ?? radius;
+    orthographicCamera.left = -halfSize;
+    orthographicCamera.right = halfSize;
+    orthographicCamera.top = halfSize;
+    orthographicCamera.bottom = -halfSize;
+    orthographicCamera.zoom = frameRadius !== undefined ? 1 : cameraFactor;
     orthographicCamera.near = 0.001;
     orthographicCamera.far = radius * 2 + 0.001;
     orthographicCamera.updateProjectionMatrix();
+
+    if (frameRadius !== undefined) {
+      // Fitted frames always keep the camera on the bounding sphere, so the depth range covers the target
+      (orthographicCamera as any).computedDistanceFactor = 1;
+    }
   }
 }
 
 /**
- * Interface for render view parameters.
+ * Returns the perspective bake camera distance from the bounding sphere center.
  */
-interface RenderViewParams {
-  renderer: WebGLRenderer;
-  target: Object3D;
-  octahedralMode: OctahedralMode;
-  spritesPerSide: number;
-  spritesPerSideMinusOne: number;
-  spriteSize: number;
-  atlasSize: number;
-  cameraFactor: number;
-  camera: Camera;
+function getPerspectiveCameraDistance(radius: number, cameraFactor: number): number {
+  const fovRadians = MathUtils.degToRad(PERSPECTIVE_ATLAS_FOV);
+
+  // Calculate optimal distance to maximize texture space usage
+  // Use radius directly (not radius * sqrt(2)) for tighter framing
+  // Add small padding factor (1.1) to prevent edge clipping
+  const minDistance = (radius * 1.1) / Math.tan(fovRadians / 2);
+
+  // Apply camera factor to the calculated distance
+  return minDistance * cameraFactor;
+}
+
+/**
+ * Computes the half size of the smallest frame containing the target from every baked direction.
+ * Vertices are projected on the same frame basis the impostor billboard uses. Perspective frames
+ * are measured on the plane through the bounding sphere center, where the billboard lies.
+ * 
+ * @param cameraDistance - Perspective camera distance from the sphere center, undefined for orthographic bakes
+ * @returns Frame half size, in world units
+ */
+function computeTightFrameRadius(
+  target: Object3D,
+  boundingSphere: Sphere,
+  targetQuaternion: Quaternion,
+  octahedralMode: OctahedralMode,
+  spritesPerSide: number,
+  cameraDistance?: number
+): number {
+  const { coordinates, up, direction, tangent, bitangent } = ATLAS_RESOURCES;
+  const points = reduceToHullPoints(collectTargetPoints(target, boundingSphere.center, targetQuaternion), boundingSphere.radius);
+  const spritesPerSideMinusOne = spritesPerSide - 1;
+
+  if (points.length === 0) return boundingSphere.radius;
+
+  let frameRadius = 0;
+
+  for (let row = 0; row < spritesPerSide; row++) {
+    for (let col = 0; col < spritesPerSide; col++) {
+      coordinates.set(col / spritesPerSideMinusOne, row / spritesPerSideMinusOne);
+
+      if (octahedralMode === OctahedralMode.HEMISPHERICAL) {
+        hemiOctaGridToDir(coordinates, direction).normalize();
+      } else {
+        octaGridToDir(coordinates, direction).normalize();
+      }
+
+      // Views along the up axis have an arbitrary frame rotation, so their silhouette is fitted with a circle
+      const isPolar = Math.abs(direction.y) > 0.999;
+      tangent.crossVectors(up, direction).normalize();
+      bitangent.crossVectors(direction, tangent);
+
+      for (let i = 0; i < points.length; i += 3) {
+        const x = points[i], y = points[i + 1], z = points[i + 2];
+        const u = x * tangent.x + y * tangent.y + z * tangent.z;
+        const v = x * bitangent.x + y * bitangent.y + z * bitangent.z;
+        let extent = isPolar ? Math.hypot(u, v) : Math.max(Math.abs(u), Math.abs(v));
+
+        if (cameraDistance !== undefined) {
+          // Points closer to the camera cover more of the frame
+          extent *= cameraDistance / (cameraDistance - (x * direction.x + y * direction.y + z * direction.z));
+        }
+
+        frameRadius = Math.max(frameRadius, extent);
+      }
+    }
+  }
+
+  return frameRadius;
+}
+
+/**
+ * Gathers the vertices of all target meshes, relative to the bounding sphere center and in the local frame of the target.
+ * 
+ * @returns Packed XYZ positions
+ */
+function collectTargetPoints(target: Object3D, center: Vector3, targetQuaternion: Quaternion): Float32Array {
+  const { point } = ATLAS_RESOURCES;
+  const inverseQuaternion = targetQuaternion.clone().invert();
+  const meshes: Mesh[] = [];
+  let count = 0;
+
+  target.traverse((object) => {
+    const mesh = object as Mesh;
+    const position = mesh.isMesh ? mesh.geometry.getAttribute('position') : undefined;
+    if (position) {
+      meshes.push(mesh);
+      count += position.count;
+    }
+  });
+
+  const points = new Float32Array(count * 3);
+  let offset = 0;
+
+  for (const mesh of meshes) {
+    const position = mesh.geometry.getAttribute('position');
+
+    for (let i = 0; i < position.count; i++, offset += 3) {
+      point.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld).sub(center).applyQuaternion(inverseQuaternion);
+      point.toArray(points, offset);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Reduces target points to the vertices of their convex hull, so every view only projects a few hundred points.
+ * The frame extent of a view, including the perspective scaling, is quasiconvex in the point position,
+ * so its maximum over the hull vertices equals its maximum over all points.
+ * Flat targets, on which the hull degenerates, fall back to the corners of their bounding box.
+ * 
+ * @param points - Packed XYZ positions
+ * @param radius - Bounding sphere radius, the scale degenerate hulls are detected at
+ * @returns Packed XYZ positions of the hull vertices
+ */
+function reduceToHullPoints(points: Float32Array, radius: number): Float32Array {
+  if (points.length < 4 * 3) return points;
+
+  const vertices: Vector3[] = [];
+  for (let i = 0; i < points.length; i += 3) {
+    vertices.push(new Vector3(points[i], points[i + 1], points[i + 2]));
+  }
+
+  const hull = new ConvexHull().setFromPoints(vertices);
+  const hullVertices = new Set<Vector3>();
+  let volume = 0;
+
+  for (const face of hull.faces) {
+    volume += face.area * face.normal.dot(face.midpoint) / 3;
+
+    let edge = face.edge;
+    do {
+      hullVertices.add(edge.head().point);
+      edge = edge.next;
+    } while (edge !== face.edge);
+  }
+
+  if (volume > 1e-6 * radius ** 3) {
+    return new Float32Array([...hullVertices].flatMap((vertex) => vertex.toArray()));
+  }
+
+  const box = new Box3().setFromArray(points);
+  const corners: number[] = [];
+
+  for (let i = 0; i < 8; i++) {
+    corners.push(
+      i & 1 ? box.max.x : box.min.x,
+      i & 2 ? box.max.y : box.min.y,
+      i & 4 ? box.max.z : box.min.z
+    );
+  }
+
+  return new Float32Array(corners);
+}
+
+/**
+ * Captures the rotation of the target so views and normals are baked in its local frame.
+ * Impostors then pick frames and light normals relative to their own rotation.
+ */
+function updateTargetFrame(target: Object3D, targetQuaternion: Quaternion, targetNormalMatrix: Matrix3): void {
+  const { targetInverseMatrix } = ATLAS_RESOURCES;
+
+  target.getWorldQuaternion(targetQuaternion);
+  targetInverseMatrix.copy(target.matrixWorld).invert();
+  targetNormalMatrix.getNormalMatrix(targetInverseMatrix);
+}
+
+/**
+ * Returns the bake camera distance from the bounding sphere center, in bounding sphere radii.
+ */
+function getCameraDistanceFactor(camera: Camera, cameraFactor: number): number {
+  const computedDistanceFactor = (camera as any).computedDistanceFactor;
+  return computedDistanceFactor !== undefined ? computedDistanceFactor : cameraFactor;
+}
+
+/**
+ * Expresses the bake camera depth range in impostor units (frame width = 1).
+ */
+function getAtlasDepthRange(camera: Camera, boundingSphere: Sphere, cameraFactor: number, frameScale: number): AtlasDepthRange {
+  const { near, far } = camera as PerspectiveCamera | OrthographicCamera;
+  const frameWidth = boundingSphere.radius * 2 * frameScale;
+
+  return {
+    near: near / frameWidth,
+    far: far / frameWidth,
+    cameraDistance: getCameraDistanceFactor(camera, cameraFactor) * 0.5 / frameScale
+  };
 }
 
 /**
  * Renders a single view of the atlas at the specified grid position.
  */
-function renderAtlasView(col: number, row: number, params: RenderViewParams): void {
+function renderAtlasView(col: number, row: number, bake: AtlasBake): void {
   const { 
-    renderer, target, octahedralMode, spritesPerSideMinusOne, 
-    spriteSize, atlasSize, cameraFactor, camera 
-  } = params;
+    target, octahedralMode, spritesPerSideMinusOne, spriteSize, atlasSize, gutter,
+    cameraFactor, camera, supersampler, renderTarget, boundingSphere, targetQuaternion
+  } = bake;
+  const renderer = bake.renderer as AtlasRenderContext;
   
-  const { boundingSphere, coordinates } = ATLAS_RESOURCES;
+  const { coordinates } = ATLAS_RESOURCES;
   
   // Calculate grid coordinates and direction
   coordinates.set(col / spritesPerSideMinusOne, row / spritesPerSideMinusOne);
@@ -261,49 +1008,143 @@ function renderAtlasView(col: number, row: number, params: RenderViewParams): vo
     octaGridToDir(coordinates, camera.position);
   }
 
+  // Orbit in the local frame of the target
+  camera.position.applyQuaternion(targetQuaternion);
+  camera.up.set(0, 1, 0).applyQuaternion(targetQuaternion);
+
   // Position camera and set viewport
-  const isPerspective = (camera as any).computedDistanceFactor !== undefined;
-  const distanceFactor = isPerspective 
-    ? (camera as any).computedDistanceFactor 
-    : cameraFactor;
+  const distanceFactor = getCameraDistanceFactor(camera, cameraFactor);
   
   camera.position.setLength(boundingSphere.radius * distanceFactor).add(boundingSphere.center);
   camera.lookAt(boundingSphere.center);
 
-  const xOffset = (col / params.spritesPerSide) * atlasSize;
-  const yOffset = (row / params.spritesPerSide) * atlasSize;
+  const xOffset = (col / bake.spritesPerSide) * atlasSize;
+  const yOffset = (row / bake.spritesPerSide) * atlasSize;
+
+  // WebGPURenderer viewports start at the top, rows are flipped so the atlas layout matches WebGL bakes
+  const viewportY = isNodeRenderer(bake.renderer) ? atlasSize - yOffset - spriteSize : yOffset;
   
-  renderer.setViewport(xOffset, yOffset, spriteSize, spriteSize);
-  renderer.setScissor(xOffset, yOffset, spriteSize, spriteSize);
-  renderer.render(target, camera);
+  if (supersampler) {
+    // Render the view at high resolution, then filter it into the atlas cell
+    renderer.setRenderTarget(supersampler.renderTarget);
+    renderer.render(target, camera);
+    supersampler.uniforms.viewportOffset.value.set(xOffset + gutter, yOffset + gutter);
+  }
+
+  // The view is inset by the gutter, while the whole cell is still cleared.
+  // Set on the target rather than the renderer, so the canvas pixel ratio doesn't apply.
+  renderTarget.viewport.set(xOffset + gutter, viewportY + gutter, spriteSize - gutter * 2, spriteSize - gutter * 2);
+  renderTarget.scissor.set(xOffset, viewportY, spriteSize, spriteSize);
+  renderer.setRenderTarget(renderTarget);
+
+  if (supersampler) {
+    renderer.render(supersampler.scene, supersampler.camera);
+  } else {
+    renderer.render(target, camera);
+  }
+}
+
+/**
+ * Interface for the resources of supersampled sprite rendering.
+ */
+interface AtlasSupersampler {
+  /** High resolution render target a single sprite is rendered into */
+  renderTarget: WebGLRenderTarget;
+  /** Full viewport quad resolving the sprite into the atlas */
+  scene: Scene;
+  camera: OrthographicCamera;
+  uniforms: { viewportOffset: IUniform<Vector2>; viewportSize: IUniform<number> };
+  dispose: () => void;
+}
+
+/**
+ * Creates the high resolution sprite target and the resolve pass of supersampled bakes.
+ * All sprite attachments are half float, so nothing is quantized before filtering.
+ */
+function createSupersampler(viewSize: number, supersample: number, layout: AtlasAttachmentLayout): AtlasSupersampler {
+  const size = Math.round(viewSize * supersample);
+  const renderTarget = new WebGLRenderTarget(size, size, { count: layout.count, generateMipmaps: false });
+
+  renderTarget.textures.forEach((texture) => {
+    texture.type = HalfFloatType;
+    texture.minFilter = NearestFilter;
+    texture.magFilter = NearestFilter;
+    texture.colorSpace = LinearSRGBColorSpace;
+  });
+
+  const uniforms = {
+    viewportOffset: { value: new Vector2() },
+    viewportSize: { value: viewSize }
+  };
+
+  const defines: Record<string, boolean | number> = { SUPERSAMPLE: supersample };
+  if (layout.packedNormalDepth) defines.PACK_NORMAL_DEPTH = true;
+  if (layout.orm >= 0) Object.assign(defines, { USE_ORM_OUTPUT: true, ORM_LOCATION: layout.orm });
+  if (layout.emissive >= 0) Object.assign(defines, { USE_EMISSIVE_OUTPUT: true, EMISSIVE_LOCATION: layout.emissive });
+
+  const { textures } = renderTarget;
+  const material = new ShaderMaterial({
+    vertexShader: FULLSCREEN_VERTEX_SHADER,
+    fragmentShader: SUPERSAMPLE_RESOLVE_FRAGMENT_SHADER,
+    glslVersion: GLSL3,
+    defines,
+    depthTest: false,
+    depthWrite: false,
+    uniforms: {
+      ...uniforms,
+      tAlbedo: { value: textures[0] },
+      tNormalDepth: { value: textures[1] },
+      tOrm: { value: layout.orm >= 0 ? textures[layout.orm] : null },
+      tEmissive: { value: layout.emissive >= 0 ? textures[layout.emissive] : null }
+    }
+  });
+
+  const geometry = new PlaneGeometry(2, 2);
+  const scene = new Scene().add(new Mesh(geometry, material));
+  const camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  return {
+    renderTarget,
+    scene,
+    camera,
+    uniforms,
+    dispose: () => {
+      renderTarget.dispose();
+      geometry.dispose();
+      material.dispose();
+    }
+  };
 }
 
 /**
  * Interface for renderer state during atlas generation.
  */
 interface AtlasRendererState {
-  renderTarget: WebGLRenderTarget;
-  oldPixelRatio: number;
-  oldScissorTest: boolean;
+  oldRenderTarget: RenderTarget | null;
   oldClearAlpha: number;
+  oldAutoClear: boolean;
 }
 
 /**
- * Sets up the renderer for atlas generation and returns the state for restoration.
+ * Creates the multi-target render target of the atlas.
  */
-function setupAtlasRenderer(renderer: WebGLRenderer, atlasSize: number): AtlasRendererState {
-  const oldPixelRatio = renderer.getPixelRatio();
-  const oldScissorTest = renderer.getScissorTest();
-  const oldClearAlpha = renderer.getClearAlpha();
-  
-  renderer.getScissor(ATLAS_RESOURCES.oldScissor);
-  renderer.getViewport(ATLAS_RESOURCES.oldViewport);
+function createAtlasRenderTarget(
+  renderer: AtlasRenderer,
+  atlasSize: number,
+  layout: AtlasAttachmentLayout
+): RenderTarget {
+  const options = { count: layout.count, generateMipmaps: false };
 
   // Create multi-target render target
-  const renderTarget = new WebGLRenderTarget(atlasSize, atlasSize, { 
-    count: 2, 
-    generateMipmaps: false 
-  });
+  const renderTarget = isNodeRenderer(renderer)
+    ? new RenderTarget(atlasSize, atlasSize, options)
+    : new WebGLRenderTarget(atlasSize, atlasSize, options);
+  renderTarget.scissorTest = true;
+
+  renderTarget.textures[0].name = ATLAS_ATTACHMENT_NAMES.albedo;
+  renderTarget.textures[1].name = ATLAS_ATTACHMENT_NAMES.normalDepth;
+  if (layout.orm >= 0) renderTarget.textures[layout.orm].name = ATLAS_ATTACHMENT_NAMES.orm;
+  if (layout.emissive >= 0) renderTarget.textures[layout.emissive].name = ATLAS_ATTACHMENT_NAMES.emissive;
 
   // Configure albedo texture (attachment 0)
   renderTarget.textures[0].minFilter = LinearFilter;
@@ -311,69 +1152,101 @@ function setupAtlasRenderer(renderer: WebGLRenderer, atlasSize: number): AtlasRe
   renderTarget.textures[0].type = UnsignedByteType;
   renderTarget.textures[0].colorSpace = renderer.outputColorSpace;
 
-  // Configure normal-depth texture (attachment 1)
+  // Configure normal-depth texture (attachment 1), packed layouts halve the memory
   renderTarget.textures[1].minFilter = NearestFilter;
   renderTarget.textures[1].magFilter = NearestFilter;
-  renderTarget.textures[1].type = HalfFloatType;
+  renderTarget.textures[1].type = layout.packedNormalDepth ? UnsignedByteType : HalfFloatType;
   renderTarget.textures[1].colorSpace = LinearSRGBColorSpace;
 
-  // Apply renderer settings
-  renderer.setRenderTarget(renderTarget);
-  renderer.setScissorTest(true);
-  renderer.setPixelRatio(1);
+  // Configure occlusion/roughness/metalness texture (optional attachment)
+  if (layout.orm >= 0) {
+    renderTarget.textures[layout.orm].minFilter = LinearFilter;
+    renderTarget.textures[layout.orm].magFilter = LinearFilter;
+    renderTarget.textures[layout.orm].type = UnsignedByteType;
+    renderTarget.textures[layout.orm].colorSpace = LinearSRGBColorSpace;
+  }
+
+  // Configure emissive texture (optional attachment, half float to keep HDR intensities)
+  if (layout.emissive >= 0) {
+    renderTarget.textures[layout.emissive].minFilter = LinearFilter;
+    renderTarget.textures[layout.emissive].magFilter = LinearFilter;
+    renderTarget.textures[layout.emissive].type = HalfFloatType;
+    renderTarget.textures[layout.emissive].colorSpace = LinearSRGBColorSpace;
+  }
+
+  return renderTarget;
+}
+
+/**
+ * Sets up the renderer for atlas generation and returns the state for restoration.
+ * Viewport and scissor are set on the atlas render target, so the renderer's own are left untouched.
+ */
+function setupAtlasRenderer(renderer: AtlasRenderer): AtlasRendererState {
+  const oldRenderTarget = renderer.getRenderTarget();
+  const oldClearAlpha = renderer.getClearAlpha();
+  const oldAutoClear = renderer.autoClear;
+
   renderer.setClearAlpha(0);
 
-  return { renderTarget, oldPixelRatio, oldScissorTest, oldClearAlpha };
+  // WebGL clears the scissored cell of each view, WebGPU would clear the whole atlas
+  if (isNodeRenderer(renderer)) renderer.autoClear = false;
+
+  return { oldRenderTarget, oldClearAlpha, oldAutoClear };
 }
 
 /**
  * Restores the renderer to its previous state after atlas generation.
  */
-function restoreAtlasRenderer(renderer: WebGLRenderer, state: AtlasRendererState): void {
-  const { oldPixelRatio, oldScissorTest, oldClearAlpha } = state;
-  const { oldScissor, oldViewport } = ATLAS_RESOURCES;
-  
-  renderer.setRenderTarget(null);
-  renderer.setScissorTest(oldScissorTest);
-  renderer.setViewport(oldViewport.x, oldViewport.y, oldViewport.z, oldViewport.w);
-  renderer.setScissor(oldScissor.x, oldScissor.y, oldScissor.z, oldScissor.w);
-  renderer.setPixelRatio(oldPixelRatio);
-  renderer.setClearAlpha(oldClearAlpha);
+function restoreAtlasRenderer(renderer: AtlasRenderer, state: AtlasRendererState): void {
+  const context = renderer as AtlasRenderContext;
+
+  context.setRenderTarget(state.oldRenderTarget);
+  context.setClearAlpha(state.oldClearAlpha);
+  renderer.autoClear = state.oldAutoClear;
 }
 
+/** Creates the atlas material replacing one target material */
+type AtlasMaterialFactory = (source: Material) => Material;
+
 /**
- * Overrides materials on all meshes in the target object for atlas rendering.
+ * Creates atlas materials for all meshes in the target object.
  */
-function overrideTargetMaterials(target: Object3D): void {
+function createTargetMaterialOverrides(target: Object3D, createMaterial: AtlasMaterialFactory): TargetMaterialOverride[] {
+  const overrides: TargetMaterialOverride[] = [];
+
   target.traverse((object) => {
     const mesh = object as Mesh;
     if (mesh.material) {
-      mesh.userData[ATLAS_RESOURCES.MATERIAL_KEY] = mesh.material;
-      mesh.material = Array.isArray(mesh.material) 
-        ? mesh.material.map(createAtlasMaterial)
-        : createAtlasMaterial(mesh.material);
+      overrides.push({
+        mesh,
+        original: mesh.material,
+        atlas: Array.isArray(mesh.material) 
+          ? mesh.material.map(createMaterial)
+          : createMaterial(mesh.material)
+      });
     }
   });
+
+  return overrides;
 }
 
 /**
- * Restores original materials on all meshes in the target object.
+ * Puts the atlas materials on the target meshes, or the original materials back.
  */
-function restoreTargetMaterials(target: Object3D): void {
-  target.traverse((object) => {
-    const mesh = object as Mesh;
-    const originalMaterial = mesh.userData[ATLAS_RESOURCES.MATERIAL_KEY];
-    if (originalMaterial) {
-      mesh.material = originalMaterial;
-      delete mesh.userData[ATLAS_RESOURCES.MATERIAL_KEY];
-    }
-  });
+function swapTargetMaterials(overrides: TargetMaterialOverride[], useAtlasMaterials: boolean): void {
+  for (const { mesh, original, atlas } of overrides) {
+    mesh.material = useAtlasMaterials ? atlas : original;
+  }
 }
 
 /**
  * Creates a shader material for atlas rendering from an existing material.
  */
-function createAtlasMaterial(sourceMaterial: Material): ShaderMaterial {
+function createAtlasMaterial(
+  sourceMaterial: Material,
+  layout: AtlasAttachmentLayout,
+  targetNormalMatrix: IUniform<Matrix3>
+): ShaderMaterial {
   const source = sourceMaterial as any;
   
   // Extract diffuse map from various material types
@@ -388,14 +1261,27 @@ function createAtlasMaterial(sourceMaterial: Material): ShaderMaterial {
   const uniforms: Record<string, IUniform> = {
     map: { value: diffuseMap },
     diffuse: { value: diffuseColor },
-    alphaTest: { value: alphaTest }
+    alphaTest: { value: alphaTest },
+    targetNormalMatrix
   };
 
-  const defines: Record<string, boolean> = {};
+  const defines: Record<string, boolean | number> = {};
   if (diffuseMap) {
     defines.HAS_MAP = true;
   }
 
+  if (layout.packedNormalDepth) {
+    defines.PACK_NORMAL_DEPTH = true;
+  }
+
+  if (layout.orm >= 0) {
+    setupOrmOutput(source, uniforms, defines, layout.orm);
+  }
+
+  if (layout.emissive >= 0) {
+    setupEmissiveOutput(source, uniforms, defines, layout.emissive);
+  }
+
   return new ShaderMaterial({
     uniforms,
     vertexShader: ATLAS_VERTEX_SHADER,
@@ -409,8 +1295,9 @@ function createAtlasMaterial(sourceMaterial: Material): ShaderMaterial {
 
 /**
  * Extracts diffuse color from various material types.
+ * @internal
  */
-function extractDiffuseColor(material: any): Vector3 {
+export function extractDiffuseColor(material: any): Vector3 {
   if (material.color) {
     return new Vector3(material.color.r, material.color.g, material.color.b);
   } else if (material.diffuse) {
@@ -420,4 +1307,52 @@ function extractDiffuseColor(material: any): Vector3 {
     return new Vector3(r, g, b);
   }
   return new Vector3(1, 1, 1); // Default white
-}
\ No newline at end of file
+}
+
+/**
+ * Configures the occlusion/roughness/metalness output of an atlas material.
+ * Materials without PBR properties bake as fully rough, non-metallic and unoccluded.
+ */
+function setupOrmOutput(
+  material: any,
+  uniforms: Record<string, IUniform>,
+  defines: Record<string, boolean | number>,
+  location: number
+): void {
+  uniforms.roughness = { value: material.roughness ?? 1 };
+  uniforms.metalness = { value: material.metalness ?? 0 };
+  uniforms.aoMapIntensity = { value: material.aoMapIntensity ?? 1 };
+  uniforms.roughnessMap = { value: material.roughnessMap ?? null };
+  uniforms.metalnessMap = { value: material.metalnessMap ?? null };
+  uniforms.aoMap = { value: material.aoMap ?? null };
+
+  defines.USE_ORM_OUTPUT = true;
+  defines.ORM_LOCATION = location;
+  if (material.roughnessMap) defines.HAS_ROUGHNESS_MAP = true;
+  if (material.metalnessMap) defines.HAS_METALNESS_MAP = true;
+  if (material.aoMap) defines.HAS_AO_MAP = true;
+}
+
+/**
+ * Configures the emissive output of an atlas material.
+ * The baked radiance includes the emissive intensity; non-emissive materials bake as black.
+ */
+function setupEmissiveOutput(
+  material: any,
+  uniforms: Record<string, IUniform>,
+  defines: Record<string, boolean | number>,
+  location: number
+): void {
+  const emissive = new Vector3();
+  if (material.emissive) {
+    const intensity = material.emissiveIntensity ?? 1;
+    emissive.set(material.emissive.r, material.emissive.g, material.emissive.b).multiplyScalar(intensity);
+  }
+
+  uniforms.emissive = { value: emissive };
+  uniforms.emissiveMap = { value: material.emissiveMap ?? null };
+
+  defines.USE_EMISSIVE_OUTPUT = true;
+  defines.EMISSIVE_LOCATION = location;
+  if (material.emissiveMap) defines.HAS_EMISSIVE_MAP = true;
+}
@@ -0,0 +1,46 @@
+/**
+ * Sprite-aware mip reduction of impostor atlases
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { generateSpriteMipmaps, MipLevel, reduceColor, reduceNormalDepth } from './atlas-mipmaps.js';
+
+/**
+ * Builds a 2x2 level, one sprite, from RGBA texels.
+ */
+function createLevel(texels: number[][]): MipLevel {
+  return { width: 2, height: 2, data: new Float32Array(texels.flat()) };
+}
+
+describe('reduceNormalDepth', () => {
+  it('averages depth over covered texels only', () => {
+    // Two silhouette texels next to two cleared background texels
+    const normalDepth = createLevel([[0, 0, 1, 0.6], [0, 0, 1, 0.4], [0, 0, 1, 0], [0, 0, 1, 0]]);
+    const albedo = createLevel([[1, 1, 1, 1], [1, 1, 1, 1], [0, 0, 0, 0], [0, 0, 0, 0]]);
+
+    const [, level] = generateSpriteMipmaps(normalDepth, 1, reduceNormalDepth, generateSpriteMipmaps(albedo, 1));
+
+    expect(level.data[3]).toBeCloseTo(0.5);
+    expect(Array.from(level.data.slice(0, 3))).toEqual([0, 0, 1]);
+  });
+
+  it('falls back to a plain average when no texel is covered', () => {
+    const normalDepth = createLevel([[1, 0, 0, 0.8], [1, 0, 0, 0], [1, 0, 0, 0], [1, 0, 0, 0]]);
+    const albedo = createLevel([[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]);
+
+    const [, level] = generateSpriteMipmaps(normalDepth, 1, reduceNormalDepth, generateSpriteMipmaps(albedo, 1));
+
+    expect(level.data[3]).toBeCloseTo(0.2);
+  });
+});
+
+describe('reduceColor', () => {
+  it('averages color over covered texels and alpha over all texels', () => {
+    const albedo = createLevel([[1, 0.5, 0, 1], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]);
+
+    const [, level] = generateSpriteMipmaps(albedo, 1, reduceColor);
+
+    expect(Array.from(level.data)).toEqual([1, 0.5, 0, 0.25]);
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Sprite-aware mipmap chains for impostor atlases
+ * Downsamples each sprite on its own, so distant impostors never mix neighbouring frames
+ */
+
+import {
+  DataTexture,
+  DataUtils,
+  HalfFloatType,
+  LinearFilter,
+  LinearMipmapLinearFilter,
+  MagnificationTextureFilter,
+  MinificationTextureFilter,
+  NearestFilter,
+  NearestMipmapNearestFilter,
+  RGBAFormat,
+  SRGBColorSpace,
+  Texture,
+  UnsignedByteType,
+  WebGLRenderer
+} from 'three';
+
+import { DEFAULT_CONFIG, ImpostorAtlasTextures, NormalDepthLayout } from './octahedral-utils.js';
+import { flipRows, linearToSRGB, readTextureFloatPixels } from './texture-export.js';
+
+// ============================================================================
+// MIPMAP TYPES
+// ============================================================================
+
+/**
+ * Options for sprite-aware mipmap generation.
+ */
+export interface SpriteMipmapOptions {
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Alpha test threshold whose coverage every level preserves (default: DEFAULT_CONFIG.ALPHA_CLAMP) */
+  alphaThreshold?: number;
+  /** Whether to rescale the alpha of each sprite so silhouettes keep their coverage at distance (default: true) */
+  preserveCoverage?: boolean;
+}
+
+/**
+ * One RGBA floating point mip level, rows ordered bottom to top as on the GPU.
+ */
+export interface MipLevel {
+  /** Level width in pixels */
+  width: number;
+  /** Level height in pixels */
+  height: number;
+  /** Interleaved RGBA samples */
+  data: Float32Array;
+}
+
+/**
+ * Combines up to four texels of a level into one texel of the next level.
+ */
+export type MipReducer = (
+  source: Float32Array,
+  offsets: Int32Array,
+  weights: Float32Array,
+  count: number,
+  output: Float32Array,
+  outputOffset: number
+) => void;
+
+// ============================================================================
+// ATLAS MIPMAPS
+// ============================================================================
+
+/**
+ * Returns how many mip levels an atlas can have before its sprites shrink below one texel.
+ *
+ * @param textureSize - Atlas resolution in pixels
+ * @param spritesPerSide - Number of sprites per atlas side
+ * @returns Number of levels, including the base level
+ */
+export function getSpriteMipLevelCount(textureSize: number, spritesPerSide: number): number {
+  return Math.max(1, Math.floor(Math.log2(textureSize / spritesPerSide)) + 1);
+}
+
+/**
+ * Creates mipmapped copies of the atlas textures, each sprite downsampled independently.
+ * Colors are averaged over covered texels only, normals are averaged and renormalized,
+ * and the alpha of every sprite is rescaled so the alpha test keeps the base level coverage.
+ * The chain stops at one texel per sprite, so no level ever blends two frames.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param atlas - Baked or loaded atlas textures
+ * @param options - Sprite layout and coverage settings
+ * @returns Atlas textures with mipmaps, to use with the trilinear material option
+ */
+export function createMipmappedAtlas(
+  renderer: WebGLRenderer,
+  atlas: ImpostorAtlasTextures,
+  options: SpriteMipmapOptions
+): ImpostorAtlasTextures {
+  const { albedo, normalDepth, orm, emissive } = atlas;
+  const layout = atlas.normalDepthLayout ?? DEFAULT_CONFIG.NORMAL_DEPTH_LAYOUT;
+  const { spritesPerSide } = options;
+
+  for (const texture of [albedo, normalDepth, orm, emissive]) {
+    if ((texture as any)?.isCompressedTexture) {
+      throw new Error('createMipmappedAtlas: compressed textures are not supported, generate mipmaps before compressing');
+    }
+  }
+
+  const albedoLevels = generateSpriteMipmaps(readLevel(renderer, albedo), spritesPerSide, reduceColor);
+
+  // Other attachments are weighted by the albedo coverage, before it gets rescaled
+  const createLevels = (texture: Texture, reducer: MipReducer, decode?: (level: MipLevel) => void) => {
+    const base = readLevel(renderer, texture);
+    decode?.(base);
+    return generateSpriteMipmaps(base, spritesPerSide, reducer, albedoLevels);
+  };
+
+  const normalDepthLevels = createLevels(normalDepth, reduceNormalDepth, (level) => decodeNormalDepth(level, layout));
+  normalDepthLevels.forEach((level) => encodeNormalDepth(level, layout));
+
+  const ormLevels = orm && createLevels(orm, reduceColor);
+  const emissiveLevels = emissive && createLevels(emissive, reduceColor);
+
+  if (options.preserveCoverage ?? true) {
+    preserveSpriteCoverage(albedoLevels, spritesPerSide, options.alphaThreshold ?? DEFAULT_CONFIG.ALPHA_CLAMP);
+  }
+
+  return {
+    ...atlas,
+    albedo: createMipmappedTexture(albedoLevels, albedo, LinearMipmapLinearFilter, LinearFilter),
+    normalDepth: createMipmappedTexture(normalDepthLevels, normalDepth, NearestMipmapNearestFilter, NearestFilter),
+    ...(ormLevels && { orm: createMipmappedTexture(ormLevels, orm!, LinearMipmapLinearFilter, LinearFilter) }),
+    ...(emissiveLevels && { emissive: createMipmappedTexture(emissiveLevels, emissive!, LinearMipmapLinearFilter, LinearFilter) })
+  };
+}
+
+/**
+ * Builds a sprite-aware mip chain from a base level.
+ * Each texel of a level only gathers the texels of the previous level that belong to its own sprite.
+ *
+ * @param base - Base level, RGBA floating point
+ * @param spritesPerSide - Number of sprites per atlas side
+ * @param reducer - How texels are combined
+ * @param weightLevels - Levels whose alpha weights each texel (default: the alpha of the levels themselves)
+ * @returns All levels, starting with the base level
+ */
+export function generateSpriteMipmaps(
+  base: MipLevel,
+  spritesPerSide: number,
+  reducer: MipReducer = reduceColor,
+  weightLevels?: MipLevel[]
+): MipLevel[] {
+  const levelCount = getSpriteMipLevelCount(base.width, spritesPerSide);
+  const spriteWidth = base.width / spritesPerSide;
+  const spriteHeight = base.height / spritesPerSide;
+  const levels = [base];
+
+  const offsets = new Int32Array(4);
+  const weights = new Float32Array(4);
+
+  for (let level = 1; level < levelCount; level++) {
+    const source = levels[level - 1];
+    const weightSource = (weightLevels?.[level - 1] ?? source).data;
+    const width = Math.max(1, source.width >> 1);
+    const height = Math.max(1, source.height >> 1);
+    const output = new Float32Array(width * height * 4);
+
+    const sourceSpritesX = getSpriteIndices(source.width, level - 1, spriteWidth, spritesPerSide);
+    const sourceSpritesY = getSpriteIndices(source.height, level - 1, spriteHeight, spritesPerSide);
+    const spritesX = getSpriteIndices(width, level, spriteWidth, spritesPerSide);
+    const spritesY = getSpriteIndices(height, level, spriteHeight, spritesPerSide);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let count = 0;
+
+        for (let sy = y * 2; sy < Math.min(y * 2 + 2, source.height); sy++) {
+          if (sourceSpritesY[sy] !== spritesY[y]) continue;
+
+          for (let sx = x * 2; sx < Math.min(x * 2 + 2, source.width); sx++) {
+            if (sourceSpritesX[sx] !== spritesX[x]) continue;
+
+            const offset = (sy * source.width + sx) * 4;
+            offsets[count] = offset;
+            weights[count] = weightSource[offset + 3];
+            count++;
+          }
+        }
+
+        reducer(source.data, offsets, weights, count, output, (y * width + x) * 4);
+      }
+    }
+
+    levels.push({ width, height, data: output });
+  }
+
+  return levels;
+}
+
+/**
+ * Rescales the alpha of every sprite at every level, so the fraction of texels passing the alpha test
+ * matches the base level (coverage-preserving mipmaps, as with alpha-to-coverage).
+ * Without it, thin geometry such as foliage fades away in the lower levels.
+ *
+ * @param levels - Mip chain to update in place
+ * @param spritesPerSide - Number of sprites per atlas side
+ * @param alphaThreshold - Alpha test threshold of the material
+ */
+export function preserveSpriteCoverage(levels: MipLevel[], spritesPerSide: number, alphaThreshold: number): void {
+  const spriteWidth = levels[0].width / spritesPerSide;
+  const spriteHeight = levels[0].height / spritesPerSide;
+  const targetCoverage = computeSpriteCoverage(levels[0], spritesPerSide, 0, spriteWidth, spriteHeight, alphaThreshold);
+
+  for (let level = 1; level < levels.length; level++) {
+    const { width, height, data } = levels[level];
+    const spritesX = getSpriteIndices(width, level, spriteWidth, spritesPerSide);
+    const spritesY = getSpriteIndices(height, level, spriteHeight, spritesPerSide);
+    const alphas = collectSpriteAlphas(levels[level], spritesX, spritesY, spritesPerSide);
+    const scales = new Float32Array(spritesPerSide * spritesPerSide);
+
+    alphas.forEach((values, sprite) => {
+      scales[sprite] = computeCoverageScale(values, targetCoverage[sprite], alphaThreshold);
+    });
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * 4 + 3;
+        data[offset] = Math.min(1, data[offset] * scales[spritesY[y] * spritesPerSide + spritesX[x]]);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// REDUCERS
+// ============================================================================
+
+/**
+ * Averages RGB over covered texels and alpha over all texels.
+ * Fully transparent footprints fall back to a plain average, which keeps dilated colors.
+ */
+export const reduceColor: MipReducer = (source, offsets, weights, count, output, outputOffset) => {
+  averageChannels(source, offsets, weights, count, output, outputOffset, 3);
+};
+
+/**
+ * Averages decoded normals weighted by coverage and renormalizes them; depth is averaged over covered texels,
+ * so silhouettes keep their depth instead of blending with the cleared background.
+ */
+export const reduceNormalDepth: MipReducer = (source, offsets, weights, count, output, outputOffset) => {
+  averageChannels(source, offsets, weights, count, output, outputOffset, 4);
+
+  const x = output[outputOffset];
+  const y = output[outputOffset + 1];
+  const z = output[outputOffset + 2];
+  const length = Math.hypot(x, y, z);
+
+  if (length > 0) {
+    output[outputOffset] = x / length;
+    output[outputOffset + 1] = y / length;
+    output[outputOffset + 2] = z / length;
+  }
+};
+
+/**
+ * Averages the first channels weighted by coverage and the remaining channels over all texels.
+ * Fully transparent footprints fall back to a plain average for every channel.
+ */
+function averageChannels(
+  source: Float32Array,
+  offsets: Int32Array,
+  weights: Float32Array,
+  count: number,
+  output: Float32Array,
+  outputOffset: number,
+  weightedChannels: number
+): void {
+  let totalWeight = 0;
+  for (let i = 0; i < count; i++) totalWeight += weights[i];
+
+  for (let channel = 0; channel < 4; channel++) {
+    const weighted = channel < weightedChannels && totalWeight > 0;
+    let sum = 0;
+    for (let i = 0; i < count; i++) {
+      sum += source[offsets[i] + channel] * (weighted ? weights[i] : 1);
+    }
+    output[outputOffset + channel] = sum / (weighted ? totalWeight : Math.max(count, 1));
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads a texture back as a floating point level, rows ordered bottom to top.
+ */
+function readLevel(renderer: WebGLRenderer, texture: Texture): MipLevel {
+  const { width, height, data } = readTextureFloatPixels(renderer, texture);
+  return { width, height, data: flipRows(data, width, height) };
+}
+
+/**
+ * Returns the sprite of every texel along one axis of a level, from the position of the texel center.
+ */
+function getSpriteIndices(length: number, level: number, spriteSize: number, spritesPerSide: number): Int32Array {
+  const indices = new Int32Array(length);
+  const texelSize = 2 ** level;
+
+  for (let i = 0; i < length; i++) {
+    indices[i] = Math.min(spritesPerSide - 1, Math.floor(((i + 0.5) * texelSize) / spriteSize));
+  }
+
+  return indices;
+}
+
+/**
+ * Returns the fraction of texels of each sprite that pass the alpha test.
+ */
+function computeSpriteCoverage(
+  level: MipLevel,
+  spritesPerSide: number,
+  levelIndex: number,
+  spriteWidth: number,
+  spriteHeight: number,
+  alphaThreshold: number
+): Float32Array {
+  const spritesX = getSpriteIndices(level.width, levelIndex, spriteWidth, spritesPerSide);
+  const spritesY = getSpriteIndices(level.height, levelIndex, spriteHeight, spritesPerSide);
+  const alphas = collectSpriteAlphas(level, spritesX, spritesY, spritesPerSide);
+
+  return Float32Array.from(alphas, (values) => {
+    let covered = 0;
+    for (const alpha of values) if (alpha > alphaThreshold) covered++;
+    return values.length > 0 ? covered / values.length : 0;
+  });
+}
+
+/**
+ * Groups the alpha values of a level by sprite.
+ */
+function collectSpriteAlphas(level: MipLevel, spritesX: Int32Array, spritesY: Int32Array, spritesPerSide: number): Float32Array[] {
+  const { width, height, data } = level;
+  const counts = new Int32Array(spritesPerSide * spritesPerSide);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) counts[spritesY[y] * spritesPerSide + spritesX[x]]++;
+  }
+
+  const alphas = Array.from(counts, (count) => new Float32Array(count));
+  counts.fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sprite = spritesY[y] * spritesPerSide + spritesX[x];
+      alphas[sprite][counts[sprite]++] = data[(y * width + x) * 4 + 3];
+    }
+  }
+
+  return alphas;
+}
+
+/**
+ * Finds the alpha scale that lets the target fraction of texels pass the alpha test.
+ */
+function computeCoverageScale(alphas: Float32Array, targetCoverage: number, alphaThreshold: number): number {
+  const sorted = Float32Array.from(alphas).sort().reverse();
+  const passing = Math.round(targetCoverage * sorted.length);
+
+  if (passing === 0 || sorted[0] === 0) return 1;
+
+  // The weakest texel that must pass, ignoring transparent texels that no scale can bring back
+  let cutoff = sorted[Math.min(passing, sorted.length) - 1];
+  if (cutoff === 0) cutoff = sorted.reduce((min, alpha) => (alpha > 0 ? Math.min(min, alpha) : min), 1);
+
+  // Slightly above the exact ratio, so the cutoff texel lands strictly above the threshold after quantization
+  return (alphaThreshold / cutoff) * 1.01 + 1e-6;
+}
+
+/**
+ * Converts decoded RGBA normal-depth values to unit normals (RGB) and [0, 1] depth (A).
+ */
+function decodeNormalDepth(level: MipLevel, layout: NormalDepthLayout): void {
+  if (layout === NormalDepthLayout.HALF_FLOAT) return;
+
+  const { data } = level;
+  const normal = new Float32Array(3);
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    decodeOctahedralNormal(data[offset] * 2 - 1, data[offset + 1] * 2 - 1, normal);
+
+    const depth = layout === NormalDepthLayout.PACKED
+      ? (Math.round(data[offset + 2] * 255) * 256 + Math.round(data[offset + 3] * 255)) / 65535
+      : data[offset + 2];
+
+    data.set(normal, offset);
+    data[offset + 3] = depth;
+  }
+}
+
+/**
+ * Converts unit normals and depth back to the storage layout of the normal-depth texture.
+ */
+function encodeNormalDepth(level: MipLevel, layout: NormalDepthLayout): void {
+  if (layout === NormalDepthLayout.HALF_FLOAT) return;
+
+  const { data } = level;
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    let x = data[offset];
+    let y = data[offset + 1];
+    const z = data[offset + 2];
+    const depth = data[offset + 3];
+    const sum = Math.abs(x) + Math.abs(y) + Math.abs(z) || 1;
+
+    x /= sum;
+    y /= sum;
+    if (z < 0) {
+      [x, y] = [(1 - Math.abs(y)) * (x >= 0 ? 1 : -1), (1 - Math.abs(x)) * (y >= 0 ? 1 : -1)];
+    }
+
+    data[offset] = x * 0.5 + 0.5;
+    data[offset + 1] = y * 0.5 + 0.5;
+
+    if (layout === NormalDepthLayout.PACKED) {
+      const value = Math.round(Math.min(Math.max(depth, 0), 1) * 65535);
+      data[offset + 2] = Math.floor(value / 256) / 255;
+      data[offset + 3] = (value % 256) / 255;
+    } else {
+      data[offset + 2] = depth;
+      data[offset + 3] = 1;
+    }
+  }
+}
+
+/**
+ * Decodes an octahedral normal from [-1, 1] coordinates.
+ */
+function decodeOctahedralNormal(u: number, v: number, output: Float32Array): void {
+  let x = u;
+  let y = v;
+  const z = 1 - Math.abs(u) - Math.abs(v);
+
+  if (z < 0) {
+    x = (1 - Math.abs(v)) * (u >= 0 ? 1 : -1);
+    y = (1 - Math.abs(u)) * (v >= 0 ? 1 : -1);
+  }
+
+  const length = Math.hypot(x, y, z) || 1;
+  output[0] = x / length;
+  output[1] = y / length;
+  output[2] = z / length;
+}
+
+/**
+ * Uploads a mip chain into a texture with the same type and color space as the source.
+ */
+function createMipmappedTexture(
+  levels: MipLevel[],
+  source: Texture,
+  minFilter: MinificationTextureFilter,
+  magFilter: MagnificationTextureFilter
+): DataTexture {
+  const is8Bit = source.type === UnsignedByteType;
+  const isSRGB = source.colorSpace === SRGBColorSpace;
+
+  const mipmaps = levels.map(({ width, height, data }) => {
+    const output = is8Bit ? new Uint8Array(data.length) : new Uint16Array(data.length);
+
+    for (let i = 0; i < data.length; i++) {
+      const value = isSRGB && i % 4 !== 3 ? linearToSRGB(data[i]) : data[i];
+      output[i] = is8Bit
+        ? Math.round(Math.min(Math.max(value, 0), 1) * 255)
+        : DataUtils.toHalfFloat(value);
+    }
+
+    return { data: output, width, height };
+  });
+
+  const { width, height, data } = mipmaps[0];
+  const texture = new DataTexture(data, width, height, RGBAFormat, is8Bit ? UnsignedByteType : HalfFloatType);
+
+  texture.mipmaps = mipmaps as any;
+  texture.colorSpace = source.colorSpace;
+  texture.minFilter = minFilter;
+  texture.magFilter = magFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+
+  return texture;
+}
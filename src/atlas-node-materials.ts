@@ -0,0 +1,156 @@
+/**
+ * Node materials baking atlases on WebGPURenderer
+ * Loaded by atlas generation only when a WebGPURenderer bakes, so WebGL bakes don't pull in the node material stack
+ */
+
+import { DoubleSide, IUniform, Material, Matrix3, Vector3 } from 'three';
+import { MeshBasicNodeMaterial, Node } from 'three/webgpu';
+import {
+  abs,
+  cameraFar,
+  cameraNear,
+  clamp,
+  dot,
+  faceDirection,
+  float,
+  floor,
+  modelNormalMatrix,
+  mrt,
+  normalize,
+  normalLocal,
+  output,
+  positionView,
+  select,
+  ShaderNodeObject,
+  texture,
+  uniform,
+  uv,
+  varying,
+  vec2,
+  vec3,
+  vec4,
+  viewZToOrthographicDepth,
+  viewZToPerspectiveDepth
+} from 'three/tsl';
+
+import { ATLAS_ATTACHMENT_NAMES, AtlasAttachmentLayout, extractDiffuseColor } from './atlas-generation.js';
+import { CameraType, DEFAULT_CONFIG } from './octahedral-utils.js';
+
+// ============================================================================
+// ATLAS NODE MATERIALS
+// ============================================================================
+
+/**
+ * Creates a node material for atlas rendering from an existing material, for WebGPURenderer.
+ * Mirrors createAtlasMaterial, with the attachments written through MRT outputs.
+ */
+export function createAtlasNodeMaterial(
+  sourceMaterial: Material,
+  layout: AtlasAttachmentLayout,
+  targetNormalMatrix: IUniform<Matrix3>,
+  cameraType: CameraType
+): MeshBasicNodeMaterial {
+  const source = sourceMaterial as any;
+  const diffuseMap = source.map || source.baseColorTexture || null;
+  const diffuseColor = vec3(extractDiffuseColor(source));
+
+  const material = new MeshBasicNodeMaterial();
+  material.side = sourceMaterial.side;
+  material.transparent = sourceMaterial.transparent;
+  material.alphaTest = source.alphaTest ?? DEFAULT_CONFIG.ALPHA_TEST;
+
+  if (diffuseMap) {
+    const texColor = texture(diffuseMap, uv());
+    material.colorNode = vec4(diffuseColor.mul(texColor.rgb), texColor.a);
+  } else {
+    material.colorNode = vec4(diffuseColor, 1);
+  }
+
+  // Normals in the local frame of the target
+  let normal: ShaderNodeObject<Node> = normalize(varying(uniform(targetNormalMatrix.value).mul(modelNormalMatrix.mul(normalLocal))));
+  if (sourceMaterial.side === DoubleSide) {
+    normal = normal.mul(faceDirection);
+  }
+
+  // Same [0, 1] depth as gl_FragCoord.z, whatever the clip space convention of the backend
+  const fragCoordZ = float(cameraType === CameraType.PERSPECTIVE
+    ? viewZToPerspectiveDepth(positionView.z, cameraNear, cameraFar)
+    : viewZToOrthographicDepth(positionView.z, cameraNear, cameraFar));
+
+  const outputs: Record<string, Node> = {
+    [ATLAS_ATTACHMENT_NAMES.albedo]: output,
+    [ATLAS_ATTACHMENT_NAMES.normalDepth]: layout.packedNormalDepth
+      ? vec4(encodeOctahedralNormalNode(normal), packDepth16Node(fragCoordZ.oneMinus()))
+      : vec4(normal, fragCoordZ.oneMinus())
+  };
+
+  if (layout.orm >= 0) {
+    outputs[ATLAS_ATTACHMENT_NAMES.orm] = createOrmNode(source);
+  }
+
+  if (layout.emissive >= 0) {
+    outputs[ATLAS_ATTACHMENT_NAMES.emissive] = createEmissiveNode(source);
+  }
+
+  material.mrtNode = mrt(outputs);
+
+  return material;
+}
+
+/**
+ * TSL version of encodeOctahedralNormal (PACKED layout).
+ */
+function encodeOctahedralNormalNode(normal: ShaderNodeObject<Node>): ShaderNodeObject<Node> {
+  const n = normal.div(dot(abs(normal), vec3(1))).toVar();
+  const signs = vec2(select(n.x.greaterThanEqual(0), 1, -1), select(n.y.greaterThanEqual(0), 1, -1));
+  const encoded = select(n.z.greaterThanEqual(0), n.xy, vec2(abs(n.y).oneMinus(), abs(n.x).oneMinus()).mul(signs));
+  return encoded.mul(0.5).add(0.5);
+}
+
+/**
+ * TSL version of packDepth16 (PACKED layout).
+ */
+function packDepth16Node(depth: ShaderNodeObject<Node>): ShaderNodeObject<Node> {
+  const value = floor(clamp(depth, 0, 1).mul(65535).add(0.5)).toVar();
+  const high = floor(value.div(256));
+  return vec2(high, value.sub(high.mul(256))).div(255);
+}
+
+/**
+ * Builds the occlusion/roughness/metalness output of a node atlas material, as setupOrmOutput does.
+ */
+function createOrmNode(material: any): ShaderNodeObject<Node> {
+  let occlusionFactor: ShaderNodeObject<Node> = float(1);
+  let roughnessFactor: ShaderNodeObject<Node> = float(material.roughness ?? 1);
+  let metalnessFactor: ShaderNodeObject<Node> = float(material.metalness ?? 0);
+
+  if (material.aoMap) {
+    occlusionFactor = texture(material.aoMap, uv()).r.sub(1).mul(material.aoMapIntensity ?? 1).add(1);
+  }
+  if (material.roughnessMap) {
+    roughnessFactor = roughnessFactor.mul(texture(material.roughnessMap, uv()).g);
+  }
+  if (material.metalnessMap) {
+    metalnessFactor = metalnessFactor.mul(texture(material.metalnessMap, uv()).b);
+  }
+
+  return vec4(occlusionFactor, roughnessFactor, metalnessFactor, 1);
+}
+
+/**
+ * Builds the emissive output of a node atlas material, as setupEmissiveOutput does.
+ */
+function createEmissiveNode(material: any): ShaderNodeObject<Node> {
+  const emissive = new Vector3();
+  if (material.emissive) {
+    const intensity = material.emissiveIntensity ?? 1;
+    emissive.set(material.emissive.r, material.emissive.g, material.emissive.b).multiplyScalar(intensity);
+  }
+
+  let emissiveRadiance: ShaderNodeObject<Node> = vec3(emissive);
+  if (material.emissiveMap) {
+    emissiveRadiance = emissiveRadiance.mul(texture(material.emissiveMap, uv()).rgb);
+  }
+
+  return vec4(emissiveRadiance, 1);
+}
@@ -8,11 +8,14 @@ import {
   WebGLRenderer, 
   Texture, 
   Material,
+  Mesh,
+  Object3D,
   Vector2,
   Vector3
 } from 'three';
-import { OctahedralImpostor } from './impostor-rendering.js';
-import { octaDirToGrid, hemiOctaDirToGrid, OctahedralMode } from './octahedral-utils.js';
+import { OctahedralImpostor, selectImpostorFrames } from './impostor-rendering.js';
+import { OctahedralMode } from './octahedral-utils.js';
+import { TexturePixels } from './texture-export.js';
 
 export interface AtlasVisualizationConfig {
   /** Canvas size for the preview */
@@ -27,6 +30,18 @@ export interface AtlasVisualizationConfig {
   updateFrequency: number;
 }
 
+/**
+ * Atlas shown for impostors not drawn by OctahedralImpostor (e.g. with OctahedralImpostorNodeMaterial)
+ */
+export interface AtlasVisualizationSource {
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Octahedral mapping mode the atlas was baked with */
+  octahedralMode: OctahedralMode;
+  /** Albedo atlas, as an image or as pixels read back with rows top to bottom (grid only when omitted) */
+  albedo?: CanvasImageSource | TexturePixels;
+}
+
 export const DEFAULT_VISUALIZATION_CONFIG: AtlasVisualizationConfig = {
   canvasSize: 150, // Will be calculated responsively for snug fit
   showGrid: true,
@@ -39,11 +54,11 @@ export class AtlasVisualization {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private config: AtlasVisualizationConfig;
-  private impostor: OctahedralImpostor<any> | null = null;
+  private impostor: Object3D | null = null;
   private camera: THREE.Camera | null = null;
   private lastUpdateTime = 0;
   private atlasTexture: Texture | null = null;
-  private atlasImage: HTMLImageElement | null = null;
+  private atlasImage: CanvasImageSource | null = null;
   private spritesPerSide = 32;
   private octahedralMode = OctahedralMode.HEMISPHERICAL;
   private isInitialized = false;
@@ -471,6 +486,44 @@ export class AtlasVisualization {
     }
   }
 
+  /**
+   * Set an impostor drawn without OctahedralImpostor to visualize, with its atlas described explicitly
+   */
+  public setAtlas(target: Object3D | null, camera: THREE.Camera | null, source?: AtlasVisualizationSource): void {
+    this.impostor = source ? target : null;
+    this.camera = camera;
+    this.atlasTexture = null;
+
+    if (!this.impostor || !source) {
+      this.atlasImage = null;
+      this.isInitialized = false;
+      this.clearCanvas();
+      return;
+    }
+
+    this.spritesPerSide = source.spritesPerSide;
+    this.octahedralMode = source.octahedralMode;
+
+    const { albedo } = source;
+    if (!albedo) this.atlasImage = null;
+    else this.atlasImage = 'data' in albedo ? this.createPixelsCanvas(albedo as TexturePixels) : albedo as CanvasImageSource;
+    this.isInitialized = true;
+    this.render();
+  }
+
+  private createPixelsCanvas(pixels: TexturePixels): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+
+    const ctx = canvas.getContext('2d')!;
+    const imageData = ctx.createImageData(pixels.width, pixels.height);
+    imageData.data.set(pixels.data);
+    ctx.putImageData(imageData, 0, 0);
+
+    return canvas;
+  }
+
   private extractImpostorConfig(impostor: OctahedralImpostor<any>): void {
     const material = impostor.material as any;
     const uniforms = material.octahedralImpostorUniforms;
@@ -578,7 +631,7 @@ export class AtlasVisualization {
       }
       // Fall back to calculating from sprites per side
       else if (this.impostor) {
-        const material = this.impostor.material as any;
+        const material = (this.impostor as Mesh).material as any;
         if (material.octahedralImpostorUniforms?.spritesPerSide) {
           // Use the sprites per side to calculate total atlas size
           // This should match the actual atlas generation size
@@ -685,7 +738,7 @@ export class AtlasVisualization {
   private guessRenderTargetSize(): number {
     // Try to get size from current atlas config
     if (this.impostor) {
-      const material = this.impostor.material as any;
+      const material = (this.impostor as Mesh).material as any;
       if (material.octahedralImpostorUniforms?.spritesPerSide) {
         // For now, return the standard atlas size
         // In the future, this could be made more sophisticated
@@ -783,83 +836,14 @@ export class AtlasVisualization {
     if (!this.impostor || !this.camera) return null;
 
     try {
-      // Get camera direction relative to impostor
-      const impostorPos = this.impostor.position;
-      const cameraPos = this.camera.position;
-      
-      // Calculate direction from impostor to camera
-      const direction = new Vector3()
-        .copy(cameraPos)
-        .sub(impostorPos)
-        .normalize();
-
-      // Handle hemispherical mode constraints
-      if (this.octahedralMode === OctahedralMode.HEMISPHERICAL && direction.y < 0) {
-        direction.y = 0;
-        direction.normalize();
-      }
-
-      // Convert to grid coordinates
-      const gridCoords = new Vector2();
-      if (this.octahedralMode === OctahedralMode.HEMISPHERICAL) {
-        hemiOctaDirToGrid(direction, gridCoords);
-      } else {
-        octaDirToGrid(direction, gridCoords);
-      }
-
-      // Calculate sprite grid position
-      const spritesMinusOne = this.spritesPerSide - 1;
-      const grid = new Vector2(
-        gridCoords.x * spritesMinusOne,
-        gridCoords.y * spritesMinusOne
-      );
-
-      const gridFloor = new Vector2(
-        Math.min(Math.floor(grid.x), spritesMinusOne),
-        Math.min(Math.floor(grid.y), spritesMinusOne)
-      );
-
-      const gridFract = new Vector2(
-        grid.x - gridFloor.x,
-        grid.y - gridFloor.y
-      );
-
-      // Calculate the three sprites and their weights (triplanar blending)
-      const weights = this.computeSpritesWeight(gridFract);
-      
-      const sprite1 = gridFloor.clone();
-      const sprite2 = new Vector2(
-        Math.min(sprite1.x + (weights.w > 0.5 ? 1.0 : 0.0), spritesMinusOne),
-        Math.min(sprite1.y + (weights.w > 0.5 ? 0.0 : 1.0), spritesMinusOne)
-      );
-      const sprite3 = new Vector2(
-        Math.min(sprite1.x + 1.0, spritesMinusOne),
-        Math.min(sprite1.y + 1.0, spritesMinusOne)
-      );
-
-      return {
-        sprite1,
-        sprite2,
-        sprite3,
-        weights: new Vector3(weights.x, weights.y, weights.z),
-        gridFract
-      };
+      // Same frame selection as the impostor shaders
+      return selectImpostorFrames(this.impostor as Mesh, this.camera);
     } catch (error) {
       console.warn('Failed to calculate sampling info:', error);
       return null;
     }
   }
 
-  private computeSpritesWeight(gridFract: Vector2): { x: number; y: number; z: number; w: number } {
-    // This matches the shader logic in impostor-rendering.ts
-    return {
-      x: Math.min(1.0 - gridFract.x, 1.0 - gridFract.y),
-      y: Math.abs(gridFract.x - gridFract.y),
-      z: Math.min(gridFract.x, gridFract.y),
-      w: Math.ceil(gridFract.x - gridFract.y)
-    };
-  }
-
   private drawSamplingIndicators(samplingInfo: SamplingInfo): void {
     const spriteSize = this.canvas.width / this.spritesPerSide;
     
@@ -994,5 +978,4 @@ interface SamplingInfo {
   sprite2: Vector2;
   sprite3: Vector2;
   weights: Vector3;
-  gridFract: Vector2;
 }
@@ -0,0 +1,1068 @@
+/**
+ * Block compression of atlas images
+ * Pure TypeScript BC1/BC3/BC5 encoders producing GPU-ready compressed textures, with error metrics to check artifacts
+ */
+
+import {
+  ColorSpace,
+  CompressedPixelFormat,
+  CompressedTexture,
+  LinearFilter,
+  NearestFilter,
+  NoColorSpace,
+  RED_GREEN_RGTC2_Format,
+  RGBA_S3TC_DXT1_Format,
+  RGBA_S3TC_DXT5_Format,
+  Texture,
+  UnsignedByteType,
+  WebGLRenderer
+} from 'three';
+
+import { DEFAULT_CONFIG, ImpostorAtlasTextures, NormalDepthLayout } from './octahedral-utils.js';
+import { flipRows, readTextureFloatPixels, readTexturePixels } from './texture-export.js';
+
+// ============================================================================
+// COMPRESSION TYPES
+// ============================================================================
+
+/** Supported block compression formats */
+export enum BlockCompressionFormat {
+  /** RGB + 1-bit alpha, 8 bytes per 4x4 block (alpha below the threshold becomes transparent black) */
+  BC1 = 'bc1',
+  /** RGB + interpolated alpha, 16 bytes per 4x4 block */
+  BC3 = 'bc3',
+  /** Two independent channels (RG), 16 bytes per 4x4 block */
+  BC5 = 'bc5'
+}
+
+/** Quality-vs-speed trade-off of the encoders */
+export enum BlockCompressionQuality {
+  /** Bounding box endpoints, single alpha mode */
+  FAST = 'fast',
+  /** Principal axis endpoints, best of both alpha modes */
+  NORMAL = 'normal',
+  /** Principal axis endpoints refined by least squares */
+  HIGH = 'high'
+}
+
+/**
+ * Options shared by the block compression functions.
+ */
+export interface BlockCompressionOptions {
+  /** Encoder quality (default: NORMAL) */
+  quality?: BlockCompressionQuality;
+  /**
+   * Alpha test threshold in [0, 1] (default: DEFAULT_CONFIG.ALPHA_CLAMP).
+   * BC1 stores texels below it as transparent, color endpoints ignore them
+   * and the edge metrics use it to find silhouette blocks.
+   */
+  alphaThreshold?: number;
+}
+
+/**
+ * Uncompressed RGBA 8-bit image passed to the encoders.
+ * Rows are stored in upload order (bottom to top for render target readbacks).
+ */
+export interface BlockCompressionSource {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Interleaved RGBA samples */
+  data: Uint8Array;
+}
+
+/**
+ * Block compressed image, blocks ordered row by row like the source rows.
+ */
+export interface CompressedImage {
+  /** Compression format */
+  format: BlockCompressionFormat;
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Compressed blocks */
+  data: Uint8Array;
+}
+
+/**
+ * Compression error, in 8-bit units over the channels the format stores.
+ * The color of texels discarded by the alpha test is ignored, like the encoders do, since it never shows.
+ */
+export interface BlockCompressionMetrics {
+  /** Root mean square error over all texels */
+  rmse: number;
+  /** Peak signal-to-noise ratio in dB (Infinity when lossless) */
+  psnr: number;
+  /** Largest absolute error of any channel */
+  maxError: number;
+  /** RMSE over the visible texels of blocks crossing the alpha threshold (0 for formats without alpha) */
+  alphaEdgeRmse: number;
+  /** Number of texels whose alpha test result changed (0 for formats without alpha) */
+  coverageErrors: number;
+}
+
+/**
+ * Compressed texture together with the error it introduced.
+ */
+export interface CompressedAtlasTexture {
+  /** GPU-ready compressed texture */
+  texture: CompressedTexture;
+  /** Compression error */
+  metrics: BlockCompressionMetrics;
+}
+
+/** Bytes per 4x4 block of each format */
+const BLOCK_BYTES: Record<BlockCompressionFormat, number> = {
+  [BlockCompressionFormat.BC1]: 8,
+  [BlockCompressionFormat.BC3]: 16,
+  [BlockCompressionFormat.BC5]: 16
+};
+
+/** Three.js texture format of each block compression format */
+const TEXTURE_FORMATS: Record<BlockCompressionFormat, CompressedPixelFormat> = {
+  [BlockCompressionFormat.BC1]: RGBA_S3TC_DXT1_Format,
+  [BlockCompressionFormat.BC3]: RGBA_S3TC_DXT5_Format,
+  [BlockCompressionFormat.BC5]: RED_GREEN_RGTC2_Format
+};
+
+// ============================================================================
+// IMAGE COMPRESSION
+// ============================================================================
+
+/**
+ * Compresses an RGBA image. BC1/BC3 encode RGBA, BC5 encodes the R and G channels.
+ * Sizes that are not a multiple of 4 are padded by repeating the last row and column.
+ *
+ * @param source - Pixels to compress
+ * @param format - Compression format
+ * @param options - Quality and alpha threshold
+ * @returns Compressed blocks
+ */
+export function compressImage(
+  source: BlockCompressionSource,
+  format: BlockCompressionFormat,
+  options: BlockCompressionOptions = {}
+): CompressedImage {
+  const { width, height, data } = source;
+
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`compressImage: invalid dimensions ${width}x${height}`);
+  }
+  if (data.length !== width * height * 4) {
+    throw new Error(`compressImage: expected ${width * height * 4} samples, got ${data.length}`);
+  }
+
+  const quality = options.quality ?? BlockCompressionQuality.NORMAL;
+  const alphaThreshold = Math.round((options.alphaThreshold ?? DEFAULT_CONFIG.ALPHA_CLAMP) * 255);
+  const blocksX = Math.ceil(width / 4);
+  const blocksY = Math.ceil(height / 4);
+  const blockBytes = BLOCK_BYTES[format];
+  const output = new Uint8Array(blocksX * blocksY * blockBytes);
+
+  const block = new Uint8Array(64);
+  const channel = new Uint8Array(16);
+  let offset = 0;
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      readBlock(source, bx, by, block);
+
+      switch (format) {
+        case BlockCompressionFormat.BC1:
+          encodeColorBlock(block, output, offset, quality, alphaThreshold, true);
+          break;
+        case BlockCompressionFormat.BC3:
+          extractChannel(block, 3, channel);
+          encodeChannelBlock(channel, output, offset, quality);
+          encodeColorBlock(block, output, offset + 8, quality, alphaThreshold, false);
+          break;
+        case BlockCompressionFormat.BC5:
+          extractChannel(block, 0, channel);
+          encodeChannelBlock(channel, output, offset, quality);
+          extractChannel(block, 1, channel);
+          encodeChannelBlock(channel, output, offset + 8, quality);
+          break;
+      }
+
+      offset += blockBytes;
+    }
+  }
+
+  return { format, width, height, data: output };
+}
+
+/**
+ * Decodes a compressed image back to RGBA 8-bit pixels, as the GPU would sample it.
+ * BC5 images decode to (R, G, 0, 255).
+ *
+ * @param image - Compressed image
+ * @returns Interleaved RGBA samples, rows in the same order as the source
+ */
+export function decompressImage(image: CompressedImage): Uint8Array {
+  const { format, width, height, data } = image;
+  const blocksX = Math.ceil(width / 4);
+  const blocksY = Math.ceil(height / 4);
+  const blockBytes = BLOCK_BYTES[format];
+  const output = new Uint8Array(width * height * 4);
+
+  const block = new Uint8Array(64);
+  const channel = new Uint8Array(16);
+  let offset = 0;
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      switch (format) {
+        case BlockCompressionFormat.BC1:
+          decodeColorBlock(data, offset, block, true);
+          break;
+        case BlockCompressionFormat.BC3:
+          decodeColorBlock(data, offset + 8, block, false);
+          decodeChannelBlock(data, offset, channel);
+          for (let i = 0; i < 16; i++) block[i * 4 + 3] = channel[i];
+          break;
+        case BlockCompressionFormat.BC5:
+          decodeChannelBlock(data, offset, channel);
+          for (let i = 0; i < 16; i++) block[i * 4] = channel[i];
+          decodeChannelBlock(data, offset + 8, channel);
+          for (let i = 0; i < 16; i++) {
+            block[i * 4 + 1] = channel[i];
+            block[i * 4 + 2] = 0;
+            block[i * 4 + 3] = 255;
+          }
+          break;
+      }
+
+      writeBlock(block, output, width, height, bx, by);
+      offset += blockBytes;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Measures the error a compressed image introduces, including artifacts along alpha edges.
+ *
+ * @param source - Original pixels
+ * @param image - Compressed image of the source
+ * @param alphaThreshold - Alpha test threshold in [0, 1] (default: DEFAULT_CONFIG.ALPHA_CLAMP)
+ * @returns Error metrics over the channels the format stores
+ */
+export function measureCompressionError(
+  source: BlockCompressionSource,
+  image: CompressedImage,
+  alphaThreshold: number = DEFAULT_CONFIG.ALPHA_CLAMP
+): BlockCompressionMetrics {
+  const { width, height, data } = source;
+  const decoded = decompressImage(image);
+  const channels = image.format === BlockCompressionFormat.BC5 ? 2 : 4;
+  const hasAlpha = channels === 4;
+  const threshold = Math.round(alphaThreshold * 255);
+
+  let squaredError = 0;
+  let samples = 0;
+  let maxError = 0;
+  let edgeSquaredError = 0;
+  let edgeSamples = 0;
+  let coverageErrors = 0;
+
+  for (let by = 0; by < height; by += 4) {
+    for (let bx = 0; bx < width; bx += 4) {
+      const endY = Math.min(by + 4, height);
+      const endX = Math.min(bx + 4, width);
+
+      // A block is on an edge when the alpha test keeps some of its texels and discards others
+      let visible = 0;
+      let texels = 0;
+      for (let y = by; y < endY; y++) {
+        for (let x = bx; x < endX; x++) {
+          if (data[(y * width + x) * 4 + 3] >= threshold) visible++;
+          texels++;
+        }
+      }
+      const isEdge = hasAlpha && visible > 0 && visible < texels;
+
+      for (let y = by; y < endY; y++) {
+        for (let x = bx; x < endX; x++) {
+          const index = (y * width + x) * 4;
+          const wasVisible = !hasAlpha || data[index + 3] >= threshold;
+          const firstChannel = wasVisible ? 0 : 3;
+
+          let texelError = 0;
+          for (let c = firstChannel; c < channels; c++) {
+            const error = Math.abs(data[index + c] - decoded[index + c]);
+            texelError += error * error;
+            if (error > maxError) maxError = error;
+          }
+          squaredError += texelError;
+          samples += channels - firstChannel;
+
+          if (!hasAlpha) continue;
+
+          if (wasVisible !== decoded[index + 3] >= threshold) coverageErrors++;
+          if (isEdge && wasVisible) {
+            edgeSquaredError += texelError;
+            edgeSamples += channels;
+          }
+        }
+      }
+    }
+  }
+
+  const rmse = Math.sqrt(squaredError / samples);
+
+  return {
+    rmse,
+    psnr: rmse > 0 ? 20 * Math.log10(255 / rmse) : Infinity,
+    maxError,
+    alphaEdgeRmse: edgeSamples > 0 ? Math.sqrt(edgeSquaredError / edgeSamples) : 0,
+    coverageErrors
+  };
+}
+
+/**
+ * Wraps a compressed image in a Three.js texture.
+ * Block compressed textures cannot be flipped on upload, so rows must already be in upload order.
+ *
+ * @param image - Compressed image
+ * @param colorSpace - Color space of the stored values (default: NoColorSpace)
+ * @returns Compressed texture without mipmaps
+ */
+export function createCompressedTexture(image: CompressedImage, colorSpace: ColorSpace = NoColorSpace): CompressedTexture {
+  const { format, width, height, data } = image;
+  const texture = new CompressedTexture([{ data, width, height }], width, height, TEXTURE_FORMATS[format], UnsignedByteType);
+
+  texture.colorSpace = colorSpace;
+  texture.generateMipmaps = false;
+  texture.minFilter = LinearFilter;
+  texture.magFilter = LinearFilter;
+  texture.needsUpdate = true;
+
+  return texture;
+}
+
+/**
+ * Returns the block compression format of a compressed texture, if it is one of the supported formats.
+ */
+export function getBlockCompressionFormat(texture: Texture): BlockCompressionFormat | undefined {
+  return (Object.keys(TEXTURE_FORMATS) as BlockCompressionFormat[])
+    .find((format) => TEXTURE_FORMATS[format] === texture.format);
+}
+
+// ============================================================================
+// ATLAS COMPRESSION
+// ============================================================================
+
+/**
+ * Compresses a texture (e.g. the albedo or ORM atlas) by reading it back from the GPU.
+ * sRGB textures are compressed from sRGB-encoded bytes, so the result decodes like the source.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @param format - BC1 or BC3 (BC5 keeps only red and green)
+ * @param options - Quality and alpha threshold
+ * @returns Compressed texture, keeping the source color space and filtering, and its error metrics
+ */
+export function compressTexture(
+  renderer: WebGLRenderer,
+  texture: Texture,
+  format: BlockCompressionFormat,
+  options: BlockCompressionOptions = {}
+): CompressedAtlasTexture {
+  const pixels = readTexturePixels(renderer, texture);
+  const source = { ...pixels, data: flipRows(pixels.data, pixels.width, pixels.height) };
+
+  return compressSource(source, format, options, texture);
+}
+
+/**
+ * Compresses a normal-depth atlas to BC5, keeping octahedral-encoded normals and dropping depth.
+ * Render impostors made from the result with NormalDepthLayout.PACKED_NORMAL (no parallax or depth writing).
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Normal-depth atlas
+ * @param layout - Layout of the source atlas (default: HALF_FLOAT)
+ * @param options - Quality
+ * @returns BC5 texture and its error metrics (in octahedral-encoded units)
+ */
+export function compressNormalDepthTexture(
+  renderer: WebGLRenderer,
+  texture: Texture,
+  layout: NormalDepthLayout = DEFAULT_CONFIG.NORMAL_DEPTH_LAYOUT,
+  options: BlockCompressionOptions = {}
+): CompressedAtlasTexture {
+  let source: BlockCompressionSource;
+
+  if (layout === NormalDepthLayout.HALF_FLOAT) {
+    const { width, height, data } = readTextureFloatPixels(renderer, texture);
+    const encoded = new Uint8Array(width * height * 4);
+
+    for (let i = 0; i < data.length; i += 4) {
+      encodeOctahedralNormal(data[i], data[i + 1], data[i + 2], encoded, i);
+    }
+
+    source = { width, height, data: flipRows(encoded, width, height) };
+  } else {
+    // Packed layouts already store the octahedral normal in red and green
+    const pixels = readTexturePixels(renderer, texture);
+    source = { ...pixels, data: flipRows(pixels.data, pixels.width, pixels.height) };
+  }
+
+  return compressSource(source, BlockCompressionFormat.BC5, options, texture);
+}
+
+/**
+ * Options of compressImpostorAtlas.
+ */
+export interface CompressImpostorAtlasOptions extends BlockCompressionOptions {
+  /** Format of the albedo atlas (default: BC3) */
+  albedoFormat?: BlockCompressionFormat.BC1 | BlockCompressionFormat.BC3;
+  /** Layout of the source normal-depth atlas (default: the atlas layout) */
+  normalDepthLayout?: NormalDepthLayout;
+}
+
+/**
+ * Compresses the atlas textures of a bake: albedo to BC1/BC3, normal-depth to BC5 and ORM to BC1.
+ * Emissive stays uncompressed since it may hold HDR values.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param atlas - Atlas textures, e.g. returned by createTextureAtlas
+ * @param options - Formats, quality and alpha threshold
+ * @returns Atlas textures to pass to createOctahedralImpostorMaterialFromTextures, and per-texture metrics
+ */
+export function compressImpostorAtlas(
+  renderer: WebGLRenderer,
+  atlas: ImpostorAtlasTextures,
+  options: CompressImpostorAtlasOptions = {}
+): {
+  textures: ImpostorAtlasTextures;
+  metrics: { albedo: BlockCompressionMetrics; normalDepth: BlockCompressionMetrics; orm?: BlockCompressionMetrics };
+} {
+  const layout = options.normalDepthLayout ?? atlas.normalDepthLayout;
+  const albedo = compressTexture(renderer, atlas.albedo, options.albedoFormat ?? BlockCompressionFormat.BC3, options);
+  const normalDepth = compressNormalDepthTexture(renderer, atlas.normalDepth, layout, options);
+  const orm = atlas.orm && compressTexture(renderer, atlas.orm, BlockCompressionFormat.BC1, { ...options, alphaThreshold: 0 });
+
+  return {
+    textures: {
+      albedo: albedo.texture,
+      normalDepth: normalDepth.texture,
+      normalDepthLayout: NormalDepthLayout.PACKED_NORMAL,
+      gutter: atlas.gutter,
+      frameScale: atlas.frameScale,
+      depthRange: { ...atlas.depthRange },
+      ...(orm && { orm: orm.texture }),
+      ...(atlas.emissive && { emissive: atlas.emissive })
+    },
+    metrics: {
+      albedo: albedo.metrics,
+      normalDepth: normalDepth.metrics,
+      ...(orm && { orm: orm.metrics })
+    }
+  };
+}
+
+/**
+ * Compresses pixels in upload order and wraps them like the source texture.
+ */
+function compressSource(
+  source: BlockCompressionSource,
+  format: BlockCompressionFormat,
+  options: BlockCompressionOptions,
+  sourceTexture: Texture
+): CompressedAtlasTexture {
+  const image = compressImage(source, format, options);
+  const texture = createCompressedTexture(image, sourceTexture.colorSpace as ColorSpace);
+
+  texture.name = sourceTexture.name;
+  texture.minFilter = sourceTexture.minFilter === NearestFilter ? NearestFilter : LinearFilter;
+  texture.magFilter = sourceTexture.magFilter === NearestFilter ? NearestFilter : LinearFilter;
+
+  return { texture, metrics: measureCompressionError(source, image, options.alphaThreshold) };
+}
+
+/**
+ * Writes the octahedral encoding of a normal, mapped to [0, 255], into red and green.
+ * Matches the encoding of the packed atlas layouts.
+ */
+function encodeOctahedralNormal(x: number, y: number, z: number, output: Uint8Array, offset: number): void {
+  const length = Math.abs(x) + Math.abs(y) + Math.abs(z);
+  let u = 0;
+  let v = 0;
+
+  if (length > 0) {
+    u = x / length;
+    v = y / length;
+
+    if (z < 0) {
+      const foldedU = (1 - Math.abs(v)) * (u >= 0 ? 1 : -1);
+      v = (1 - Math.abs(u)) * (v >= 0 ? 1 : -1);
+      u = foldedU;
+    }
+  }
+
+  output[offset] = Math.round((u * 0.5 + 0.5) * 255);
+  output[offset + 1] = Math.round((v * 0.5 + 0.5) * 255);
+  output[offset + 2] = 0;
+  output[offset + 3] = 255;
+}
+
+// ============================================================================
+// BLOCK ACCESS
+// ============================================================================
+
+/**
+ * Copies a 4x4 block of RGBA texels, clamping to the image edges.
+ */
+function readBlock(source: BlockCompressionSource, bx: number, by: number, block: Uint8Array): void {
+  const { width, height, data } = source;
+
+  for (let ty = 0; ty < 4; ty++) {
+    const y = Math.min(by * 4 + ty, height - 1);
+    for (let tx = 0; tx < 4; tx++) {
+      const x = Math.min(bx * 4 + tx, width - 1);
+      const src = (y * width + x) * 4;
+      const dst = (ty * 4 + tx) * 4;
+      block[dst] = data[src];
+      block[dst + 1] = data[src + 1];
+      block[dst + 2] = data[src + 2];
+      block[dst + 3] = data[src + 3];
+    }
+  }
+}
+
+/**
+ * Copies a decoded 4x4 block into an image, skipping texels outside of it.
+ */
+function writeBlock(block: Uint8Array, output: Uint8Array, width: number, height: number, bx: number, by: number): void {
+  for (let ty = 0; ty < 4; ty++) {
+    const y = by * 4 + ty;
+    if (y >= height) break;
+    for (let tx = 0; tx < 4; tx++) {
+      const x = bx * 4 + tx;
+      if (x >= width) break;
+      output.set(block.subarray((ty * 4 + tx) * 4, (ty * 4 + tx) * 4 + 4), (y * width + x) * 4);
+    }
+  }
+}
+
+/**
+ * Extracts one channel of a 4x4 RGBA block.
+ */
+function extractChannel(block: Uint8Array, channel: number, output: Uint8Array): void {
+  for (let i = 0; i < 16; i++) output[i] = block[i * 4 + channel];
+}
+
+// ============================================================================
+// COLOR BLOCKS (BC1, color part of BC3)
+// ============================================================================
+
+/** Scratch state of the color block encoder */
+const COLOR_SCRATCH = {
+  endpoints: new Float64Array(6),
+  best: new Float64Array(6),
+  palette: new Int32Array(12),
+  indices: new Uint8Array(16),
+  bestIndices: new Uint8Array(16),
+  mask: new Uint8Array(16)
+};
+
+/** Interpolation weight of the first endpoint for each 4-color index */
+const COLOR_WEIGHTS_4 = [1, 0, 2 / 3, 1 / 3];
+
+/** Interpolation weight of the first endpoint for each 3-color index (index 3 is transparent) */
+const COLOR_WEIGHTS_3 = [1, 0, 0.5, 0];
+
+/**
+ * Encodes the color of a 4x4 block as 2 RGB565 endpoints and 2-bit indices.
+ * With punch-through alpha (BC1), texels below the threshold use the transparent index.
+ * Otherwise (BC3) the block always uses the 4-color mode, and color endpoints still ignore
+ * invisible texels so silhouettes don't bleed toward the background color.
+ */
+function encodeColorBlock(
+  block: Uint8Array,
+  output: Uint8Array,
+  offset: number,
+  quality: BlockCompressionQuality,
+  alphaThreshold: number,
+  punchThrough: boolean
+): void {
+  const { endpoints, best, indices, bestIndices, mask } = COLOR_SCRATCH;
+
+  let visible = 0;
+  for (let i = 0; i < 16; i++) {
+    mask[i] = block[i * 4 + 3] >= alphaThreshold ? 1 : 0;
+    visible += mask[i];
+  }
+
+  const transparent = punchThrough && visible < 16;
+
+  if (visible === 0) {
+    if (punchThrough) {
+      // Equal endpoints select the 3-color mode, where index 3 is transparent black
+      writeColorBlock(output, offset, 0, 0, 0xffffffff);
+      return;
+    }
+    // Fit all texels, colors are hidden by the alpha block anyway
+    mask.fill(1);
+  }
+
+  if (quality === BlockCompressionQuality.FAST) {
+    fitColorBoundingBox(block, mask, endpoints);
+  } else {
+    fitColorPrincipalAxis(block, mask, endpoints);
+  }
+
+  let bestError = quantizeColorEndpoints(block, mask, endpoints, transparent, indices);
+  best.set(endpoints);
+  bestIndices.set(indices);
+
+  if (quality === BlockCompressionQuality.HIGH) {
+    const weights = transparent ? COLOR_WEIGHTS_3 : COLOR_WEIGHTS_4;
+
+    for (let iteration = 0; iteration < 2; iteration++) {
+      if (!refineEndpoints(block, mask, bestIndices, weights, 3, 4, endpoints)) break;
+      const error = quantizeColorEndpoints(block, mask, endpoints, transparent, indices);
+      if (error >= bestError) break;
+      bestError = error;
+      best.set(endpoints);
+      bestIndices.set(indices);
+    }
+  }
+
+  quantizeColorEndpoints(block, mask, best, transparent, indices, output, offset);
+}
+
+/**
+ * Uses the inset bounding box of the visible texels as endpoints.
+ */
+function fitColorBoundingBox(block: Uint8Array, mask: Uint8Array, endpoints: Float64Array): void {
+  let minR = 255, minG = 255, minB = 255;
+  let maxR = 0, maxG = 0, maxB = 0;
+
+  for (let i = 0; i < 16; i++) {
+    if (!mask[i]) continue;
+    const r = block[i * 4], g = block[i * 4 + 1], b = block[i * 4 + 2];
+    if (r < minR) minR = r;
+    if (g < minG) minG = g;
+    if (b < minB) minB = b;
+    if (r > maxR) maxR = r;
+    if (g > maxG) maxG = g;
+    if (b > maxB) maxB = b;
+  }
+
+  // Inset by 1/16 of the range, since the extremes are rarely hit exactly
+  const insetR = (maxR - minR) / 16;
+  const insetG = (maxG - minG) / 16;
+  const insetB = (maxB - minB) / 16;
+
+  endpoints[0] = maxR - insetR;
+  endpoints[1] = maxG - insetG;
+  endpoints[2] = maxB - insetB;
+  endpoints[3] = minR + insetR;
+  endpoints[4] = minG + insetG;
+  endpoints[5] = minB + insetB;
+}
+
+/**
+ * Uses the extent of the visible texels along their principal axis as endpoints.
+ */
+function fitColorPrincipalAxis(block: Uint8Array, mask: Uint8Array, endpoints: Float64Array): void {
+  let count = 0;
+  let meanR = 0, meanG = 0, meanB = 0;
+
+  for (let i = 0; i < 16; i++) {
+    if (!mask[i]) continue;
+    meanR += block[i * 4];
+    meanG += block[i * 4 + 1];
+    meanB += block[i * 4 + 2];
+    count++;
+  }
+  meanR /= count;
+  meanG /= count;
+  meanB /= count;
+
+  let rr = 0, rg = 0, rb = 0, gg = 0, gb = 0, bb = 0;
+  for (let i = 0; i < 16; i++) {
+    if (!mask[i]) continue;
+    const r = block[i * 4] - meanR;
+    const g = block[i * 4 + 1] - meanG;
+    const b = block[i * 4 + 2] - meanB;
+    rr += r * r; rg += r * g; rb += r * b;
+    gg += g * g; gb += g * b; bb += b * b;
+  }
+
+  // Power iteration on the covariance matrix
+  let axisR = 1, axisG = 1, axisB = 1;
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const r = rr * axisR + rg * axisG + rb * axisB;
+    const g = rg * axisR + gg * axisG + gb * axisB;
+    const b = rb * axisR + gb * axisG + bb * axisB;
+    const length = Math.max(Math.abs(r), Math.abs(g), Math.abs(b));
+    if (length === 0) break;
+    axisR = r / length;
+    axisG = g / length;
+    axisB = b / length;
+  }
+
+  const axisLengthSq = axisR * axisR + axisG * axisG + axisB * axisB;
+  let minProjection = 0;
+  let maxProjection = 0;
+
+  for (let i = 0; i < 16; i++) {
+    if (!mask[i]) continue;
+    const projection = (
+      (block[i * 4] - meanR) * axisR +
+      (block[i * 4 + 1] - meanG) * axisG +
+      (block[i * 4 + 2] - meanB) * axisB
+    ) / axisLengthSq;
+    if (projection < minProjection) minProjection = projection;
+    if (projection > maxProjection) maxProjection = projection;
+  }
+
+  endpoints[0] = meanR + axisR * maxProjection;
+  endpoints[1] = meanG + axisG * maxProjection;
+  endpoints[2] = meanB + axisB * maxProjection;
+  endpoints[3] = meanR + axisR * minProjection;
+  endpoints[4] = meanG + axisG * minProjection;
+  endpoints[5] = meanB + axisB * minProjection;
+}
+
+/**
+ * Solves the endpoints minimizing the squared error of the current index assignment.
+ * Works on interleaved texels of any channel count, endpoints are stored [first..., second...].
+ *
+ * @returns Whether the system could be solved
+ */
+function refineEndpoints(
+  block: Uint8Array,
+  mask: Uint8Array,
+  indices: Uint8Array,
+  weights: number[],
+  channels: number,
+  stride: number,
+  endpoints: Float64Array
+): boolean {
+  let aa = 0, ab = 0, bb = 0;
+  const ax = [0, 0, 0];
+  const bx = [0, 0, 0];
+
+  for (let i = 0; i < 16; i++) {
+    if (!mask[i]) continue;
+    const a = weights[indices[i]];
+    const b = 1 - a;
+    aa += a * a;
+    ab += a * b;
+    bb += b * b;
+    for (let c = 0; c < channels; c++) {
+      const value = block[i * stride + c];
+      ax[c] += a * value;
+      bx[c] += b * value;
+    }
+  }
+
+  const determinant = aa * bb - ab * ab;
+  if (Math.abs(determinant) < 1e-8) return false;
+
+  for (let c = 0; c < channels; c++) {
+    endpoints[c] = Math.min(Math.max((bb * ax[c] - ab * bx[c]) / determinant, 0), 255);
+    endpoints[channels + c] = Math.min(Math.max((aa * bx[c] - ab * ax[c]) / determinant, 0), 255);
+  }
+
+  return true;
+}
+
+/**
+ * Quantizes endpoints to RGB565, picks the closest palette entry for each texel and,
+ * if an output is given, writes the block.
+ *
+ * @returns Squared error of the visible texels
+ */
+function quantizeColorEndpoints(
+  block: Uint8Array,
+  mask: Uint8Array,
+  endpoints: Float64Array,
+  transparent: boolean,
+  indices: Uint8Array,
+  output?: Uint8Array,
+  offset = 0
+): number {
+  let color0 = toRGB565(endpoints[0], endpoints[1], endpoints[2]);
+  let color1 = toRGB565(endpoints[3], endpoints[4], endpoints[5]);
+
+  // The endpoint order selects the mode: color0 > color1 for 4 colors, otherwise 3 colors + transparent.
+  // Endpoints are swapped along so indices keep referring to them during refinement.
+  if (transparent ? color0 > color1 : color0 < color1) {
+    [color0, color1] = [color1, color0];
+    for (let c = 0; c < 3; c++) [endpoints[c], endpoints[3 + c]] = [endpoints[3 + c], endpoints[c]];
+  }
+
+  const palette = COLOR_SCRATCH.palette;
+  computeColorPalette(color0, color1, palette);
+
+  // Equal endpoints would fall back to the 3-color mode, so opaque blocks only use index 0
+  const candidates = transparent ? 3 : color0 === color1 ? 1 : 4;
+  let error = 0;
+  let bits = 0;
+
+  for (let i = 0; i < 16; i++) {
+    let index = 3;
+
+    if (mask[i] || !transparent) {
+      const r = block[i * 4], g = block[i * 4 + 1], b = block[i * 4 + 2];
+      let bestDistance = Infinity;
+
+      for (let p = 0; p < candidates; p++) {
+        const dr = r - palette[p * 3], dg = g - palette[p * 3 + 1], db = b - palette[p * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = p;
+        }
+      }
+
+      if (mask[i]) error += bestDistance;
+    }
+
+    indices[i] = index;
+    bits |= index << (i * 2);
+  }
+
+  if (output) writeColorBlock(output, offset, color0, color1, bits >>> 0);
+
+  return error;
+}
+
+/**
+ * Expands the palette of a color block into RGB triplets.
+ *
+ * @returns Number of opaque colors (4, or 3 when index 3 is transparent)
+ */
+function computeColorPalette(color0: number, color1: number, palette: Int32Array): number {
+  fromRGB565(color0, palette, 0);
+  fromRGB565(color1, palette, 3);
+
+  if (color0 > color1) {
+    for (let c = 0; c < 3; c++) {
+      palette[6 + c] = Math.round((2 * palette[c] + palette[3 + c]) / 3);
+      palette[9 + c] = Math.round((palette[c] + 2 * palette[3 + c]) / 3);
+    }
+    return 4;
+  }
+
+  for (let c = 0; c < 3; c++) {
+    palette[6 + c] = Math.round((palette[c] + palette[3 + c]) / 2);
+    palette[9 + c] = 0;
+  }
+  return 3;
+}
+
+/**
+ * Decodes a color block to RGBA texels.
+ */
+function decodeColorBlock(data: Uint8Array, offset: number, block: Uint8Array, punchThrough: boolean): void {
+  const color0 = data[offset] | (data[offset + 1] << 8);
+  const color1 = data[offset + 2] | (data[offset + 3] << 8);
+  const bits = (data[offset + 4] | (data[offset + 5] << 8) | (data[offset + 6] << 16) | (data[offset + 7] << 24)) >>> 0;
+
+  const palette = COLOR_SCRATCH.palette;
+  const colorCount = computeColorPalette(color0, color1, palette);
+
+  for (let i = 0; i < 16; i++) {
+    const index = (bits >>> (i * 2)) & 3;
+    const isTransparent = punchThrough && index === 3 && colorCount === 3;
+    block[i * 4] = palette[index * 3];
+    block[i * 4 + 1] = palette[index * 3 + 1];
+    block[i * 4 + 2] = palette[index * 3 + 2];
+    block[i * 4 + 3] = isTransparent ? 0 : 255;
+  }
+}
+
+/**
+ * Writes the endpoints and indices of a color block.
+ */
+function writeColorBlock(output: Uint8Array, offset: number, color0: number, color1: number, bits: number): void {
+  output[offset] = color0 & 0xff;
+  output[offset + 1] = color0 >> 8;
+  output[offset + 2] = color1 & 0xff;
+  output[offset + 3] = color1 >> 8;
+  output[offset + 4] = bits & 0xff;
+  output[offset + 5] = (bits >>> 8) & 0xff;
+  output[offset + 6] = (bits >>> 16) & 0xff;
+  output[offset + 7] = (bits >>> 24) & 0xff;
+}
+
+/**
+ * Packs an 8-bit RGB color as RGB565.
+ */
+function toRGB565(r: number, g: number, b: number): number {
+  const r5 = Math.round(Math.min(Math.max(r, 0), 255) * 31 / 255);
+  const g6 = Math.round(Math.min(Math.max(g, 0), 255) * 63 / 255);
+  const b5 = Math.round(Math.min(Math.max(b, 0), 255) * 31 / 255);
+  return (r5 << 11) | (g6 << 5) | b5;
+}
+
+/**
+ * Expands an RGB565 color to 8-bit RGB.
+ */
+function fromRGB565(color: number, output: Int32Array, offset: number): void {
+  const r5 = (color >> 11) & 31;
+  const g6 = (color >> 5) & 63;
+  const b5 = color & 31;
+  output[offset] = (r5 << 3) | (r5 >> 2);
+  output[offset + 1] = (g6 << 2) | (g6 >> 4);
+  output[offset + 2] = (b5 << 3) | (b5 >> 2);
+}
+
+// ============================================================================
+// CHANNEL BLOCKS (alpha part of BC3, BC5 channels)
+// ============================================================================
+
+/** Scratch state of the channel block encoder */
+const CHANNEL_SCRATCH = {
+  palette: new Float64Array(8),
+  indices: new Uint8Array(16),
+  bestIndices: new Uint8Array(16),
+  endpoints: new Float64Array(2),
+  mask: new Uint8Array(16).fill(1)
+};
+
+/** Interpolation weight of the first endpoint for each 8-value index */
+const CHANNEL_WEIGHTS_8 = [1, 0, 6 / 7, 5 / 7, 4 / 7, 3 / 7, 2 / 7, 1 / 7];
+
+/**
+ * Encodes a single channel 4x4 block as 2 endpoints and 3-bit indices.
+ * The 8-value mode interpolates between the endpoints; the 6-value mode
+ * also keeps exact 0 and 255, which suits alpha silhouettes.
+ */
+function encodeChannelBlock(values: Uint8Array, output: Uint8Array, offset: number, quality: BlockCompressionQuality): void {
+  let min = 255, max = 0;
+  let innerMin = 255, innerMax = 0;
+
+  for (let i = 0; i < 16; i++) {
+    const value = values[i];
+    if (value < min) min = value;
+    if (value > max) max = value;
+    if (value > 0 && value < 255) {
+      if (value < innerMin) innerMin = value;
+      if (value > innerMax) innerMax = value;
+    }
+  }
+
+  if (min === max) {
+    writeChannelBlock(output, offset, max, max, CHANNEL_SCRATCH.indices.fill(0));
+    return;
+  }
+
+  // 8-value mode requires value0 > value1
+  let best0 = max;
+  let best1 = min;
+  let bestError = assignChannelIndices(values, best0, best1, CHANNEL_SCRATCH.bestIndices);
+
+  if (quality === BlockCompressionQuality.HIGH) {
+    const { endpoints, indices, mask } = CHANNEL_SCRATCH;
+
+    for (let iteration = 0; iteration < 2; iteration++) {
+      if (!refineEndpoints(values, mask, CHANNEL_SCRATCH.bestIndices, CHANNEL_WEIGHTS_8, 1, 1, endpoints)) break;
+
+      let value0 = Math.round(endpoints[0]);
+      let value1 = Math.round(endpoints[1]);
+      if (value0 === value1) break;
+      if (value0 < value1) [value0, value1] = [value1, value0];
+
+      const error = assignChannelIndices(values, value0, value1, indices);
+      if (error >= bestError) break;
+      bestError = error;
+      best0 = value0;
+      best1 = value1;
+      CHANNEL_SCRATCH.bestIndices.set(indices);
+    }
+  }
+
+  // 6-value mode (value0 <= value1) covers the inner range, extremes use the explicit 0 and 255
+  if (quality !== BlockCompressionQuality.FAST && innerMin <= innerMax) {
+    const error = assignChannelIndices(values, innerMin, innerMax, CHANNEL_SCRATCH.indices);
+    if (error < bestError) {
+      bestError = error;
+      best0 = innerMin;
+      best1 = innerMax;
+      CHANNEL_SCRATCH.bestIndices.set(CHANNEL_SCRATCH.indices);
+    }
+  }
+
+  writeChannelBlock(output, offset, best0, best1, CHANNEL_SCRATCH.bestIndices);
+}
+
+/**
+ * Picks the closest palette entry for each value.
+ *
+ * @returns Squared error of the block
+ */
+function assignChannelIndices(values: Uint8Array, value0: number, value1: number, indices: Uint8Array): number {
+  const palette = CHANNEL_SCRATCH.palette;
+  computeChannelPalette(value0, value1, palette);
+
+  let error = 0;
+  for (let i = 0; i < 16; i++) {
+    let bestDistance = Infinity;
+    for (let p = 0; p < 8; p++) {
+      const distance = Math.abs(values[i] - palette[p]);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        indices[i] = p;
+      }
+    }
+    error += bestDistance * bestDistance;
+  }
+
+  return error;
+}
+
+/**
+ * Expands the palette of a channel block.
+ */
+function computeChannelPalette(value0: number, value1: number, palette: Float64Array): void {
+  palette[0] = value0;
+  palette[1] = value1;
+
+  if (value0 > value1) {
+    for (let i = 1; i < 7; i++) palette[i + 1] = Math.round(((7 - i) * value0 + i * value1) / 7);
+  } else {
+    for (let i = 1; i < 5; i++) palette[i + 1] = Math.round(((5 - i) * value0 + i * value1) / 5);
+    palette[6] = 0;
+    palette[7] = 255;
+  }
+}
+
+/**
+ * Decodes a channel block to 16 values.
+ */
+function decodeChannelBlock(data: Uint8Array, offset: number, values: Uint8Array): void {
+  const palette = CHANNEL_SCRATCH.palette;
+  computeChannelPalette(data[offset], data[offset + 1], palette);
+
+  for (let half = 0; half < 2; half++) {
+    const byte = offset + 2 + half * 3;
+    const bits = data[byte] | (data[byte + 1] << 8) | (data[byte + 2] << 16);
+    for (let i = 0; i < 8; i++) values[half * 8 + i] = palette[(bits >> (i * 3)) & 7];
+  }
+}
+
+/**
+ * Writes the endpoints and 3-bit indices of a channel block.
+ */
+function writeChannelBlock(output: Uint8Array, offset: number, value0: number, value1: number, indices: Uint8Array): void {
+  output[offset] = value0;
+  output[offset + 1] = value1;
+
+  for (let half = 0; half < 2; half++) {
+    let bits = 0;
+    for (let i = 0; i < 8; i++) bits |= indices[half * 8 + i] << (i * 3);
+    const byte = offset + 2 + half * 3;
+    output[byte] = bits & 0xff;
+    output[byte + 1] = (bits >> 8) & 0xff;
+    output[byte + 2] = (bits >> 16) & 0xff;
+  }
+}
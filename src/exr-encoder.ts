@@ -0,0 +1,172 @@
+/**
+ * Minimal OpenEXR encoder
+ * Writes uncompressed half-float RGBA scanline images, enough to keep atlas attachments lossless
+ */
+
+import { DataUtils } from 'three';
+
+// ============================================================================
+// EXR TYPES
+// ============================================================================
+
+/**
+ * Floating point RGBA image passed to the encoder.
+ * Rows are stored top to bottom, channels interleaved.
+ */
+export interface EXRImage {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Interleaved RGBA samples */
+  data: Float32Array;
+}
+
+/** EXR magic number */
+const EXR_MAGIC = 20000630;
+
+/** EXR pixel type for 16-bit half floats */
+const EXR_HALF = 1;
+
+/** Channels in the alphabetical order EXR stores them, with their offset in an RGBA pixel */
+const EXR_CHANNELS = [['A', 3], ['B', 2], ['G', 1], ['R', 0]] as const;
+
+// ============================================================================
+// EXR ENCODING
+// ============================================================================
+
+/**
+ * Encodes an RGBA image as an uncompressed half-float OpenEXR file.
+ *
+ * @param image - Pixels to encode
+ * @returns EXR file bytes
+ */
+export function encodeEXR(image: EXRImage): Uint8Array {
+  const { width, height, data } = image;
+
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`encodeEXR: invalid dimensions ${width}x${height}`);
+  }
+  if (data.length !== width * height * 4) {
+    throw new Error(`encodeEXR: expected ${width * height * 4} samples, got ${data.length}`);
+  }
+
+  const header = createHeader(width, height);
+  const lineDataSize = width * EXR_CHANNELS.length * 2;
+  const chunkSize = 8 + lineDataSize;
+  const offsetTableStart = 8 + header.length;
+  const firstChunk = offsetTableStart + height * 8;
+
+  const output = new Uint8Array(firstChunk + height * chunkSize);
+  const view = new DataView(output.buffer);
+
+  // Magic number and version 2, single-part scanline file
+  view.setUint32(0, EXR_MAGIC, true);
+  view.setUint32(4, 2, true);
+  output.set(header, 8);
+
+  for (let y = 0; y < height; y++) {
+    const chunk = firstChunk + y * chunkSize;
+    view.setBigUint64(offsetTableStart + y * 8, BigInt(chunk), true);
+
+    view.setInt32(chunk, y, true);
+    view.setInt32(chunk + 4, lineDataSize, true);
+
+    // One scanline per chunk, each channel stored as a contiguous run of samples
+    let offset = chunk + 8;
+    for (const [, channel] of EXR_CHANNELS) {
+      for (let x = 0; x < width; x++) {
+        view.setUint16(offset, DataUtils.toHalfFloat(data[(y * width + x) * 4 + channel]), true);
+        offset += 2;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Builds the attribute list of a scanline image.
+ */
+function createHeader(width: number, height: number): Uint8Array {
+  const writer = new HeaderWriter();
+
+  writer.attribute('channels', 'chlist', (w) => {
+    for (const [name] of EXR_CHANNELS) {
+      w.string(name);
+      w.int32(EXR_HALF);
+      w.uint8(0); // pLinear
+      w.uint8(0);
+      w.uint8(0);
+      w.uint8(0);
+      w.int32(1); // x sampling
+      w.int32(1); // y sampling
+    }
+    w.uint8(0);
+  });
+  writer.attribute('compression', 'compression', (w) => w.uint8(0));
+  writer.attribute('dataWindow', 'box2i', (w) => w.box(width, height));
+  writer.attribute('displayWindow', 'box2i', (w) => w.box(width, height));
+  writer.attribute('lineOrder', 'lineOrder', (w) => w.uint8(0)); // Increasing Y
+  writer.attribute('pixelAspectRatio', 'float', (w) => w.float32(1));
+  writer.attribute('screenWindowCenter', 'v2f', (w) => {
+    w.float32(0);
+    w.float32(0);
+  });
+  writer.attribute('screenWindowWidth', 'float', (w) => w.float32(1));
+  writer.uint8(0); // End of header
+
+  return writer.finish();
+}
+
+/**
+ * Growable little-endian writer for EXR header attributes.
+ */
+class HeaderWriter {
+  private bytes: number[] = [];
+  private readonly scratch = new DataView(new ArrayBuffer(4));
+
+  public attribute(name: string, type: string, writeValue: (writer: HeaderWriter) => void): void {
+    const value = new HeaderWriter();
+    writeValue(value);
+
+    this.string(name);
+    this.string(type);
+    this.int32(value.bytes.length);
+    this.bytes.push(...value.bytes);
+  }
+
+  public string(value: string): void {
+    for (let i = 0; i < value.length; i++) this.bytes.push(value.charCodeAt(i));
+    this.bytes.push(0);
+  }
+
+  public uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  public int32(value: number): void {
+    this.scratch.setInt32(0, value, true);
+    this.pushScratch();
+  }
+
+  public float32(value: number): void {
+    this.scratch.setFloat32(0, value, true);
+    this.pushScratch();
+  }
+
+  public box(width: number, height: number): void {
+    this.int32(0);
+    this.int32(0);
+    this.int32(width - 1);
+    this.int32(height - 1);
+  }
+
+  public finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private pushScratch(): void {
+    for (let i = 0; i < 4; i++) this.bytes.push(this.scratch.getUint8(i));
+  }
+}
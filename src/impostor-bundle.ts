@@ -0,0 +1,350 @@
+/**
+ * Impostor asset bundle format
+ * A versioned JSON manifest describing how an atlas was baked, plus one image file per atlas attachment
+ */
+
+import {
+  CompressedTexture,
+  Material,
+  Quaternion,
+  SRGBColorSpace,
+  Texture,
+  Vector3,
+  WebGLRenderer
+} from 'three';
+
+import {
+  AtlasDepthRange,
+  AtlasImageEncoding,
+  CameraType,
+  NormalDepthLayout,
+  OctahedralMode
+} from './octahedral-utils.js';
+import { OctahedralImpostor } from './impostor-rendering.js';
+import { downloadFile, encodeTexture, encodeTextureAsPNG, getAtlasImageExtension } from './texture-export.js';
+import { encodeCompressedTextureAsKTX2 } from './ktx2.js';
+
+// ============================================================================
+// BUNDLE FORMAT
+// ============================================================================
+
+/** Identifier stored in every bundle manifest */
+export const IMPOSTOR_BUNDLE_FORMAT = 'octahedral-impostor';
+
+/** Current bundle manifest version, bumped on incompatible changes */
+export const IMPOSTOR_BUNDLE_VERSION = 6;
+
+/** Atlas attachments that can be stored in a bundle */
+export type ImpostorBundleImageKey = 'albedo' | 'normalDepth' | 'orm' | 'emissive';
+
+/** File encoding of each bundle image, PNG8 when omitted */
+export type ImpostorBundleEncodings = { [key in ImpostorBundleImageKey]?: AtlasImageEncoding };
+
+/**
+ * Default bundle image encodings.
+ * Normal-depth holds signed normals and linear depth that 8 bits would clamp and band,
+ * emissive may exceed 1 in HDR setups.
+ */
+export const DEFAULT_IMPOSTOR_BUNDLE_ENCODINGS: Readonly<ImpostorBundleEncodings> = {
+  albedo: AtlasImageEncoding.PNG8,
+  normalDepth: AtlasImageEncoding.PNG16_SIGNED,
+  orm: AtlasImageEncoding.PNG8,
+  emissive: AtlasImageEncoding.EXR
+};
+
+/**
+ * JSON manifest of an impostor bundle.
+ * Lengths are in world units of the baked scene unless stated otherwise.
+ */
+export interface ImpostorBundleManifest {
+  /** Always IMPOSTOR_BUNDLE_FORMAT */
+  format: typeof IMPOSTOR_BUNDLE_FORMAT;
+  /** Manifest version */
+  version: number;
+  /** Octahedral mapping mode the atlas was baked with */
+  octahedralMode: OctahedralMode;
+  /** Camera type the atlas was baked with */
+  cameraType: CameraType;
+  /** Number of sprites per atlas side */
+  spritesPerSide: number;
+  /** Atlas resolution in pixels */
+  textureSize: number;
+  /** Size of the impostor billboard */
+  scale: number;
+  /** Position of the impostor center */
+  translation: [number, number, number];
+  /** Rotation of the impostor, i.e. the frame the atlas was baked in */
+  quaternion: [number, number, number, number];
+  /** Bounding sphere of the baked object */
+  boundingSphere: {
+    center: [number, number, number];
+    radius: number;
+  };
+  /** Bake camera depth range, in impostor units */
+  depthRange: AtlasDepthRange;
+  /** Storage layout of the normal-depth image (since version 3, HALF_FLOAT when omitted) */
+  normalDepthLayout?: NormalDepthLayout;
+  /** Texels left empty on each side of every sprite (since version 4, 0 when omitted) */
+  gutter?: number;
+  /**
+   * Opaque bounds of every sprite in frame UV, four floats per sprite as computed by computeSpriteBounds
+   * (since version 6, cards are not trimmed when omitted)
+   */
+  spriteBounds?: number[];
+  /** Image file names, relative to the manifest */
+  images: { [key in ImpostorBundleImageKey]?: string } & { albedo: string; normalDepth: string };
+  /**
+   * How each image is encoded, so loaders can undo it (since version 2, PNG8 when omitted).
+   * PNG8 albedo is sRGB-encoded since version 5, linear before; other PNG and EXR images are linear.
+   */
+  encodings?: ImpostorBundleEncodings;
+}
+
+// ============================================================================
+// MANIFEST CREATION
+// ============================================================================
+
+/**
+ * Collects the atlas textures of an impostor material by bundle image key.
+ *
+ * @param material - Octahedral impostor material
+ * @returns Atlas textures present on the material
+ */
+export function getImpostorBundleTextures(material: Material): { [key in ImpostorBundleImageKey]?: Texture } {
+  const source = material as any;
+  const defines = material.octahedralImpostorDefines ?? {};
+  const uniforms = material.octahedralImpostorUniforms;
+
+  return {
+    albedo: source.map ?? undefined,
+    normalDepth: source.normalMap ?? undefined,
+    ...(defines.OCTAHEDRAL_USE_ORM && uniforms?.ormMap && { orm: uniforms.ormMap.value }),
+    ...(defines.OCTAHEDRAL_USE_EMISSIVE && source.emissiveMap && { emissive: source.emissiveMap })
+  };
+}
+
+/**
+ * Describes an impostor as a bundle manifest.
+ *
+ * @param impostor - Impostor to describe
+ * @param name - Base name of the bundle image files
+ * @param encodings - Image encodings, merged over DEFAULT_IMPOSTOR_BUNDLE_ENCODINGS
+ * @returns Bundle manifest referencing `${name}_${key}.png` (or `.exr`) images
+ */
+export function createImpostorBundleManifest(
+  impostor: OctahedralImpostor,
+  name: string,
+  encodings: ImpostorBundleEncodings = {}
+): ImpostorBundleManifest {
+  const { material } = impostor;
+
+  if (!material?.isOctahedralImpostorMaterial) {
+    throw new Error('createImpostorBundleManifest: impostor must use an octahedral impostor material');
+  }
+
+  const defines = material.octahedralImpostorDefines!;
+  const uniforms = material.octahedralImpostorUniforms!;
+  const textures = getImpostorBundleTextures(material);
+
+  if (!textures.albedo || !textures.normalDepth) {
+    throw new Error('createImpostorBundleManifest: impostor material has no atlas textures');
+  }
+
+  const translation = new Vector3();
+  const scale = new Vector3();
+  uniforms.transform.value.decompose(translation, new Quaternion(), scale);
+
+  const boundingSphere = impostor.smartPositioning?.boundingSphere;
+  const bakeDepthRange = uniforms.bakeDepthRange.value;
+
+  const normalDepthLayout = getNormalDepthLayout(material);
+
+  // Packed normal-depth is already 8-bit, so 8-bit PNG stores it exactly
+  const defaultEncodings: ImpostorBundleEncodings = {
+    ...DEFAULT_IMPOSTOR_BUNDLE_ENCODINGS,
+    ...(normalDepthLayout === NormalDepthLayout.PACKED && { normalDepth: AtlasImageEncoding.PNG8 })
+  };
+
+  const images = {} as ImpostorBundleManifest['images'];
+  const imageEncodings: ImpostorBundleEncodings = {};
+  (Object.keys(textures) as ImpostorBundleImageKey[]).forEach((key) => {
+    // Block compressed textures are stored as they are, re-encoding them would only add loss
+    const isCompressed = !!(textures[key] as CompressedTexture).isCompressedTexture;
+    const encoding = isCompressed ? AtlasImageEncoding.KTX2 : encodings[key] ?? defaultEncodings[key] ?? AtlasImageEncoding.PNG8;
+    images[key] = `${name}_${key}.${getAtlasImageExtension(encoding)}`;
+    imageEncodings[key] = encoding;
+  });
+
+  return {
+    format: IMPOSTOR_BUNDLE_FORMAT,
+    version: IMPOSTOR_BUNDLE_VERSION,
+    octahedralMode: defines.OCTAHEDRAL_USE_HEMI_OCTAHEDRON ? OctahedralMode.HEMISPHERICAL : OctahedralMode.SPHERICAL,
+    cameraType: defines.OCTAHEDRAL_PERSPECTIVE_ATLAS ? CameraType.PERSPECTIVE : CameraType.ORTHOGRAPHIC,
+    spritesPerSide: uniforms.spritesPerSide.value,
+    textureSize: textures.albedo.image.width,
+    scale: scale.x,
+    translation: translation.toArray(),
+    quaternion: impostor.quaternion.toArray() as [number, number, number, number],
+    boundingSphere: {
+      center: (boundingSphere?.center ?? translation).toArray(),
+      radius: boundingSphere?.radius ?? scale.x / 2
+    },
+    depthRange: {
+      near: bakeDepthRange.x,
+      far: bakeDepthRange.y,
+      cameraDistance: bakeDepthRange.z
+    },
+    normalDepthLayout,
+    gutter: Math.round(uniforms.spriteGutter.value * textures.albedo.image.width / uniforms.spritesPerSide.value),
+    ...(defines.OCTAHEDRAL_TRIMMED_FRAMES && { spriteBounds: getSpriteBounds(uniforms.spriteBounds!.value) }),
+    images,
+    encodings: imageEncodings
+  };
+}
+
+/**
+ * Returns the bounds stored in a sprite bounds texture, e.g. from createSpriteBoundsTexture.
+ */
+function getSpriteBounds(texture: Texture): number[] {
+  const data = texture.image?.data;
+
+  if (!(data instanceof Float32Array)) {
+    throw new Error('createImpostorBundleManifest: sprite bounds texture must hold float data');
+  }
+
+  return Array.from(data);
+}
+
+/**
+ * Returns the normal-depth layout an impostor material decodes.
+ */
+function getNormalDepthLayout(material: Material): NormalDepthLayout {
+  const defines = material.octahedralImpostorDefines ?? {};
+  if (defines.OCTAHEDRAL_PACKED_NORMAL) return NormalDepthLayout.PACKED_NORMAL;
+  if (defines.OCTAHEDRAL_PACKED_NORMAL_DEPTH) return NormalDepthLayout.PACKED;
+  return NormalDepthLayout.HALF_FLOAT;
+}
+
+/**
+ * Checks that a parsed manifest can be read by this version of the library.
+ *
+ * @param manifest - Parsed manifest
+ * @returns The manifest, typed
+ */
+export function validateImpostorBundleManifest(manifest: any): ImpostorBundleManifest {
+  if (manifest?.format !== IMPOSTOR_BUNDLE_FORMAT) {
+    throw new Error('Impostor bundle: not an octahedral impostor manifest');
+  }
+  if (!(manifest.version >= 1 && manifest.version <= IMPOSTOR_BUNDLE_VERSION)) {
+    throw new Error(`Impostor bundle: unsupported version ${manifest.version}`);
+  }
+  if (!manifest.images?.albedo || !manifest.images?.normalDepth) {
+    throw new Error('Impostor bundle: albedo and normalDepth images are required');
+  }
+
+  if (manifest.normalDepthLayout && !(Object.values(NormalDepthLayout) as string[]).includes(manifest.normalDepthLayout)) {
+    throw new Error(`Impostor bundle: unsupported normal-depth layout ${manifest.normalDepthLayout}`);
+  }
+
+  if (manifest.gutter !== undefined && !(manifest.gutter >= 0)) {
+    throw new Error(`Impostor bundle: invalid gutter ${manifest.gutter}`);
+  }
+
+  const spriteCount = manifest.spritesPerSide * manifest.spritesPerSide;
+  if (manifest.spriteBounds !== undefined && !(Array.isArray(manifest.spriteBounds) && manifest.spriteBounds.length === spriteCount * 4)) {
+    throw new Error(`Impostor bundle: expected sprite bounds for ${spriteCount} sprites`);
+  }
+
+  const encodings = Object.values(AtlasImageEncoding) as string[];
+  for (const [key, encoding] of Object.entries(manifest.encodings ?? {})) {
+    if (!encodings.includes(encoding as string)) {
+      throw new Error(`Impostor bundle: unsupported ${key} encoding ${encoding}`);
+    }
+  }
+
+  return manifest as ImpostorBundleManifest;
+}
+
+// ============================================================================
+// BUNDLE EXPORT
+// ============================================================================
+
+/**
+ * Impostor bundle held in memory: the manifest and the encoded files it references.
+ */
+export interface ImpostorBundle {
+  /** Bundle manifest */
+  manifest: ImpostorBundleManifest;
+  /** Encoded files by file name, including the `${name}.json` manifest */
+  files: Record<string, Uint8Array>;
+}
+
+/**
+ * Encodes an impostor as a bundle: `${name}.json` plus one image per atlas attachment.
+ * Normal-depth is stored as a 16-bit PNG by default so it reloads without precision loss.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param impostor - Impostor to export
+ * @param name - Base file name (without extension)
+ * @param encodings - Image encodings, merged over DEFAULT_IMPOSTOR_BUNDLE_ENCODINGS
+ * @returns Manifest and encoded files, ready to be written or uploaded
+ */
+export function createImpostorBundle(
+  renderer: WebGLRenderer,
+  impostor: OctahedralImpostor,
+  name: string,
+  encodings?: ImpostorBundleEncodings
+): ImpostorBundle {
+  const manifest = createImpostorBundleManifest(impostor, name, encodings);
+  const textures = getImpostorBundleTextures(impostor.material);
+  const files: Record<string, Uint8Array> = {};
+
+  (Object.keys(manifest.images) as ImpostorBundleImageKey[]).forEach((key) => {
+    const encoding = manifest.encodings![key]!;
+    const fileName = manifest.images[key]!;
+
+    if (encoding === AtlasImageEncoding.KTX2) {
+      files[fileName] = encodeCompressedTextureAsKTX2(textures[key] as CompressedTexture);
+    } else if (key === 'albedo' && encoding === AtlasImageEncoding.PNG8) {
+      // Whatever color space the albedo was baked in, 8 bits keep dark tones only when sRGB-encoded
+      files[fileName] = encodeTextureAsPNG(renderer, textures.albedo!, SRGBColorSpace);
+    } else {
+      files[fileName] = encodeTexture(renderer, textures[key]!, encoding);
+    }
+  });
+
+  files[`${name}.json`] = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+
+  return { manifest, files };
+}
+
+/**
+ * Exports an impostor as a downloadable bundle: `${name}.json` plus one image per atlas attachment.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param impostor - Impostor to export
+ * @param name - Base file name (without extension)
+ * @param encodings - Image encodings, merged over DEFAULT_IMPOSTOR_BUNDLE_ENCODINGS
+ */
+export function exportImpostorBundle(
+  renderer: WebGLRenderer,
+  impostor: OctahedralImpostor,
+  name: string,
+  encodings?: ImpostorBundleEncodings
+): void {
+  const { files } = createImpostorBundle(renderer, impostor, name, encodings);
+
+  Object.entries(files).forEach(([fileName, data]) => {
+    downloadFile(data, fileName, getBundleMimeType(fileName));
+  });
+}
+
+/**
+ * Returns the MIME type of a bundle file from its extension.
+ */
+function getBundleMimeType(fileName: string): string {
+  if (fileName.endsWith('.json')) return 'application/json';
+  if (fileName.endsWith('.exr')) return 'image/x-exr';
+  if (fileName.endsWith('.ktx2')) return 'image/ktx2';
+  return 'image/png';
+}
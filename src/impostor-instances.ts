@@ -0,0 +1,333 @@
+/**
+ * Instanced octahedral impostors
+ * Draws many copies of one baked impostor with per-instance position, scale, yaw and tint
+ */
+
+import {
+  Box3,
+  Color,
+  InstancedMesh,
+  Material,
+  Matrix4,
+  PlaneGeometry,
+  Quaternion,
+  Sphere,
+  Vector3
+} from 'three';
+
+import { computeObjectBoundingSphere, CreateOctahedralImpostor } from './octahedral-utils.js';
+import {
+  createOctahedralImpostorMaterial,
+  createOctahedralImpostorShadowMaterials
+} from './impostor-rendering.js';
+
+// ============================================================================
+// INSTANCE TYPES
+// ============================================================================
+
+/**
+ * Per-instance placement of an impostor.
+ * The placement describes where the original baked object would stand.
+ */
+export interface ImpostorInstance {
+  /** World position of the object origin */
+  position: Vector3;
+  /** Uniform scale relative to the baked object (default: 1) */
+  scale?: number;
+  /** Rotation around the Y axis in radians (default: 0) */
+  rotationY?: number;
+  /** Tint multiplied with the baked albedo (default: white) */
+  color?: Color;
+}
+
+// ============================================================================
+// SHARED RESOURCES
+// ============================================================================
+
+/** Shared plane geometry for all instanced impostors */
+const INSTANCES_PLANE_GEOMETRY = new PlaneGeometry();
+
+/** Billboard corners lie within this radius of the impostor center, in impostor units */
+const BILLBOARD_RADIUS = Math.SQRT1_2;
+
+const INSTANCE_RESOURCES = {
+  matrix: new Matrix4(),
+  quaternion: new Quaternion(),
+  scale: new Vector3(),
+  position: new Vector3(),
+  up: new Vector3(0, 1, 0),
+  sphere: new Sphere(),
+  white: new Color(1, 1, 1)
+};
+
+// ============================================================================
+// OCTAHEDRAL IMPOSTOR INSTANCES CLASS
+// ============================================================================
+
+/**
+ * Instanced counterpart of OctahedralImpostor.
+ * Instances are addressed by stable ids; removal swaps the last instance into the freed slot.
+ */
+export class OctahedralImpostorInstances<M extends Material = Material> extends InstancedMesh<PlaneGeometry, M> {
+  /** Flag indicating these are instanced octahedral impostors */
+  public readonly isOctahedralImpostorInstances = true;
+
+  private readonly positions: Float32Array;
+  private readonly scales: Float32Array;
+  private readonly rotations: Float32Array;
+  private readonly indexToId: Int32Array;
+  private readonly idToIndex = new Map<number, number>();
+  private nextId = 0;
+
+  /**
+   * Creates a new instanced impostor.
+   *
+   * @param materialOrParams - Either a pre-configured impostor material or parameters to create one
+   * @param capacity - Maximum number of instances
+   */
+  constructor(materialOrParams: M | CreateOctahedralImpostor<M>, capacity: number) {
+    if (!(capacity > 0)) throw new Error('OctahedralImpostorInstances: capacity must be greater than 0');
+
+    super(INSTANCES_PLANE_GEOMETRY, null!, capacity);
+
+    if (!(materialOrParams as M).isOctahedralImpostorMaterial) {
+      const params = materialOrParams as CreateOctahedralImpostor<M>;
+      const boundingSphere = computeObjectBoundingSphere(params.target, new Sphere(), true);
+
+      // Instances place the target origin, so the baked center is kept relative to it,
+      // expressed in the local frame of the target the atlas is baked in
+      const targetQuaternion = params.target.getWorldQuaternion(new Quaternion()).invert();
+      params.scale = boundingSphere.radius * 2;
+      params.translation = boundingSphere.center.clone()
+        .sub(params.target.getWorldPosition(new Vector3()))
+        .applyQuaternion(targetQuaternion);
+
+      this.material = createOctahedralImpostorMaterial(params);
+    } else {
+      this.material = materialOrParams as M;
+    }
+
+    const { depthMaterial, distanceMaterial } = createOctahedralImpostorShadowMaterials(this.material);
+    this.customDepthMaterial = depthMaterial;
+    this.customDistanceMaterial = distanceMaterial;
+
+    this.positions = new Float32Array(capacity * 3);
+    this.scales = new Float32Array(capacity);
+    this.rotations = new Float32Array(capacity);
+    this.indexToId = new Int32Array(capacity);
+    this.count = 0;
+  }
+
+  /** Maximum number of instances */
+  public get capacity(): number {
+    return this.scales.length;
+  }
+
+  /**
+   * Adds an instance.
+   *
+   * @param instance - Placement and tint of the new instance
+   * @returns Stable id of the instance
+   */
+  public addInstance(instance: ImpostorInstance): number {
+    if (this.count >= this.capacity) {
+      throw new Error(`OctahedralImpostorInstances: capacity of ${this.capacity} instances exceeded`);
+    }
+
+    const id = this.nextId++;
+    const index = this.count++;
+
+    this.indexToId[index] = id;
+    this.idToIndex.set(id, index);
+
+    this.positions.set([instance.position.x, instance.position.y, instance.position.z], index * 3);
+    this.scales[index] = instance.scale ?? 1;
+    this.rotations[index] = instance.rotationY ?? 0;
+    this.composeInstance(index);
+    this.setInstanceColor(index, instance.color ?? INSTANCE_RESOURCES.white);
+
+    return id;
+  }
+
+  /**
+   * Removes an instance.
+   *
+   * @param id - Id returned by addInstance
+   * @returns Whether an instance was removed
+   */
+  public removeInstance(id: number): boolean {
+    const index = this.idToIndex.get(id);
+    if (index === undefined) return false;
+
+    const lastIndex = --this.count;
+    this.idToIndex.delete(id);
+
+    if (index !== lastIndex) {
+      // Move the last instance into the freed slot to keep the draw range packed
+      const movedId = this.indexToId[lastIndex];
+      this.indexToId[index] = movedId;
+      this.idToIndex.set(movedId, index);
+
+      this.positions.copyWithin(index * 3, lastIndex * 3, lastIndex * 3 + 3);
+      this.scales[index] = this.scales[lastIndex];
+      this.rotations[index] = this.rotations[lastIndex];
+      this.instanceMatrix.array.copyWithin(index * 16, lastIndex * 16, lastIndex * 16 + 16);
+
+      if (this.instanceColor) {
+        this.instanceColor.array.copyWithin(index * 3, lastIndex * 3, lastIndex * 3 + 3);
+        this.instanceColor.needsUpdate = true;
+      }
+    }
+
+    this.instanceMatrix.needsUpdate = true;
+    this.invalidateBounds();
+    return true;
+  }
+
+  /**
+   * Updates the placement and/or tint of an instance.
+   *
+   * @param id - Id returned by addInstance
+   * @param updates - Properties to change
+   */
+  public updateInstance(id: number, updates: Partial<ImpostorInstance>): void {
+    const index = this.getInstanceIndex(id);
+
+    if (updates.position) this.positions.set([updates.position.x, updates.position.y, updates.position.z], index * 3);
+    if (updates.scale !== undefined) this.scales[index] = updates.scale;
+    if (updates.rotationY !== undefined) this.rotations[index] = updates.rotationY;
+
+    if (updates.position || updates.scale !== undefined || updates.rotationY !== undefined) {
+      this.composeInstance(index);
+    }
+    if (updates.color) {
+      this.setInstanceColor(index, updates.color);
+    }
+  }
+
+  /**
+   * Reads back the placement and tint of an instance.
+   *
+   * @param id - Id returned by addInstance
+   * @param target - Optional target to store the result
+   */
+  public getInstance(id: number, target: Required<ImpostorInstance> = {
+    position: new Vector3(),
+    scale: 1,
+    rotationY: 0,
+    color: new Color()
+  }): Required<ImpostorInstance> {
+    const index = this.getInstanceIndex(id);
+
+    target.position.fromArray(this.positions, index * 3);
+    target.scale = this.scales[index];
+    target.rotationY = this.rotations[index];
+
+    if (this.instanceColor) {
+      this.getColorAt(index, target.color);
+    } else {
+      target.color.copy(INSTANCE_RESOURCES.white);
+    }
+
+    return target;
+  }
+
+  /**
+   * Returns whether an instance id is currently in use.
+   */
+  public hasInstance(id: number): boolean {
+    return this.idToIndex.has(id);
+  }
+
+  /**
+   * Computes a bounding box enclosing every billboard orientation of every instance.
+   */
+  public override computeBoundingBox(): void {
+    if (this.boundingBox === null) {
+      this.boundingBox = new Box3();
+    }
+
+    this.boundingBox.makeEmpty();
+    const { matrix, sphere } = INSTANCE_RESOURCES;
+
+    for (let i = 0; i < this.count; i++) {
+      this.getBillboardSphere(i, matrix, sphere);
+      this.boundingBox.union(sphere.getBoundingBox(new Box3()));
+    }
+  }
+
+  /**
+   * Computes a bounding sphere enclosing every billboard orientation of every instance.
+   * Unlike InstancedMesh, this accounts for the impostor transform applied in the shader.
+   */
+  public override computeBoundingSphere(): void {
+    if (this.boundingSphere === null) {
+      this.boundingSphere = new Sphere();
+    }
+
+    this.boundingSphere.makeEmpty();
+    const { matrix, sphere } = INSTANCE_RESOURCES;
+
+    for (let i = 0; i < this.count; i++) {
+      this.getBillboardSphere(i, matrix, sphere);
+      this.boundingSphere.union(sphere);
+    }
+  }
+
+  /**
+   * Computes the sphere swept by the billboard of an instance.
+   */
+  private getBillboardSphere(index: number, matrix: Matrix4, target: Sphere): Sphere {
+    this.getMatrixAt(index, matrix);
+
+    const transform = this.material.octahedralImpostorUniforms?.transform.value;
+    if (transform) matrix.multiply(transform);
+
+    target.center.set(0, 0, 0);
+    target.radius = BILLBOARD_RADIUS;
+    return target.applyMatrix4(matrix);
+  }
+
+  /**
+   * Rebuilds the instance matrix from the stored position, yaw and scale.
+   */
+  private composeInstance(index: number): void {
+    const { matrix, position, quaternion, scale, up } = INSTANCE_RESOURCES;
+
+    position.fromArray(this.positions, index * 3);
+    quaternion.setFromAxisAngle(up, this.rotations[index]);
+    scale.setScalar(this.scales[index]);
+    matrix.compose(position, quaternion, scale);
+
+    this.setMatrixAt(index, matrix);
+    this.instanceMatrix.needsUpdate = true;
+    this.invalidateBounds();
+  }
+
+  /**
+   * Writes the tint of an instance.
+   */
+  private setInstanceColor(index: number, color: Color): void {
+    this.setColorAt(index, color);
+    this.instanceColor!.needsUpdate = true;
+  }
+
+  /**
+   * Resolves the current index of an instance id.
+   */
+  private getInstanceIndex(id: number): number {
+    const index = this.idToIndex.get(id);
+    if (index === undefined) {
+      throw new Error(`OctahedralImpostorInstances: unknown instance id ${id}`);
+    }
+    return index;
+  }
+
+  /**
+   * Marks bounds for lazy recomputation by the renderer.
+   */
+  private invalidateBounds(): void {
+    this.boundingSphere = null;
+    this.boundingBox = null;
+  }
+}
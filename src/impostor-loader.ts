@@ -0,0 +1,301 @@
+/**
+ * Loader for impostor asset bundles
+ * Rebuilds a ready-to-render OctahedralImpostor from a bundle manifest and its images, without baking
+ */
+
+import {
+  DataTexture,
+  DataUtils,
+  FileLoader,
+  HalfFloatType,
+  LinearFilter,
+  LoaderUtils,
+  Loader,
+  LoadingManager,
+  Material,
+  MeshStandardMaterial,
+  NearestFilter,
+  RGBAFormat,
+  SRGBColorSpace,
+  Texture,
+  TextureLoader,
+  UnsignedByteType,
+  Vector3
+} from 'three';
+import { EXRLoader } from 'three/addons/loaders/EXRLoader.js';
+
+import {
+  AtlasImageEncoding,
+  ImpostorAtlasTextures,
+  MaterialConstructor,
+  NormalDepthLayout,
+  OctahedralImpostorMaterial
+} from './octahedral-utils.js';
+import { OctahedralImpostor, createOctahedralImpostorMaterialFromTextures } from './impostor-rendering.js';
+import {
+  ImpostorBundleImageKey,
+  ImpostorBundleManifest,
+  validateImpostorBundleManifest
+} from './impostor-bundle.js';
+import { decodePNG } from './png-decoder.js';
+import { createTextureFromKTX2 } from './ktx2.js';
+import { createSpriteBoundsTexture } from './sprite-bounds.js';
+
+/** Material options that can be applied on top of a loaded bundle */
+export type ImpostorLoaderMaterialOptions = Omit<OctahedralImpostorMaterial, 'scale' | 'translation'>;
+
+/**
+ * Three.js loader for impostor bundles (JSON manifest + atlas images).
+ * Image paths in the manifest are resolved relative to the manifest URL, or to the resource path if set.
+ *
+ * @example
+ * const loader = new ImpostorLoader().setMaterialType(MeshStandardMaterial);
+ * const impostor = await loader.loadAsync('/impostors/tree.json');
+ * scene.add(impostor);
+ */
+export class ImpostorLoader<M extends Material = Material> extends Loader<OctahedralImpostor<M>> {
+  private materialType: MaterialConstructor<M> = MeshStandardMaterial as unknown as MaterialConstructor<M>;
+  private materialOptions: ImpostorLoaderMaterialOptions = {};
+
+  /**
+   * Creates a new impostor loader.
+   *
+   * @param manager - Optional loading manager
+   */
+  constructor(manager?: LoadingManager) {
+    super(manager);
+  }
+
+  /**
+   * Sets the base material type of loaded impostors (default: MeshStandardMaterial).
+   */
+  public setMaterialType<T extends Material>(materialType: MaterialConstructor<T>): ImpostorLoader<T> {
+    const loader = this as unknown as ImpostorLoader<T>;
+    loader.materialType = materialType;
+    return loader;
+  }
+
+  /**
+   * Sets rendering options (transparency, blending, parallax...) applied to loaded impostors.
+   */
+  public setMaterialOptions(options: ImpostorLoaderMaterialOptions): this {
+    this.materialOptions = { ...options };
+    return this;
+  }
+
+  /**
+   * Loads a bundle manifest and its images.
+   *
+   * @param url - URL of the bundle manifest
+   * @param onLoad - Called with the rebuilt impostor
+   * @param onProgress - Called while the manifest downloads
+   * @param onError - Called if loading or parsing fails
+   */
+  public override load(
+    url: string,
+    onLoad: (impostor: OctahedralImpostor<M>) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    const resourcePath = this.resourcePath || LoaderUtils.extractUrlBase(this.path + url);
+
+    const fileLoader = new FileLoader(this.manager);
+    fileLoader.setPath(this.path);
+    fileLoader.setRequestHeader(this.requestHeader);
+    fileLoader.setWithCredentials(this.withCredentials);
+
+    this.manager.itemStart(url);
+
+    fileLoader.load(url, (text) => {
+      this.parse(text as string, resourcePath)
+        .then(onLoad)
+        .catch((error) => {
+          if (onError) onError(error);
+          else console.error(error);
+          this.manager.itemError(url);
+        })
+        .finally(() => this.manager.itemEnd(url));
+    }, onProgress, (error) => {
+      if (onError) onError(error);
+      else console.error(error);
+      this.manager.itemError(url);
+      this.manager.itemEnd(url);
+    });
+  }
+
+  /**
+   * Builds an impostor from a bundle manifest, loading the referenced images.
+   *
+   * @param json - Manifest as JSON text or parsed object
+   * @param resourcePath - Base path used to resolve image file names
+   * @returns Ready-to-render impostor
+   */
+  public async parse(json: string | ImpostorBundleManifest, resourcePath = this.resourcePath): Promise<OctahedralImpostor<M>> {
+    const manifest = validateImpostorBundleManifest(typeof json === 'string' ? JSON.parse(json) : json);
+    const textures = await this.loadImages(manifest, resourcePath);
+
+    const material = createOctahedralImpostorMaterialFromTextures({
+      ...this.materialOptions,
+      ...textures,
+      baseType: this.materialType,
+      octahedralMode: manifest.octahedralMode,
+      cameraType: manifest.cameraType,
+      spritesPerSide: manifest.spritesPerSide,
+      normalDepthLayout: manifest.normalDepthLayout ?? NormalDepthLayout.HALF_FLOAT,
+      gutter: manifest.gutter ?? 0,
+      scale: manifest.scale,
+      translation: new Vector3().fromArray(manifest.translation)
+    });
+
+    const impostor = new OctahedralImpostor(material);
+    impostor.scale.setScalar(manifest.scale);
+    impostor.position.fromArray(manifest.translation);
+    impostor.quaternion.fromArray(manifest.quaternion);
+
+    return impostor;
+  }
+
+  /**
+   * Loads the atlas images of a manifest and configures them like freshly baked attachments.
+   * Sprite bounds are stored in the manifest itself and rebuilt as a texture.
+   */
+  private async loadImages(manifest: ImpostorBundleManifest, resourcePath: string): Promise<ImpostorAtlasTextures> {
+    const keys = Object.keys(manifest.images) as ImpostorBundleImageKey[];
+    const loaded = await Promise.all(keys.map((key) => {
+      const encoding = manifest.encodings?.[key] ?? AtlasImageEncoding.PNG8;
+      // Packed texels store data in alpha, which browser image decoding may premultiply away
+      const exact = key === 'normalDepth' && manifest.normalDepthLayout === NormalDepthLayout.PACKED;
+      return this.loadImage(manifest.images[key]!, encoding, resourcePath, exact);
+    }));
+
+    const textures: { [key in ImpostorBundleImageKey]?: Texture } = {};
+    keys.forEach((key, index) => {
+      textures[key] = configureBundleTexture(loaded[index], key);
+    });
+
+    // 8-bit albedo is stored sRGB-encoded since version 5, as the atlas attachment is
+    if (manifest.version >= 5 && (manifest.encodings?.albedo ?? AtlasImageEncoding.PNG8) === AtlasImageEncoding.PNG8) {
+      textures.albedo!.colorSpace = SRGBColorSpace;
+    }
+
+    return {
+      albedo: textures.albedo!,
+      normalDepth: textures.normalDepth!,
+      depthRange: { ...manifest.depthRange },
+      ...(textures.orm && { orm: textures.orm }),
+      ...(textures.emissive && { emissive: textures.emissive }),
+      ...(manifest.spriteBounds && {
+        spriteBounds: createSpriteBoundsTexture(new Float32Array(manifest.spriteBounds), manifest.spritesPerSide)
+      })
+    };
+  }
+
+  /**
+   * Loads one bundle image, undoing its encoding.
+   * 16-bit PNGs are decoded in script since browsers reduce them to 8 bits,
+   * as are 8-bit PNGs whose values must be read back exactly.
+   */
+  private async loadImage(url: string, encoding: AtlasImageEncoding, resourcePath: string, exact: boolean): Promise<Texture> {
+    switch (encoding) {
+      case AtlasImageEncoding.PNG16:
+      case AtlasImageEncoding.PNG16_SIGNED: {
+        const buffer = await this.loadBuffer(url, resourcePath);
+        return createTextureFromPNG(buffer, encoding === AtlasImageEncoding.PNG16_SIGNED);
+      }
+
+      case AtlasImageEncoding.KTX2:
+        return createTextureFromKTX2(await this.loadBuffer(url, resourcePath));
+
+      case AtlasImageEncoding.EXR: {
+        const exrLoader = new EXRLoader(this.manager);
+        exrLoader.setPath(resourcePath);
+        exrLoader.setRequestHeader(this.requestHeader);
+        exrLoader.setWithCredentials(this.withCredentials);
+        exrLoader.setDataType(HalfFloatType);
+
+        return exrLoader.loadAsync(url);
+      }
+
+      case AtlasImageEncoding.PNG8:
+      default: {
+        if (exact) {
+          return createTextureFromPNG(await this.loadBuffer(url, resourcePath), false);
+        }
+
+        const textureLoader = new TextureLoader(this.manager);
+        textureLoader.setPath(resourcePath);
+        textureLoader.setCrossOrigin(this.crossOrigin);
+        textureLoader.setRequestHeader(this.requestHeader);
+
+        return textureLoader.loadAsync(url);
+      }
+    }
+  }
+
+  /**
+   * Loads a file as raw bytes.
+   */
+  private async loadBuffer(url: string, resourcePath: string): Promise<ArrayBuffer> {
+    const fileLoader = new FileLoader(this.manager);
+    fileLoader.setPath(resourcePath);
+    fileLoader.setResponseType('arraybuffer');
+    fileLoader.setRequestHeader(this.requestHeader);
+    fileLoader.setWithCredentials(this.withCredentials);
+
+    return await fileLoader.loadAsync(url) as ArrayBuffer;
+  }
+}
+
+/**
+ * Builds a texture from an RGBA PNG exported by encodeTextureAsPNG or encodeTextureAsPNG16.
+ * 8-bit images keep their bytes, 16-bit images become half-float textures.
+ *
+ * @param buffer - PNG file bytes
+ * @param signed - Whether RGB was remapped from [-1, 1] and must be expanded back (16-bit only)
+ * @returns Texture with rows ordered bottom to top, like a render target attachment
+ */
+function createTextureFromPNG(buffer: ArrayBuffer, signed: boolean): DataTexture {
+  const { width, height, channels, bitDepth, data } = decodePNG(buffer);
+
+  if (channels !== 4) {
+    throw new Error(`Impostor bundle: expected an RGBA PNG, got ${channels} channels`);
+  }
+
+  const rowLength = width * 4;
+  const pixels = bitDepth === 16 ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const srcRow = y * rowLength;
+    const dstRow = (height - y - 1) * rowLength;
+
+    if (bitDepth === 8) {
+      pixels.set(data.subarray(srcRow, srcRow + rowLength), dstRow);
+      continue;
+    }
+
+    for (let i = 0; i < rowLength; i++) {
+      const value = data[srcRow + i] / 65535;
+      const isColor = (i & 3) !== 3;
+      pixels[dstRow + i] = DataUtils.toHalfFloat(signed && isColor ? value * 2 - 1 : value);
+    }
+  }
+
+  return new DataTexture(pixels, width, height, RGBAFormat, bitDepth === 16 ? HalfFloatType : UnsignedByteType);
+}
+
+/**
+ * Applies the filtering each atlas attachment is baked with.
+ * Images keep their stored values (no color space conversion) unless tagged sRGB by loadImages.
+ * Mipmaps are disabled since they would bleed neighbouring sprites into each other.
+ */
+function configureBundleTexture(texture: Texture, key: ImpostorBundleImageKey): Texture {
+  const isNormalDepth = key === 'normalDepth';
+
+  texture.name = key;
+  texture.generateMipmaps = false;
+  texture.minFilter = isNormalDepth ? NearestFilter : LinearFilter;
+  texture.magFilter = isNormalDepth ? NearestFilter : LinearFilter;
+  texture.needsUpdate = true;
+
+  return texture;
+}
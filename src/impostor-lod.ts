@@ -0,0 +1,266 @@
+/**
+ * Level of detail switching between a source mesh and its octahedral impostor
+ * Handles distance hysteresis and screen-door crossfading between both representations
+ */
+
+import {
+  Camera,
+  IUniform,
+  Material,
+  Mesh,
+  Object3D,
+  OrthographicCamera,
+  PerspectiveCamera,
+  Vector3
+} from 'three';
+
+import { DITHER_FADE_FUNCTIONS, OctahedralImpostor, createOctahedralImpostorFadeMaterial } from './impostor-rendering.js';
+
+// ============================================================================
+// LOD CONFIGURATION
+// ============================================================================
+
+/** Configuration for an impostor LOD */
+export interface ImpostorLODParams {
+  /** Camera distance beyond which the impostor replaces the source mesh */
+  distance: number;
+  /** Fraction of the distance the camera must come back before switching to the mesh again (default: 0.1) */
+  hysteresis?: number;
+  /** Crossfade duration in seconds, 0 switches instantly (default: 0.3) */
+  fadeDuration?: number;
+}
+
+/** Default impostor LOD configuration */
+export const DEFAULT_LOD_CONFIG = {
+  HYSTERESIS: 0.1,
+  FADE_DURATION: 0.3
+} as const;
+
+// ============================================================================
+// SOURCE MATERIAL DITHERING
+// ============================================================================
+
+/**
+ * Fragment shader parameters for dithered fading of source materials.
+ * Uses the same pattern as the impostor shader so both crossfade without overlap.
+ */
+const LOD_DITHER_PARS_FRAGMENT = /* glsl */ `
+  uniform float lodFade;
+
+  ${DITHER_FADE_FUNCTIONS}
+`;
+
+/**
+ * Fragment shader chunk discarding dithered-out fragments of source materials.
+ */
+const LOD_DITHER_FRAGMENT = /* glsl */ `
+  if (isDitheredOut(lodFade)) discard;
+`;
+
+/**
+ * Creates a copy of a source mesh material that is dithered out according to a fade uniform.
+ */
+function createSourceFadeMaterial(material: Material, lodFade: IUniform<number>): Material {
+  const fadeMaterial = material.clone();
+  const originalOnBeforeCompile = material.onBeforeCompile;
+
+  fadeMaterial.onBeforeCompile = (shader, renderer) => {
+    originalOnBeforeCompile.call(fadeMaterial, shader, renderer);
+
+    shader.uniforms.lodFade = lodFade;
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <clipping_planes_pars_fragment>', `#include <clipping_planes_pars_fragment>\n${LOD_DITHER_PARS_FRAGMENT}`)
+      .replace('#include <clipping_planes_fragment>', `#include <clipping_planes_fragment>\n${LOD_DITHER_FRAGMENT}`);
+  };
+
+  fadeMaterial.customProgramCacheKey = () => `impostor_lod_fade_${material.customProgramCacheKey()}`;
+
+  return fadeMaterial;
+}
+
+// ============================================================================
+// IMPOSTOR LOD CLASS
+// ============================================================================
+
+/** Reusable vectors for distance calculations */
+const LOD_VECTORS = {
+  camera: new Vector3(),
+  object: new Vector3()
+};
+
+/**
+ * Level of detail object similar to THREE.LOD, owning a source mesh and its impostor.
+ * Call update(camera) every frame to switch between them and animate the crossfade.
+ */
+export class ImpostorLOD extends Object3D {
+  /** Flag indicating this is an impostor LOD */
+  public readonly isImpostorLOD = true;
+  /** Detailed representation shown close to the camera */
+  public readonly source: Object3D;
+  /** Impostor shown far from the camera */
+  public readonly impostor: OctahedralImpostor;
+  /** Camera distance beyond which the impostor is shown */
+  public distance: number;
+  /** Fraction of the distance used as a dead band before switching back to the mesh */
+  public hysteresis: number;
+  /** Crossfade duration in seconds */
+  public fadeDuration: number;
+
+  /** Visibility of the source mesh: 1 = mesh only, 0 = impostor only */
+  private sourceVisibility = 1;
+  private showImpostor = false;
+  private lastUpdateTime = -1;
+  private isFading = false;
+
+  private readonly sourceFade: IUniform<number> = { value: 1 };
+  private readonly impostorFade: IUniform<number> = { value: 0 };
+  private impostorMaterial: Material | null = null;
+  private impostorFadeMaterial: Material | null = null;
+  private readonly sourceMaterials = new Map<Mesh, Material | Material[]>();
+  private readonly sourceFadeMaterials = new Map<Material, Material>();
+
+  /**
+   * Creates a new impostor LOD.
+   *
+   * @param source - Detailed object, usually the target the impostor was baked from
+   * @param impostor - Impostor of the source object
+   * @param params - Switch distance, hysteresis and crossfade configuration
+   */
+  constructor(source: Object3D, impostor: OctahedralImpostor, params: ImpostorLODParams) {
+    super();
+
+    if (!source) throw new Error('ImpostorLOD: source is required');
+    if (!impostor) throw new Error('ImpostorLOD: impostor is required');
+    if (!(params?.distance > 0)) throw new Error('ImpostorLOD: distance must be greater than 0');
+
+    this.source = source;
+    this.impostor = impostor;
+    this.distance = params.distance;
+    this.hysteresis = params.hysteresis ?? DEFAULT_LOD_CONFIG.HYSTERESIS;
+    this.fadeDuration = params.fadeDuration ?? DEFAULT_LOD_CONFIG.FADE_DURATION;
+
+    this.add(source, impostor);
+    this.applyVisibility();
+  }
+
+  /**
+   * Returns whether the impostor is (or is fading towards being) the displayed representation.
+   */
+  public isShowingImpostor(): boolean {
+    return this.showImpostor;
+  }
+
+  /**
+   * Updates the displayed representation based on the camera distance.
+   *
+   * @param camera - Camera used for rendering
+   * @param time - Current time in seconds (default: performance.now())
+   */
+  public update(camera: Camera, time = performance.now() / 1000): void {
+    const deltaTime = this.lastUpdateTime < 0 ? 0 : Math.max(0, time - this.lastUpdateTime);
+    this.lastUpdateTime = time;
+
+    LOD_VECTORS.camera.setFromMatrixPosition(camera.matrixWorld);
+    LOD_VECTORS.object.setFromMatrixPosition(this.matrixWorld);
+    const zoom = (camera as PerspectiveCamera | OrthographicCamera).zoom ?? 1;
+    const distance = LOD_VECTORS.camera.distanceTo(LOD_VECTORS.object) / zoom;
+
+    // Hysteresis: switch out at the distance, switch back in only once clearly closer
+    if (!this.showImpostor && distance > this.distance) {
+      this.showImpostor = true;
+    } else if (this.showImpostor && distance < this.distance * (1 - this.hysteresis)) {
+      this.showImpostor = false;
+    }
+
+    const targetVisibility = this.showImpostor ? 0 : 1;
+
+    if (this.fadeDuration <= 0 || (deltaTime === 0 && !this.isFading)) {
+      this.sourceVisibility = targetVisibility;
+    } else {
+      const step = deltaTime / this.fadeDuration;
+      this.sourceVisibility = targetVisibility > this.sourceVisibility
+        ? Math.min(targetVisibility, this.sourceVisibility + step)
+        : Math.max(targetVisibility, this.sourceVisibility - step);
+    }
+
+    this.applyVisibility();
+  }
+
+  /**
+   * Releases the fade materials created for crossfading.
+   * The source and impostor materials are left untouched.
+   */
+  public dispose(): void {
+    this.setFading(false);
+    this.impostorFadeMaterial?.dispose();
+    this.impostorFadeMaterial = null;
+    this.sourceFadeMaterials.forEach((material) => material.dispose());
+    this.sourceFadeMaterials.clear();
+  }
+
+  /**
+   * Applies the current source visibility to both representations.
+   */
+  private applyVisibility(): void {
+    const visibility = this.sourceVisibility;
+    const fading = visibility > 0 && visibility < 1;
+
+    this.setFading(fading);
+
+    // Complementary patterns: the impostor keeps exactly the pixels the source discards
+    this.sourceFade.value = visibility;
+    this.impostorFade.value = visibility - 1;
+
+    this.source.visible = visibility > 0;
+    this.impostor.visible = visibility < 1;
+  }
+
+  /**
+   * Swaps fade materials in or out at the start and end of a crossfade.
+   * Shared materials are only replaced while fading, so settled LODs keep batching friendly state.
+   */
+  private setFading(fading: boolean): void {
+    if (fading === this.isFading) return;
+    this.isFading = fading;
+
+    if (fading) {
+      this.impostorMaterial = this.impostor.material;
+      this.impostorFadeMaterial ??= createOctahedralImpostorFadeMaterial(this.impostorMaterial, this.impostorFade);
+      this.impostor.material = this.impostorFadeMaterial;
+
+      this.source.traverse((object) => {
+        const mesh = object as Mesh;
+        if (!mesh.isMesh || !mesh.material) return;
+
+        this.sourceMaterials.set(mesh, mesh.material);
+        mesh.material = Array.isArray(mesh.material)
+          ? mesh.material.map((material) => this.getSourceFadeMaterial(material))
+          : this.getSourceFadeMaterial(mesh.material);
+      });
+    } else {
+      if (this.impostorMaterial) {
+        this.impostor.material = this.impostorMaterial;
+        this.impostorMaterial = null;
+      }
+
+      this.sourceMaterials.forEach((material, mesh) => {
+        mesh.material = material;
+      });
+      this.sourceMaterials.clear();
+    }
+  }
+
+  /**
+   * Returns the cached fade variant of a source material.
+   */
+  private getSourceFadeMaterial(material: Material): Material {
+    let fadeMaterial = this.sourceFadeMaterials.get(material);
+
+    if (!fadeMaterial) {
+      fadeMaterial = createSourceFadeMaterial(material, this.sourceFade);
+      this.sourceFadeMaterials.set(material, fadeMaterial);
+    }
+
+    return fadeMaterial;
+  }
+}
@@ -0,0 +1,503 @@
+/**
+ * Octahedral impostor node material for WebGPURenderer
+ * TSL port of the GLSL impostor shader chunks: frame selection, billboarding, blending and normal-mapped lighting
+ */
+
+import { InstancedMesh, Texture, Vector3 } from 'three';
+import {
+  InstanceNode,
+  MeshStandardNodeMaterial,
+  Node,
+  NodeBuilder,
+  PropertyNode,
+  StackNode,
+  TextureNode,
+  UniformNode
+} from 'three/webgpu';
+import {
+  abs,
+  cameraPosition,
+  cameraProjectionMatrix,
+  cameraViewMatrix,
+  cameraWorldMatrix,
+  ceil,
+  clamp,
+  cross,
+  Discard,
+  dot,
+  float,
+  floor,
+  Fn,
+  fract,
+  If,
+  int,
+  length,
+  max,
+  min,
+  modelNormalMatrix,
+  modelWorldMatrixInverse,
+  nodeObject,
+  normalize,
+  positionGeometry,
+  select,
+  ShaderNodeObject,
+  sign,
+  texture,
+  uniform,
+  uv,
+  varyingProperty,
+  vec2,
+  vec3,
+  vec4
+} from 'three/tsl';
+
+import {
+  computeFrameBasis,
+  getCameraDirection,
+  getDominantWeights,
+  selectFrames,
+  ShaderMath
+} from './octahedral-functions.js';
+import { DEFAULT_CONFIG, NormalDepthLayout, OctahedralMode } from './octahedral-utils.js';
+
+// ============================================================================
+// NODE MATERIAL TYPES
+// ============================================================================
+
+/** TSL node object, as returned by the TSL functions */
+type TSLNode = ShaderNodeObject<Node>;
+
+/** Texture node object, sampled with atlas UVs */
+type TSLTextureNode = ShaderNodeObject<TextureNode>;
+
+/** Varying node object, written by the billboard and read by fragment nodes */
+type TSLVaryingNode = ShaderNodeObject<PropertyNode>;
+
+/**
+ * Parameters for the octahedral impostor node material.
+ * Textures are read as they were baked, see ImpostorAtlasTextures.
+ */
+export interface OctahedralImpostorNodeMaterialParameters {
+  /** RGB albedo atlas */
+  albedo: Texture;
+  /** RGBA normal-depth atlas, lighting uses the billboard normal without it */
+  normalDepth?: Texture;
+  /** Storage layout of the normal-depth atlas (default: HALF_FLOAT) */
+  normalDepthLayout?: NormalDepthLayout;
+  /** RGB occlusion/roughness/metalness atlas */
+  orm?: Texture;
+  /** Octahedral mapping mode the atlas was baked with */
+  octahedralMode: OctahedralMode;
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Texels left empty on each side of every sprite the atlas was baked with (default: 0) */
+  gutter?: number;
+  /** Alpha threshold below which fragments are discarded (default: 0.1) */
+  alphaClamp?: number;
+  /** Whether to use only the closest frame instead of blending three (default: false) */
+  disableBlending?: boolean;
+  /** Elevation threshold above which hemispherical impostors tilt upward (default: 2) */
+  hybridDistance?: number;
+  /** Whether to keep the baked alpha instead of rendering opaque texels (default: false) */
+  transparent?: boolean;
+  /** Scale applied to instances, the bounding sphere diameter times the frame scale of the bake (default: 1) */
+  scale?: number;
+  /** Offset applied to instances, the bounding sphere center relative to the instance origin (default: origin) */
+  translation?: Vector3;
+}
+
+/**
+ * Uniforms of the octahedral impostor node material, shared by the color and shadow passes.
+ */
+export interface OctahedralImpostorNodeUniforms {
+  /** Number of sprites per side of the atlas */
+  spritesPerSide: ShaderNodeObject<UniformNode<number>>;
+  /** Empty border on each side of a sprite, as a fraction of the sprite size */
+  spriteGutter: ShaderNodeObject<UniformNode<number>>;
+  /** Alpha threshold for transparency testing */
+  alphaClamp: ShaderNodeObject<UniformNode<number>>;
+  /** Flag to disable triplanar blending */
+  disableBlending: ShaderNodeObject<UniformNode<number>>;
+  /** Elevation threshold above which impostor can tilt upward */
+  hybridDistance: ShaderNodeObject<UniformNode<number>>;
+  /** Scale applied on top of the instance matrix */
+  scale: ShaderNodeObject<UniformNode<number>>;
+  /** Offset applied on top of the instance matrix, scaled by it */
+  translation: ShaderNodeObject<UniformNode<Vector3>>;
+}
+
+/** Varyings passed from the billboard to the fragment stage */
+const IMPOSTOR_VARYINGS = {
+  /** xyz: weights of the three frames, w: whether the second frame is on the next column */
+  spritesWeight: varyingProperty('vec4', 'vImpostorSpritesWeight'),
+  sprite1: varyingProperty('vec2', 'vImpostorSprite1'),
+  sprite2: varyingProperty('vec2', 'vImpostorSprite2'),
+  sprite3: varyingProperty('vec2', 'vImpostorSprite3'),
+  /** Columns of the instance transform, rotating baked normals out of the impostor frame */
+  basisX: varyingProperty('vec3', 'vImpostorBasisX'),
+  basisY: varyingProperty('vec3', 'vImpostorBasisY'),
+  basisZ: varyingProperty('vec3', 'vImpostorBasisZ')
+};
+
+// ============================================================================
+// TSL SHADER MATH
+// ============================================================================
+
+/** Wraps number operands, so their methods can be called */
+const toNode = (value: TSLNode | number): TSLNode => (typeof value === 'number' ? float(value) : value);
+
+/**
+ * TSL implementation of the shader math the octahedral functions are written with.
+ * @internal
+ */
+export const TSL_SHADER_MATH: ShaderMath<TSLNode> = {
+  float: (value) => float(value),
+  vec2: (x, y) => vec2(x, y),
+  vec3: (x, y, z) => vec3(x, y, z),
+  vec4: (x, y, z, w) => vec4(x, y, z, w),
+  swizzle: (value, components) => (value as unknown as Record<string, TSLNode>)[components],
+  add: (a, b) => toNode(a).add(b),
+  sub: (a, b) => toNode(a).sub(b),
+  mul: (a, b) => toNode(a).mul(b),
+  div: (a, b) => toNode(a).div(b),
+  abs: (value) => abs(value),
+  sign: (value) => sign(value),
+  floor: (value) => floor(value),
+  ceil: (value) => ceil(value),
+  fract: (value) => fract(value),
+  min: (a, b) => min(a, b),
+  dot: (a, b) => dot(a, b),
+  cross: (a, b) => cross(a, b),
+  length: (value) => length(value),
+  normalize: (value) => normalize(value),
+  greaterThan: (a, b) => a.greaterThan(b),
+  greaterThanEqual: (a, b) => a.greaterThanEqual(b),
+  lessThan: (a, b) => a.lessThan(b),
+  and: (a, b) => a.and(b),
+  select: (condition, a, b) => select(condition, a, b),
+  // TSL names are not deduplicated, so variables keep generated names
+  toVar: (value) => value.toVar()
+};
+
+// ============================================================================
+// OCTAHEDRAL IMPOSTOR NODE MATERIAL
+// ============================================================================
+
+/**
+ * Octahedral impostor material for WebGPURenderer, with the features of the GLSL material:
+ * spherical and hemispherical frames, hybrid elevation, frame blending, alpha clamp,
+ * normal-mapped lighting, shadows and instancing.
+ *
+ * Draw it on a unit PlaneGeometry scaled like OctahedralImpostor (bounding sphere diameter times the frame scale),
+ * or on an InstancedMesh with scale and translation set. Instance matrices must be similarity transforms
+ * (rotation, uniform scale and translation), as billboards can't be sheared.
+ */
+export class OctahedralImpostorNodeMaterial extends MeshStandardNodeMaterial {
+  /** Flag indicating this is an octahedral impostor node material */
+  public readonly isOctahedralImpostorNodeMaterial = true;
+
+  /** Uniforms driving frame selection and blending */
+  public readonly impostorUniforms: OctahedralImpostorNodeUniforms;
+
+  /** Octahedral layout the atlas was baked with */
+  public readonly octahedralMode: OctahedralMode;
+
+  /**
+   * Creates a new octahedral impostor node material.
+   *
+   * @param parameters - Atlas textures, the layout they were baked with and material configuration
+   */
+  constructor(parameters: OctahedralImpostorNodeMaterialParameters) {
+    super();
+
+    const { albedo, normalDepth, orm, spritesPerSide } = parameters;
+
+    if (!albedo) throw new Error('OctahedralImpostorNodeMaterial: albedo is required');
+    if (!parameters.octahedralMode) throw new Error('OctahedralImpostorNodeMaterial: octahedralMode is required');
+    if (!Number.isInteger(spritesPerSide) || spritesPerSide < 2) {
+      throw new Error('OctahedralImpostorNodeMaterial: spritesPerSide must be an integer greater than 1');
+    }
+
+    const alphaClamp = parameters.alphaClamp ?? DEFAULT_CONFIG.ALPHA_CLAMP;
+    const gutter = parameters.gutter ?? DEFAULT_CONFIG.GUTTER;
+
+    this.impostorUniforms = {
+      spritesPerSide: uniform(spritesPerSide),
+      spriteGutter: uniform(albedo.image?.width ? gutter * spritesPerSide / albedo.image.width : 0),
+      alphaClamp: uniform(alphaClamp),
+      disableBlending: uniform(parameters.disableBlending ? 1 : 0),
+      hybridDistance: uniform(parameters.hybridDistance ?? DEFAULT_CONFIG.HYBRID_DISTANCE),
+      scale: uniform(parameters.scale ?? DEFAULT_CONFIG.SCALE),
+      translation: uniform((parameters.translation ?? DEFAULT_CONFIG.TRANSLATION).clone())
+    };
+
+    this.transparent = parameters.transparent ?? false;
+    // The shadow pass copies alphaTest, so the silhouette is clipped with the same threshold
+    this.alphaTest = alphaClamp;
+
+    this.octahedralMode = parameters.octahedralMode;
+    const hemispherical = this.octahedralMode === OctahedralMode.HEMISPHERICAL;
+    const atlas = createAtlasSampler(this.impostorUniforms);
+
+    this.positionNode = createBillboardNode(this.impostorUniforms, hemispherical);
+    this.colorNode = createColorNode(this.impostorUniforms, atlas, albedo, this.transparent);
+    this.castShadowNode = vec4(1, 1, 1, atlas.sampleSprites(texture(albedo)).a);
+
+    if (normalDepth) {
+      this.normalNode = createNormalNode(atlas, normalDepth, parameters.normalDepthLayout ?? DEFAULT_CONFIG.NORMAL_DEPTH_LAYOUT);
+    }
+
+    if (orm) {
+      // Baked values already include the source factors
+      const blendedOrm = atlas.sampleSprites(texture(orm)).toVar();
+      const ormValues = blendedOrm.rgb.div(max(blendedOrm.a, 1e-4));
+      this.aoNode = ormValues.r;
+      this.roughnessNode = ormValues.g;
+      this.metalnessNode = ormValues.b;
+    } else {
+      this.roughness = 1;
+      this.metalness = 0;
+    }
+  }
+
+  /** Alpha threshold below which fragments are discarded */
+  public override get alphaClamp(): number {
+    return this.impostorUniforms.alphaClamp.value;
+  }
+
+  public override set alphaClamp(value: number) {
+    this.impostorUniforms.alphaClamp.value = value;
+    this.alphaTest = value;
+  }
+
+  /** Whether to use only the closest frame instead of blending three */
+  public override get disableBlending(): boolean {
+    return this.impostorUniforms.disableBlending.value > 0.5;
+  }
+
+  public override set disableBlending(value: boolean) {
+    this.impostorUniforms.disableBlending.value = value ? 1 : 0;
+  }
+
+  /** Elevation threshold above which hemispherical impostors tilt upward */
+  public override get hybridDistance(): number {
+    return this.impostorUniforms.hybridDistance.value;
+  }
+
+  public override set hybridDistance(value: number) {
+    this.impostorUniforms.hybridDistance.value = value;
+  }
+}
+
+// ============================================================================
+// BILLBOARD
+// ============================================================================
+
+/**
+ * Builds the position node turning the plane into a billboard facing the camera,
+ * and selects the three frames to blend.
+ */
+function createBillboardNode(uniforms: OctahedralImpostorNodeUniforms, hemispherical: boolean): TSLNode {
+  return Fn((builder: NodeBuilder) => {
+    const instanceColumns = getInstanceMatrixColumns(builder);
+
+    // Camera position and direction in the mesh frame
+    const cameraPositionMesh = modelWorldMatrixInverse.mul(vec4(cameraPosition, 1)).xyz;
+    const cameraBackwardMesh = modelWorldMatrixInverse.mul(vec4(cameraWorldMatrix.element(int(2)).xyz, 0)).xyz;
+
+    let basisX: TSLNode = vec3(1, 0, 0);
+    let basisY: TSLNode = vec3(0, 1, 0);
+    let basisZ: TSLNode = vec3(0, 0, 1);
+    let origin: TSLNode = vec3(0);
+
+    if (instanceColumns) {
+      // Instance matrix followed by the impostor scale and translation, as in the GLSL material
+      const [column0, column1, column2, column3] = instanceColumns.map((column) => column.xyz);
+      const { scale, translation } = uniforms;
+
+      basisX = column0.mul(scale).toVar();
+      basisY = column1.mul(scale).toVar();
+      basisZ = column2.mul(scale).toVar();
+      origin = column3.add(column0.mul(translation.x)).add(column1.mul(translation.y)).add(column2.mul(translation.z)).toVar();
+    }
+
+    // Inverse of a similarity transform: transposed rotation divided by the squared scale
+    const scaleSquared = dot(basisX, basisX);
+    const toImpostor = (vector: TSLNode) => vec3(dot(basisX, vector), dot(basisY, vector), dot(basisZ, vector)).div(scaleSquared);
+
+    // Orthographic views (e.g. directional light shadows) select frames from the view direction
+    const isOrthographic = cameraProjectionMatrix.element(int(3)).w.greaterThan(0.5);
+    const cameraPosLocal = select(
+      isOrthographic,
+      normalize(toImpostor(cameraBackwardMesh)),
+      toImpostor(cameraPositionMesh.sub(origin))
+    ).toVar();
+
+    const cameraDir = getCameraDirection(TSL_SHADER_MATH, cameraPosLocal, float(uniforms.hybridDistance), hemispherical).toVar();
+
+    // Frame selection
+    const spritesMinusOne = vec2(uniforms.spritesPerSide.sub(1));
+    const { spritesWeight, sprite1, sprite2, sprite3 } = selectFrames(TSL_SHADER_MATH, cameraDir, spritesMinusOne, hemispherical);
+
+    IMPOSTOR_VARYINGS.spritesWeight.assign(spritesWeight);
+    IMPOSTOR_VARYINGS.sprite1.assign(sprite1);
+    IMPOSTOR_VARYINGS.sprite2.assign(sprite2);
+    IMPOSTOR_VARYINGS.sprite3.assign(sprite3);
+    IMPOSTOR_VARYINGS.basisX.assign(normalize(basisX));
+    IMPOSTOR_VARYINGS.basisY.assign(normalize(basisY));
+    IMPOSTOR_VARYINGS.basisZ.assign(normalize(basisZ));
+
+    // Billboard in the frame basis of the camera direction
+    const { tangent, bitangent } = computeFrameBasis(TSL_SHADER_MATH, cameraDir, hemispherical);
+    const projectedVertex = tangent.mul(positionGeometry.x).add(bitangent.mul(positionGeometry.y));
+
+    return origin
+      .add(basisX.mul(projectedVertex.x))
+      .add(basisY.mul(projectedVertex.y))
+      .add(basisZ.mul(projectedVertex.z));
+  })();
+}
+
+/**
+ * Builds nodes reading the instance matrix columns of an instanced mesh, or returns null for other objects.
+ * The billboard replaces the position three.js instancing computes, but reads the matrix through the same node:
+ * NodeMaterial.setupPosition stacks the instance node before the position node, so it is set up by now
+ * and the matrices are stored and uploaded once, in the color and shadow passes alike.
+ */
+function getInstanceMatrixColumns(builder: NodeBuilder): TSLNode[] | null {
+  const object = builder.object as InstancedMesh;
+
+  if (!object.isInstancedMesh || !object.instanceMatrix?.isInstancedBufferAttribute) return null;
+
+  const stack = (builder as NodeBuilder & { currentStack?: StackNode }).currentStack;
+  const instanceNode = stack?.nodes.find((node): node is InstanceNode => node instanceof InstanceNode);
+
+  if (!instanceNode?.instanceMatrixNode) {
+    throw new Error('OctahedralImpostorNodeMaterial: the instance node must be set up before the position node');
+  }
+
+  const instanceMatrix = nodeObject(instanceNode.instanceMatrixNode);
+
+  return [0, 1, 2, 3].map((column) => instanceMatrix.element(int(column)));
+}
+
+// ============================================================================
+// ATLAS SAMPLING
+// ============================================================================
+
+/**
+ * Sampling helpers for the three selected frames.
+ */
+interface AtlasSampler {
+  /** Frame weights, a single frame when blending is disabled */
+  weights: TSLNode;
+  /** Atlas UV of each selected frame */
+  uvs: [TSLNode, TSLNode, TSLNode];
+  /** Samples the three frames of a texture */
+  sample: (textureNode: TSLTextureNode) => [TSLNode, TSLNode, TSLNode];
+  /** Samples the three frames of a texture and blends them */
+  sampleSprites: (textureNode: TSLTextureNode) => TSLNode;
+}
+
+/**
+ * Builds the atlas UVs and frame weights shared by all fragment nodes.
+ */
+function createAtlasSampler(uniforms: OctahedralImpostorNodeUniforms): AtlasSampler {
+  const { spritesWeight, sprite1, sprite2, sprite3 } = IMPOSTOR_VARYINGS;
+  const { spriteGutter } = uniforms;
+
+  // Use only the frame with the highest weight when blending is disabled
+  const dominantWeights = getDominantWeights(TSL_SHADER_MATH, vec4(spritesWeight));
+  const weights = select(uniforms.disableBlending.greaterThan(0.5), dominantWeights, spritesWeight.xyz).toVar();
+
+  // Maps the card UV to each frame, skipping the empty gutter around the sprite
+  const frameSize = float(1).div(uniforms.spritesPerSide);
+  const frameUV = clamp(uv(), vec2(0), vec2(1)).mul(spriteGutter.mul(2).oneMinus());
+  const getSpriteAtlasUV = (frame: TSLVaryingNode) => frame.add(spriteGutter).add(frameUV).mul(frameSize).toVar();
+  const uvs: [TSLNode, TSLNode, TSLNode] = [getSpriteAtlasUV(sprite1), getSpriteAtlasUV(sprite2), getSpriteAtlasUV(sprite3)];
+
+  const sample = (textureNode: TSLTextureNode): [TSLNode, TSLNode, TSLNode] => [
+    textureNode.sample(uvs[0]).toVar(),
+    textureNode.sample(uvs[1]).toVar(),
+    textureNode.sample(uvs[2]).toVar()
+  ];
+
+  const sampleSprites = (textureNode: TSLTextureNode) => {
+    const [s1, s2, s3] = sample(textureNode);
+    return s1.mul(weights.x).add(s2.mul(weights.y)).add(s3.mul(weights.z));
+  };
+
+  return { weights, uvs, sample, sampleSprites };
+}
+
+/**
+ * Builds the color node: blended albedo with the alpha clamp of the GLSL material.
+ */
+function createColorNode(
+  uniforms: OctahedralImpostorNodeUniforms,
+  atlas: AtlasSampler,
+  albedo: Texture,
+  transparent: boolean
+): TSLNode {
+  return Fn(() => {
+    const { spritesWeight } = IMPOSTOR_VARYINGS;
+    const { alphaClamp } = uniforms;
+    const [sprite1, sprite2, sprite3] = atlas.sample(texture(albedo));
+
+    // Early alpha test on a dominant frame, as its silhouette decides the outline
+    const alphaThreshold = alphaClamp.oneMinus();
+    If(spritesWeight.x.greaterThanEqual(alphaThreshold).and(sprite1.a.lessThanEqual(alphaClamp)), () => Discard());
+    If(spritesWeight.y.greaterThanEqual(alphaThreshold).and(sprite2.a.lessThanEqual(alphaClamp)), () => Discard());
+    If(spritesWeight.z.greaterThanEqual(alphaThreshold).and(sprite3.a.lessThanEqual(alphaClamp)), () => Discard());
+
+    const { weights } = atlas;
+    const blendedColor = sprite1.mul(weights.x).add(sprite2.mul(weights.y)).add(sprite3.mul(weights.z)).toVar();
+
+    If(blendedColor.a.lessThanEqual(alphaClamp), () => Discard());
+
+    return transparent ? blendedColor : vec4(blendedColor.rgb.div(blendedColor.a), 1);
+  })();
+}
+
+/**
+ * Builds the view space normal node from the baked normals of the selected frames.
+ */
+function createNormalNode(atlas: AtlasSampler, normalDepth: Texture, layout: NormalDepthLayout): TSLNode {
+  return Fn(() => {
+    const { basisX, basisY, basisZ } = IMPOSTOR_VARYINGS;
+    const [normalDepth1, normalDepth2, normalDepth3] = atlas.sample(texture(normalDepth));
+    const { weights } = atlas;
+
+    const normal = normalize(
+      getBakedNormal(normalDepth1, layout).mul(weights.x)
+        .add(getBakedNormal(normalDepth2, layout).mul(weights.y))
+        .add(getBakedNormal(normalDepth3, layout).mul(weights.z))
+    );
+
+    // Baked normals are in the local frame of the target, rotate them into view space
+    const normalMesh = basisX.mul(normal.x).add(basisY.mul(normal.y)).add(basisZ.mul(normal.z));
+    const normalWorld = modelNormalMatrix.mul(normalMesh);
+
+    return normalize(cameraViewMatrix.mul(vec4(normalWorld, 0)).xyz);
+  })();
+}
+
+/**
+ * Decodes the normal stored in a normal-depth texel.
+ */
+function getBakedNormal(normalDepth: TSLNode, layout: NormalDepthLayout): TSLNode {
+  if (layout === NormalDepthLayout.HALF_FLOAT) {
+    return normalDepth.xyz;
+  }
+
+  // Packed layouts: RG = octahedral-encoded normal
+  const encoded = normalDepth.xy.mul(2).sub(1).toVar();
+  const normal = vec3(encoded, abs(encoded.x).add(abs(encoded.y)).oneMinus()).toVar();
+  const fold = max(normal.z.negate(), 0);
+  const offset = vec2(
+    select(normal.x.greaterThanEqual(0), fold.negate(), fold),
+    select(normal.y.greaterThanEqual(0), fold.negate(), fold)
+  );
+
+  return normalize(vec3(normal.xy.add(offset), normal.z));
+}
@@ -4,29 +4,55 @@
  */
 
 import {
+  Camera,
+  InstancedMesh,
   Material,
   Matrix4,
   PlaneGeometry,
   Mesh,
+  MeshDepthMaterial,
+  MeshDistanceMaterial,
   Sphere,
+  Vector2,
   Vector3,
   Object3D,
-  PerspectiveCamera
+  OrthographicCamera,
+  PerspectiveCamera,
+  FrontSide,
+  RGBADepthPacking,
+  IUniform,
+  Texture
 } from 'three';
 
 import { computeObjectBoundingSphere } from './octahedral-utils.js';
 import { 
   CreateOctahedralImpostor,
+  CreateOctahedralImpostorBase,
+  CreateOctahedralImpostorFromTextures,
+  ImpostorAtlasTextures,
   DEFAULT_CONFIG,
-  OctahedralMode
+  OctahedralMode,
+  CameraType,
+  NormalDepthLayout
 } from './octahedral-utils.js';
-import { createTextureAtlas } from './atlas-generation.js';
+import { createTextureAtlas, getDefaultAtlasDepthRange } from './atlas-generation.js';
+import {
+  CPU_SHADER_MATH,
+  getCameraDirection,
+  getDominantWeights,
+  OCTAHEDRAL_FRAGMENT_FUNCTIONS,
+  OCTAHEDRAL_VERTEX_FUNCTIONS,
+  selectFrames
+} from './octahedral-functions.js';
+import { createMipmappedAtlas } from './atlas-mipmaps.js';
+import { createAtlasSpriteBounds } from './sprite-bounds.js';
 import {
   calculateOptimalFraming,
   CameraFramingConfig,
   FramingResult,
   FRAMING_PRESETS
 } from './camera-framing-utils.js';
+import type { OctahedralImpostorNodeMaterial } from './impostor-node-material.js';
 
 // ============================================================================
 // SMART IMPOSTOR POSITIONING CONFIGURATION
@@ -83,57 +109,77 @@ export interface CreateSmartOctahedralImpostor<T extends Material>
 // OCTAHEDRAL IMPOSTOR MATERIAL SHADERS
 // ============================================================================
 
+/**
+ * Screen-door transparency: positive fades keep the lower part of a 4x4 Bayer pattern,
+ * negative fades keep the complementary part so two objects can crossfade without overlap.
+ * Shared with the source materials of impostor LODs, so both patterns stay exact complements.
+ */
+export const DITHER_FADE_FUNCTIONS = /* glsl */ `
+  bool isDitheredOut(float fade) {
+    const float bayer[16] = float[16](0.0, 8.0, 2.0, 10.0, 12.0, 4.0, 14.0, 6.0, 3.0, 11.0, 1.0, 9.0, 15.0, 7.0, 13.0, 5.0);
+    ivec2 cell = ivec2(mod(gl_FragCoord.xy, 4.0));
+    float threshold = (bayer[cell.x + cell.y * 4] + 0.5) / 16.0;
+    return fade >= 0.0 ? threshold >= fade : threshold < 1.0 + fade;
+  }
+`;
+
 /**
  * Fragment shader chunk for impostor map sampling and blending.
  * Replaces the standard Three.js map_fragment include.
  */
 const IMPOSTOR_MAP_FRAGMENT = /* glsl */ `
+  #ifdef OCTAHEDRAL_DITHER_FADE
+    if (isDitheredOut(lodFade)) discard;
+  #endif
+
   float spriteSize = 1.0 / spritesPerSide;
 
-  vec2 uv1 = getUV(vSpriteUV1, vSprite1, spriteSize);
-  vec2 uv2 = getUV(vSpriteUV2, vSprite2, spriteSize);
-  vec2 uv3 = getUV(vSpriteUV3, vSprite3, spriteSize);
+  #ifdef OCTAHEDRAL_TRILINEAR
+    // Gradients of the unclamped sprite UVs, taken in uniform control flow before any branch
+    float gradientScale = spriteSize * (1.0 - 2.0 * spriteGutter);
+    spriteGradients[0] = vec4(dFdx(vSpriteUV1), dFdy(vSpriteUV1)) * gradientScale;
+    spriteGradients[1] = vec4(dFdx(vSpriteUV2), dFdy(vSpriteUV2)) * gradientScale;
+    spriteGradients[2] = vec4(dFdx(vSpriteUV3), dFdy(vSpriteUV3)) * gradientScale;
+  #endif
+
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    vec2 uv1 = getParallaxUV(vSpriteUV1, vSprite1, spriteSize, vFrameRay1, 0);
+    vec2 uv2 = getParallaxUV(vSpriteUV2, vSprite2, spriteSize, vFrameRay2, 1);
+    vec2 uv3 = getParallaxUV(vSpriteUV3, vSprite3, spriteSize, vFrameRay3, 2);
+  #else
+    vec2 uv1 = getUV(vSpriteUV1, vSprite1, spriteSize);
+    vec2 uv2 = getUV(vSpriteUV2, vSprite2, spriteSize);
+    vec2 uv3 = getUV(vSpriteUV3, vSprite3, spriteSize);
+  #endif
 
   vec4 sprite1, sprite2, sprite3;
   float alphaThreshold = 1.0 - alphaClamp;
 
   // Sample sprites with early alpha testing for the dominant sprite
   if (vSpritesWeight.x >= alphaThreshold) {
-    sprite1 = texture(map, uv1);
+    sprite1 = sampleSprite(map, uv1, 0);
     if (sprite1.a <= alphaClamp) discard;
-    sprite2 = texture(map, uv2);
-    sprite3 = texture(map, uv3);
+    sprite2 = sampleSprite(map, uv2, 1);
+    sprite3 = sampleSprite(map, uv3, 2);
   } else if (vSpritesWeight.y >= alphaThreshold) {
-    sprite2 = texture(map, uv2);
+    sprite2 = sampleSprite(map, uv2, 1);
     if (sprite2.a <= alphaClamp) discard;
-    sprite1 = texture(map, uv1);
-    sprite3 = texture(map, uv3);
+    sprite1 = sampleSprite(map, uv1, 0);
+    sprite3 = sampleSprite(map, uv3, 2);
   } else if (vSpritesWeight.z >= alphaThreshold) {
-    sprite3 = texture(map, uv3);
+    sprite3 = sampleSprite(map, uv3, 2);
     if (sprite3.a <= alphaClamp) discard;
-    sprite1 = texture(map, uv1);
-    sprite2 = texture(map, uv2);
+    sprite1 = sampleSprite(map, uv1, 0);
+    sprite2 = sampleSprite(map, uv2, 1);
   } else {
-    sprite1 = texture(map, uv1);
-    sprite2 = texture(map, uv2);
-    sprite3 = texture(map, uv3);
+    sprite1 = sampleSprite(map, uv1, 0);
+    sprite2 = sampleSprite(map, uv2, 1);
+    sprite3 = sampleSprite(map, uv3, 2);
   }
 
-  vec4 blendedColor;
-
-  if (disableBlending > 0.5) {
-    // Use only the sprite with highest weight (no blending)
-    if (vSpritesWeight.x >= vSpritesWeight.y && vSpritesWeight.x >= vSpritesWeight.z) {
-      blendedColor = sprite1;
-    } else if (vSpritesWeight.y >= vSpritesWeight.z) {
-      blendedColor = sprite2;
-    } else {
-      blendedColor = sprite3;
-    }
-  } else {
-    // Standard triplanar blending
-    blendedColor = sprite1 * vSpritesWeight.x + sprite2 * vSpritesWeight.y + sprite3 * vSpritesWeight.z;
-  }
+  // Triplanar blending, or only the sprite with the highest weight when blending is disabled
+  vec3 spriteWeights = getSpriteWeights();
+  vec4 blendedColor = sprite1 * spriteWeights.x + sprite2 * spriteWeights.y + sprite3 * spriteWeights.z;
 
   if (blendedColor.a <= alphaClamp) discard;
 
@@ -142,6 +188,88 @@ const IMPOSTOR_MAP_FRAGMENT = /* glsl */ `
   #endif
 
   diffuseColor *= blendedColor;
+
+  #ifdef OCTAHEDRAL_USE_ORM
+    vec4 blendedOrm = sampleSprites(ormMap, uv1, uv2, uv3);
+    blendedOrm.rgb /= max(blendedOrm.a, 1e-4);
+  #endif
+
+  #ifdef OCTAHEDRAL_WRITE_DEPTH
+    // Weight each sprite by its coverage so transparent texels don't pull the surface back
+    vec3 spriteHeights = vec3(
+      getBakedHeight(getBakedDepth(sampleSprite(normalMap, uv1, 0))),
+      getBakedHeight(getBakedDepth(sampleSprite(normalMap, uv2, 1))),
+      getBakedHeight(getBakedDepth(sampleSprite(normalMap, uv3, 2)))
+    );
+    vec3 heightWeights = getSpriteWeights() * vec3(sprite1.a, sprite2.a, sprite3.a);
+    float surfaceHeight = dot(spriteHeights, heightWeights) / max(dot(heightWeights, vec3(1.0)), 1e-4);
+
+    gl_FragDepth = getImpostorFragDepth(vImpostorViewPosition + vImpostorDepthOffset * surfaceHeight);
+  #endif
+`;
+
+/**
+ * Fragment shader chunk for roughness.
+ * Replaces the standard Three.js roughnessmap_fragment include.
+ */
+const IMPOSTOR_ROUGHNESS_FRAGMENT = /* glsl */ `
+  #ifdef OCTAHEDRAL_USE_ORM
+    float roughnessFactor = roughness * blendedOrm.g;
+  #else
+    #include <roughnessmap_fragment>
+  #endif
+`;
+
+/**
+ * Fragment shader chunk for metalness.
+ * Replaces the standard Three.js metalnessmap_fragment include.
+ */
+const IMPOSTOR_METALNESS_FRAGMENT = /* glsl */ `
+  #ifdef OCTAHEDRAL_USE_ORM
+    float metalnessFactor = metalness * blendedOrm.b;
+  #else
+    #include <metalnessmap_fragment>
+  #endif
+`;
+
+/**
+ * Fragment shader chunk for ambient occlusion.
+ * Replaces the standard Three.js aomap_fragment include.
+ */
+const IMPOSTOR_AO_FRAGMENT = /* glsl */ `
+  #ifdef OCTAHEDRAL_USE_ORM
+    float ambientOcclusion = blendedOrm.r;
+    reflectedLight.indirectDiffuse *= ambientOcclusion;
+
+    #if defined( USE_CLEARCOAT )
+      clearcoatSpecularIndirect *= ambientOcclusion;
+    #endif
+
+    #if defined( USE_SHEEN )
+      sheenSpecularIndirect *= ambientOcclusion;
+    #endif
+
+    #if defined( USE_ENVMAP ) && defined( STANDARD )
+      float dotNV = saturate( dot( geometryNormal, geometryViewDir ) );
+      reflectedLight.indirectSpecular *= computeSpecularOcclusion( dotNV, ambientOcclusion, material.roughness );
+    #endif
+  #else
+    #include <aomap_fragment>
+  #endif
+`;
+
+/**
+ * Fragment shader chunk for emissive radiance.
+ * Replaces the standard Three.js emissivemap_fragment include.
+ */
+const IMPOSTOR_EMISSIVE_FRAGMENT = /* glsl */ `
+  #ifdef OCTAHEDRAL_USE_EMISSIVE
+    vec4 emissiveColor = sampleSprites(emissiveMap, uv1, uv2, uv3);
+    emissiveColor.rgb /= max(emissiveColor.a, 1e-4);
+    totalEmissiveRadiance *= emissiveColor.rgb;
+  #else
+    #include <emissivemap_fragment>
+  #endif
 `;
 
 /**
@@ -149,12 +277,10 @@ const IMPOSTOR_MAP_FRAGMENT = /* glsl */ `
  * Replaces the standard Three.js normal_fragment_begin include.
  */
 const IMPOSTOR_NORMAL_FRAGMENT = /* glsl */ `
-  vec3 normal;
-  if (disableBlending > 0.5) {
-    normal = blendNormalsNoBlending(uv1, uv2, uv3);
-  } else {
-    normal = blendNormals(uv1, uv2, uv3);
-  }
+  vec3 normal = blendNormals(uv1, uv2, uv3);
+
+  // Baked normals are in the local frame of the target, rotate them into view space
+  normal = normalize(vImpostorNormalMatrix * normal);
   vec3 nonPerturbedNormal = normal;
 `;
 
@@ -166,6 +292,7 @@ const IMPOSTOR_FRAGMENT_PARAMS = /* glsl */ `
   #include <clipping_planes_pars_fragment>
 
   uniform float spritesPerSide;
+  uniform float spriteGutter;
   uniform float alphaClamp;
   uniform float disableBlending;
 
@@ -180,40 +307,149 @@ const IMPOSTOR_FRAGMENT_PARAMS = /* glsl */ `
   varying vec2 vSpriteUV1;
   varying vec2 vSpriteUV2;
   varying vec2 vSpriteUV3;
+  flat varying mat3 vImpostorNormalMatrix;
+
+  #ifdef OCTAHEDRAL_TRILINEAR
+    // Atlas UV gradients of each sprite (xy: x derivative, zw: y derivative)
+    vec4 spriteGradients[3];
+
+    vec4 sampleSprite(sampler2D tex, vec2 uv, int index) {
+      return textureGrad(tex, uv, spriteGradients[index].xy, spriteGradients[index].zw);
+    }
+  #else
+    vec4 sampleSprite(sampler2D tex, vec2 uv, int index) {
+      return texture2D(tex, uv);
+    }
+  #endif
+
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    uniform float parallaxScale;
+
+    varying vec3 vFrameRay1;
+    varying vec3 vFrameRay2;
+    varying vec3 vFrameRay3;
+  #endif
+
+  #ifdef OCTAHEDRAL_DITHER_FADE
+    uniform float lodFade;
+
+    ${DITHER_FADE_FUNCTIONS}
+  #endif
+
+  #ifdef OCTAHEDRAL_WRITE_DEPTH
+    uniform mat4 projectionMatrix;
+
+    varying vec3 vImpostorViewPosition;
+    varying vec3 vImpostorDepthOffset;
+
+    float getImpostorFragDepth(vec3 viewPosition) {
+      vec4 clipPosition = projectionMatrix * vec4(viewPosition, 1.0);
+
+      #ifdef USE_LOGDEPTHBUF
+        if (vIsPerspective != 0.0) return log2(1.0 + clipPosition.w) * logDepthBufFC * 0.5;
+      #endif
+
+      float ndcDepth = clipPosition.z / clipPosition.w;
+
+      #ifdef USE_REVERSEDEPTHBUF
+        // The reversed projection matrix already maps depth to [0, 1]
+        return ndcDepth;
+      #else
+        return ndcDepth * 0.5 + 0.5;
+      #endif
+    }
+  #endif
+
+  #if defined( OCTAHEDRAL_PACKED_NORMAL_DEPTH ) || defined( OCTAHEDRAL_PACKED_NORMAL )
+    // Packed layouts: RG = octahedral-encoded normal
+    vec3 getBakedNormal(vec4 normalDepth) {
+      vec2 encoded = normalDepth.xy * 2.0 - 1.0;
+      vec3 normal = vec3(encoded, 1.0 - abs(encoded.x) - abs(encoded.y));
+      float fold = max(-normal.z, 0.0);
+      normal.xy += vec2(normal.x >= 0.0 ? -fold : fold, normal.y >= 0.0 ? -fold : fold);
+      return normalize(normal);
+    }
+  #else
+    vec3 getBakedNormal(vec4 normalDepth) {
+      return normalDepth.xyz;
+    }
+  #endif
+
+  #ifdef OCTAHEDRAL_PACKED_NORMAL_DEPTH
+    // BA = high and low bytes of a 16-bit depth
+    float getBakedDepth(vec4 normalDepth) {
+      return dot(normalDepth.zw, vec2(255.0 * 256.0, 255.0) / 65535.0);
+    }
+  #else
+    float getBakedDepth(vec4 normalDepth) {
+      return normalDepth.w;
+    }
+  #endif
+
+  #if defined( OCTAHEDRAL_USE_PARALLAX ) || defined( OCTAHEDRAL_WRITE_DEPTH )
+    uniform vec3 bakeDepthRange;
+
+    // Converts a stored depth into a height above the frame plane, in impostor units
+    float getBakedHeight(float depth) {
+      float fragCoordZ = 1.0 - depth;
+      float bakeNear = bakeDepthRange.x;
+      float bakeFar = bakeDepthRange.y;
+
+      #ifdef OCTAHEDRAL_PERSPECTIVE_ATLAS
+        float viewDistance = bakeNear * bakeFar / (bakeFar - fragCoordZ * (bakeFar - bakeNear));
+      #else
+        float viewDistance = bakeNear + fragCoordZ * (bakeFar - bakeNear);
+      #endif
+
+      return bakeDepthRange.z - viewDistance;
+    }
+  #endif
+
+  ${OCTAHEDRAL_FRAGMENT_FUNCTIONS}
+
+  vec3 getSpriteWeights() {
+    return disableBlending > 0.5 ? getDominantWeights(vSpritesWeight) : vSpritesWeight.xyz;
+  }
 
   #ifdef OCTAHEDRAL_USE_NORMAL
     vec3 blendNormals(vec2 uv1, vec2 uv2, vec2 uv3) {
-      vec4 normalDepth1 = texture2D(normalMap, uv1);
-      vec4 normalDepth2 = texture2D(normalMap, uv2);
-      vec4 normalDepth3 = texture2D(normalMap, uv3);
+      vec3 weights = getSpriteWeights();
 
       return normalize(
-        normalDepth1.xyz * vSpritesWeight.x + 
-        normalDepth2.xyz * vSpritesWeight.y + 
-        normalDepth3.xyz * vSpritesWeight.z
+        getBakedNormal(sampleSprite(normalMap, uv1, 0)) * weights.x + 
+        getBakedNormal(sampleSprite(normalMap, uv2, 1)) * weights.y + 
+        getBakedNormal(sampleSprite(normalMap, uv3, 2)) * weights.z
       );
     }
+  #endif
 
-    vec3 blendNormalsNoBlending(vec2 uv1, vec2 uv2, vec2 uv3) {
-      vec4 normalDepth1 = texture2D(normalMap, uv1);
-      vec4 normalDepth2 = texture2D(normalMap, uv2);
-      vec4 normalDepth3 = texture2D(normalMap, uv3);
+  vec4 sampleSprites(sampler2D tex, vec2 uv1, vec2 uv2, vec2 uv3) {
+    vec3 weights = getSpriteWeights();
+    return sampleSprite(tex, uv1, 0) * weights.x + sampleSprite(tex, uv2, 1) * weights.y + sampleSprite(tex, uv3, 2) * weights.z;
+  }
 
-      // Use only the normal with the highest weight
-      if (vSpritesWeight.x >= vSpritesWeight.y && vSpritesWeight.x >= vSpritesWeight.z) {
-        return normalize(normalDepth1.xyz);
-      } else if (vSpritesWeight.y >= vSpritesWeight.z) {
-        return normalize(normalDepth2.xyz);
-      } else {
-        return normalize(normalDepth3.xyz);
-      }
-    }
-  #endif
+  // Maps a sprite UV to the atlas, skipping the empty gutter around the sprite
+  vec2 getSpriteAtlasUV(vec2 uv_f, vec2 frame, float frame_size) {
+    return frame_size * (frame + spriteGutter + uv_f * (1.0 - 2.0 * spriteGutter));
+  }
 
   vec2 getUV(vec2 uv_f, vec2 frame, float frame_size) {
     uv_f = clamp(uv_f, vec2(0), vec2(1));
-    return frame_size * (frame + uv_f);
+    return getSpriteAtlasUV(uv_f, frame, frame_size);
   }
+
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    vec2 getParallaxUV(vec2 uv_f, vec2 frame, float frame_size, vec3 frameRay, int index) {
+      uv_f = clamp(uv_f, vec2(0), vec2(1));
+
+      float height = getBakedHeight(getBakedDepth(sampleSprite(normalMap, getSpriteAtlasUV(uv_f, frame, frame_size), index))) * parallaxScale;
+
+      // Step along the view ray to the stored height, limiting grazing angles
+      uv_f += frameRay.xy * (height / min(frameRay.z, -0.2));
+
+      return getUV(uv_f, frame, frame_size);
+    }
+  #endif
 `;
 
 /**
@@ -234,81 +470,58 @@ const IMPOSTOR_VERTEX_PARAMS = /* glsl */ `
   varying vec2 vSpriteUV1;
   varying vec2 vSpriteUV2;
   varying vec2 vSpriteUV3;
+  flat varying mat3 vImpostorNormalMatrix;
 
-  vec2 encodeDirection(vec3 direction) {
-    #ifdef OCTAHEDRAL_USE_HEMI_OCTAHEDRON
-      vec3 octahedron = direction / dot(direction, sign(direction));
-      return vec2(1.0 + octahedron.x + octahedron.z, 1.0 + octahedron.z - octahedron.x) * 0.5;
-    #else
-      // Full octahedral encoding
-      vec3 absDir = abs(direction);
-      direction /= (absDir.x + absDir.y + absDir.z);
-      
-      if (direction.y < 0.0) {
-        vec2 signNotZero = vec2(
-          direction.x >= 0.0 ? 1.0 : -1.0, 
-          direction.z >= 0.0 ? 1.0 : -1.0
-        );
-        float oldX = direction.x;
-        direction.x = (1.0 - abs(direction.z)) * signNotZero.x;
-        direction.z = (1.0 - abs(oldX)) * signNotZero.y;
-      }
-      
-      return direction.xz * 0.5 + 0.5;
-    #endif
-  }
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    varying vec3 vFrameRay1;
+    varying vec3 vFrameRay2;
+    varying vec3 vFrameRay3;
+  #endif
 
-  vec3 decodeDirection(vec2 gridIndex, vec2 spriteCountMinusOne) {
-    vec2 gridUV = gridIndex / spriteCountMinusOne;
-
-    #ifdef OCTAHEDRAL_USE_HEMI_OCTAHEDRON
-      vec3 position = vec3(gridUV.x - gridUV.y, 0.0, -1.0 + gridUV.x + gridUV.y);
-      position.y = 1.0 - abs(position.x) - abs(position.z);
-    #else
-      // Full octahedral decoding
-      vec2 encoded = gridUV * 2.0 - 1.0;
-      vec3 position = vec3(encoded.x, 0.0, encoded.y);
-      position.y = 1.0 - abs(position.x) - abs(position.z);
-
-      if (position.y < 0.0) {
-        vec2 signNotZero = vec2(
-          position.x >= 0.0 ? 1.0 : -1.0, 
-          position.z >= 0.0 ? 1.0 : -1.0
-        );
-        float oldX = position.x;
-        position.x = (1.0 - abs(position.z)) * signNotZero.x;
-        position.z = (1.0 - abs(oldX)) * signNotZero.y;
-      }
-    #endif
+  #ifdef OCTAHEDRAL_WRITE_DEPTH
+    varying vec3 vImpostorViewPosition;
+    varying vec3 vImpostorDepthOffset;
+  #endif
+
+  ${OCTAHEDRAL_VERTEX_FUNCTIONS}
 
-    return normalize(position);
+  vec3 projectVertex(vec3 normal, vec2 cardPosition) {
+    vec3 tangent, bitangent;
+    computeFrameBasis(normal, tangent, bitangent);
+    return tangent * cardPosition.x + bitangent * cardPosition.y;
   }
 
-  vec3 projectVertex(vec3 normal) {
-    vec3 up = vec3(0.0, 1.0, 0.0);
+  #ifdef OCTAHEDRAL_TRIMMED_FRAMES
+    uniform sampler2D spriteBounds;
 
-    if (normal.y > 0.999) {
-      up = vec3(-1.0, 0.0, 0.0);
+    // Union of the opaque bounds of the selected frames, in frame UV (xy: min, zw: max)
+    vec4 getFramesBounds(vec2 sprite1, vec2 sprite2, vec2 sprite3) {
+      vec4 bounds1 = texelFetch(spriteBounds, ivec2(sprite1), 0);
+      vec4 bounds2 = texelFetch(spriteBounds, ivec2(sprite2), 0);
+      vec4 bounds3 = texelFetch(spriteBounds, ivec2(sprite3), 0);
+      vec4 bounds = vec4(min(min(bounds1.xy, bounds2.xy), bounds3.xy), max(max(bounds1.zw, bounds2.zw), bounds3.zw));
+
+      // Empty frames store inverted bounds, the card collapses when all of them are empty
+      bounds.zw = max(bounds.zw, bounds.xy);
+      return bounds;
     }
-    #ifndef OCTAHEDRAL_USE_HEMI_OCTAHEDRON
-      else if (normal.y < -0.999) {
-        up = vec3(1.0, 0.0, 0.0);
-      }
-    #endif
+  #endif
 
-    vec3 tangent = normalize(cross(up, normal));
-    vec3 bitangent = cross(normal, tangent);
-    return tangent * position.x + bitangent * position.y;
-  }
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    // Intersects the view ray through a billboard vertex with the plane of a baked frame.
+    // Returns the frame-local UV and outputs the ray expressed in the frame basis.
+    vec2 projectToFrame(vec2 frame, vec2 spriteCountMinusOne, vec3 vertex, vec3 viewRay, out vec3 frameRay) {
+      vec3 frameNormal = decodeDirection(frame, spriteCountMinusOne);
+      vec3 frameTangent, frameBitangent;
+      computeFrameBasis(frameNormal, frameTangent, frameBitangent);
 
-  void computeSpritesWeight(vec2 gridFract) {
-    vSpritesWeight = vec4(
-      min(1.0 - gridFract.x, 1.0 - gridFract.y),
-      abs(gridFract.x - gridFract.y),
-      min(gridFract.x, gridFract.y),
-      ceil(gridFract.x - gridFract.y)
-    );
-  }
+      float rayDotNormal = min(dot(viewRay, frameNormal), -1e-4);
+      vec3 planePoint = vertex - viewRay * (dot(vertex, frameNormal) / rayDotNormal);
+
+      frameRay = vec3(dot(viewRay, frameTangent), dot(viewRay, frameBitangent), rayDotNormal);
+      return vec2(dot(planePoint, frameTangent), dot(planePoint, frameBitangent)) + 0.5;
+    }
+  #endif
 
 `;
 
@@ -321,50 +534,53 @@ const IMPOSTOR_VERTEX_TRANSFORM = /* glsl */ `
 
   #if defined USE_INSTANCING || defined USE_INSTANCING_INDIRECT
     mat4 instanceMatrix2 = instanceMatrix * transform;
-    vec3 cameraPosLocal = (inverse(instanceMatrix2 * modelMatrix) * vec4(cameraPosition, 1.0)).xyz;
+    mat4 worldToLocal = inverse(modelMatrix * instanceMatrix2);
   #else
-    vec3 cameraPosLocal = (inverse(modelMatrix) * vec4(cameraPosition, 1.0)).xyz;
+    mat4 worldToLocal = inverse(modelMatrix);
   #endif
 
-  vec3 cameraDir;
-  
-  #ifdef OCTAHEDRAL_USE_HEMI_OCTAHEDRON
-    // Hemispherical mode: use hybrid rotation logic
-    float cameraDistance = length(cameraPosLocal);
-    float verticalOffset = cameraPosLocal.y;
-    
-    // Make threshold relative to camera distance for better behavior at all scales
-    float relativeThreshold = hybridDistance * cameraDistance * 0.1;
-    bool isAbove = verticalOffset > relativeThreshold;
-    
-    if (isAbove) {
-      // Above threshold: allow full 3D rotation to see top properly
-      cameraDir = normalize(cameraPosLocal);
-    } else {
-      // At/below threshold: Y-locked horizontal rotation only
-      cameraDir = normalize(vec3(cameraPosLocal.x, 0.0, cameraPosLocal.z));
-    }
-  #else
-    // Spherical mode: simple full 3D rotation
-    cameraDir = normalize(cameraPosLocal);
-  #endif
+  // Orthographic views (e.g. directional light shadows) select frames from the view direction
+  vec3 cameraForward = -vec3(viewMatrix[0][2], viewMatrix[1][2], viewMatrix[2][2]);
+  vec3 cameraPosLocal = isOrthographic
+    ? normalize(mat3(worldToLocal) * -cameraForward)
+    : (worldToLocal * vec4(cameraPosition, 1.0)).xyz;
 
-  vec3 projectedVertex = projectVertex(cameraDir);
+  vec3 cameraDir = getCameraDirection(cameraPosLocal, hybridDistance);
 
-  vec2 grid = encodeDirection(cameraDir) * spritesMinusOne;
-  vec2 gridFloor = min(floor(grid), spritesMinusOne);
-  vec2 gridFract = fract(grid);
+  vec4 spritesWeight;
+  vec2 sprite1, sprite2, sprite3;
+  selectFrames(cameraDir, spritesMinusOne, spritesWeight, sprite1, sprite2, sprite3);
 
-  computeSpritesWeight(gridFract);
+  vSpritesWeight = spritesWeight;
+  vSprite1 = sprite1;
+  vSprite2 = sprite2;
+  vSprite3 = sprite3;
 
-  vSprite1 = gridFloor;
-  vSprite2 = min(vSprite1 + mix(vec2(0.0, 1.0), vec2(1.0, 0.0), vSpritesWeight.w), spritesMinusOne);
-  vSprite3 = min(vSprite1 + vec2(1.0), spritesMinusOne);
+  #ifdef OCTAHEDRAL_TRIMMED_FRAMES
+    // Shrink the card to the visible part of its frames, the frame UV follows the corners
+    vec4 framesBounds = getFramesBounds(vSprite1, vSprite2, vSprite3);
+    vec2 cardUV = mix(framesBounds.xy, framesBounds.zw, uv);
+  #else
+    vec2 cardUV = uv;
+  #endif
 
-  // Use standard plane UVs - perspective was already baked into the atlas
-  vSpriteUV1 = uv;
-  vSpriteUV2 = uv;
-  vSpriteUV3 = uv;
+  vec3 projectedVertex = projectVertex(cameraDir, cardUV - 0.5);
+
+  #ifdef OCTAHEDRAL_USE_PARALLAX
+    // Reproject the billboard into each frame so the baked depth can offset the lookup
+    vec3 viewRay = isOrthographic
+      ? -cameraPosLocal
+      : normalize(projectedVertex - cameraPosLocal);
+
+    vSpriteUV1 = projectToFrame(vSprite1, spritesMinusOne, projectedVertex, viewRay, vFrameRay1);
+    vSpriteUV2 = projectToFrame(vSprite2, spritesMinusOne, projectedVertex, viewRay, vFrameRay2);
+    vSpriteUV3 = projectToFrame(vSprite3, spritesMinusOne, projectedVertex, viewRay, vFrameRay3);
+  #else
+    // Use standard plane UVs - perspective was already baked into the atlas
+    vSpriteUV1 = cardUV;
+    vSpriteUV2 = cardUV;
+    vSpriteUV3 = cardUV;
+  #endif
 
   vec4 mvPosition = vec4(projectedVertex, 1.0);
 
@@ -374,6 +590,43 @@ const IMPOSTOR_VERTEX_TRANSFORM = /* glsl */ `
 
   mvPosition = modelViewMatrix * mvPosition;
   gl_Position = projectionMatrix * mvPosition;
+
+  #if defined USE_INSTANCING || defined USE_INSTANCING_INDIRECT
+    vImpostorNormalMatrix = normalMatrix * transpose(inverse(mat3(instanceMatrix2)));
+  #else
+    vImpostorNormalMatrix = normalMatrix;
+  #endif
+
+  #ifdef OCTAHEDRAL_WRITE_DEPTH
+    // View-space offset of one impostor unit towards the camera, scaled by the baked height per pixel
+    vec4 mvDepthOffset = vec4(projectedVertex + cameraDir, 1.0);
+
+    #if defined USE_INSTANCING || defined USE_INSTANCING_INDIRECT
+      mvDepthOffset = instanceMatrix2 * mvDepthOffset;
+    #endif
+
+    mvDepthOffset = modelViewMatrix * mvDepthOffset;
+
+    vImpostorViewPosition = mvPosition.xyz;
+    vImpostorDepthOffset = mvDepthOffset.xyz - mvPosition.xyz;
+  #endif
+`;
+
+/**
+ * World position of the projected billboard vertex.
+ * Replaces the standard Three.js worldpos_vertex include so shadows and distance
+ * materials see the billboard instead of the unprojected plane.
+ */
+const IMPOSTOR_WORLDPOS_VERTEX = /* glsl */ `
+  #if defined( USE_ENVMAP ) || defined( DISTANCE ) || defined ( USE_SHADOWMAP ) || defined ( USE_TRANSMISSION ) || NUM_SPOT_LIGHT_COORDS > 0
+    vec4 worldPosition = vec4(projectedVertex, 1.0);
+
+    #if defined USE_INSTANCING || defined USE_INSTANCING_INDIRECT
+      worldPosition = instanceMatrix2 * worldPosition;
+    #endif
+
+    worldPosition = modelMatrix * worldPosition;
+  #endif
 `;
 
 // ============================================================================
@@ -390,44 +643,207 @@ const IMPOSTOR_VERTEX_TRANSFORM = /* glsl */ `
 export function createOctahedralImpostorMaterial<T extends Material>(
   parameters: CreateOctahedralImpostor<T>
 ): T {
-  // Validate required parameters
+  validateMaterialParameters('createOctahedralImpostorMaterial', parameters);
+
+  const material = createBaseMaterial(parameters);
+
+  // PBR base materials bake occlusion/roughness/metalness unless told otherwise
+  const useORM = parameters.useORM ?? !!(material as any).isMeshStandardMaterial;
+
+  // Generate texture atlas
+  const atlas = createTextureAtlas({ ...parameters, useORM });
+
+  if (parameters.trimFrames) {
+    // Bounds come from the base level, coarser mips only blur the edge of the silhouette
+    atlas.spriteBounds = createAtlasSpriteBounds(parameters.renderer, atlas.albedo, {
+      spritesPerSide: parameters.spritesPerSide ?? DEFAULT_CONFIG.SPRITES_PER_SIDE,
+      gutter: atlas.gutter,
+      alphaThreshold: parameters.alphaClamp
+    });
+  }
+
+  if (parameters.trilinear) {
+    // The mipmapped copies replace the render target attachments
+    const mipmappedAtlas = createMipmappedAtlas(parameters.renderer, atlas, {
+      spritesPerSide: parameters.spritesPerSide ?? DEFAULT_CONFIG.SPRITES_PER_SIDE,
+      alphaThreshold: parameters.alphaClamp
+    });
+    atlas.renderTarget.dispose();
+    configureImpostorMaterial(material, parameters, mipmappedAtlas);
+  } else {
+    configureImpostorMaterial(material, parameters, atlas);
+  }
+
+  return material;
+}
+
+/**
+ * Creates an octahedral impostor material from existing atlas textures, skipping the bake.
+ * The textures can come from a previous bake, a loader or any image pipeline.
+ * 
+ * @param parameters - Atlas textures, the layout they were baked with and material configuration
+ * @returns Configured Three.js material with impostor capabilities
+ */
+export function createOctahedralImpostorMaterialFromTextures<T extends Material>(
+  parameters: CreateOctahedralImpostorFromTextures<T>
+): T {
+  const caller = 'createOctahedralImpostorMaterialFromTextures';
+  validateMaterialParameters(caller, parameters);
+
+  const { albedo, normalDepth, orm, emissive, spritesPerSide } = parameters;
+
+  if (!albedo) throw new Error(`${caller}: albedo is required`);
+  if (!normalDepth) throw new Error(`${caller}: normalDepth is required`);
+  if (!Number.isInteger(spritesPerSide) || spritesPerSide < 2) {
+    throw new Error(`${caller}: spritesPerSide must be an integer greater than 1`);
+  }
+
+  // All attachments share the atlas grid, so they must have the same square size
+  const textureSize = validateAtlasTexture(caller, 'albedo', albedo, spritesPerSide);
+  const attachments = { normalDepth, orm, emissive };
+
+  for (const name in attachments) {
+    const texture = attachments[name as keyof typeof attachments];
+    if (texture && validateAtlasTexture(caller, name, texture, spritesPerSide) !== textureSize) {
+      throw new Error(`${caller}: ${name} size does not match the albedo size (${textureSize}px)`);
+    }
+  }
+
+  const material = createBaseMaterial(parameters);
+
+  configureImpostorMaterial(material, parameters, {
+    albedo,
+    normalDepth,
+    normalDepthLayout: parameters.normalDepthLayout ?? DEFAULT_CONFIG.NORMAL_DEPTH_LAYOUT,
+    gutter: parameters.gutter ?? DEFAULT_CONFIG.GUTTER,
+    frameScale: parameters.frameScale ?? 1,
+    depthRange: parameters.depthRange ?? getDefaultAtlasDepthRange(parameters.cameraType, parameters.cameraFactor, parameters.frameScale),
+    ...(orm && { orm }),
+    ...(emissive && { emissive }),
+    ...(parameters.spriteBounds && { spriteBounds: parameters.spriteBounds })
+  });
+
+  return material;
+}
+
+/**
+ * Checks that an atlas texture is square and holds at least one pixel per sprite.
+ * 
+ * @returns Texture size in pixels
+ */
+function validateAtlasTexture(caller: string, name: string, texture: Texture, spritesPerSide: number): number {
+  const { width, height } = texture.image ?? {};
+
+  if (!width || !height) {
+    throw new Error(`${caller}: ${name} has no image data, wait for it to load`);
+  }
+  if (width !== height) {
+    throw new Error(`${caller}: ${name} must be square (got ${width}x${height})`);
+  }
+  if (width < spritesPerSide) {
+    throw new Error(`${caller}: ${name} is too small for ${spritesPerSide} sprites per side (${width}px)`);
+  }
+
+  return width;
+}
+
+/**
+ * Validates the parameters shared by all impostor material factories.
+ */
+function validateMaterialParameters<T extends Material>(
+  caller: string,
+  parameters: CreateOctahedralImpostorBase<T>
+): void {
   if (!parameters) {
-    throw new Error('createOctahedralImpostorMaterial: parameters is required');
+    throw new Error(`${caller}: parameters is required`);
   }
   if (!parameters.baseType) {
-    throw new Error('createOctahedralImpostorMaterial: baseType is required');
+    throw new Error(`${caller}: baseType is required`);
   }
   if (!parameters.octahedralMode) {
-    throw new Error('createOctahedralImpostorMaterial: octahedralMode is required');
+    throw new Error(`${caller}: octahedralMode is required`);
   }
 
-  // Generate texture atlas
-  const { albedo, normalDepth } = createTextureAtlas(parameters);
+  // The PACKED_NORMAL layout drops the depth channel both options read
+  const { normalDepthLayout } = parameters as { normalDepthLayout?: NormalDepthLayout };
+  if (normalDepthLayout === NormalDepthLayout.PACKED_NORMAL && (parameters.parallax || parameters.writeDepth)) {
+    throw new Error(`${caller}: parallax and writeDepth need baked depth, which the PACKED_NORMAL layout drops`);
+  }
+}
 
-  // Create and configure base material
+/**
+ * Creates the base material flagged as an octahedral impostor material.
+ */
+function createBaseMaterial<T extends Material>(parameters: CreateOctahedralImpostorBase<T>): T {
   const material = new parameters.baseType();
   material.isOctahedralImpostorMaterial = true;
   material.transparent = parameters.transparent ?? false;
+
+  // Billboards face the light in the shadow pass, so the default back-face shadow side would cull them
+  material.shadowSide = FrontSide;
+
+  return material;
+}
+
+/**
+ * Assigns atlas textures, shader defines and uniforms to an impostor material.
+ */
+function configureImpostorMaterial<T extends Material>(
+  material: T,
+  parameters: CreateOctahedralImpostorBase<T>,
+  atlas: ImpostorAtlasTextures
+): void {
+  const { albedo, normalDepth, depthRange, orm, emissive, spriteBounds } = atlas;
+  const useOrmMap = !!(material as any).isMeshStandardMaterial && !!orm;
+  const useEmissiveMap = !!(material as any).emissive && !!emissive;
+  const useParallax = !!parameters.parallax;
+
+  // Parallax samples frames away from the card corners, so it keeps the full card
+  const useTrimmedFrames = !!spriteBounds && !useParallax;
   
   // Assign textures
   (material as any).map = albedo;
   (material as any).normalMap = normalDepth;
 
+  if (useOrmMap) {
+    // Baked values already include the source factors
+    (material as any).roughness = 1;
+    (material as any).metalness = 1;
+  }
+
+  if (useEmissiveMap) {
+    // Baked radiance already includes the source emissive color and intensity
+    (material as any).emissiveMap = emissive;
+    (material as any).emissive.setRGB(1, 1, 1);
+  }
+
   // Configure shader defines
   material.octahedralImpostorDefines = {
     OCTAHEDRAL_USE_NORMAL: true,
+    ...(useOrmMap && { OCTAHEDRAL_USE_ORM: true }),
+    ...(useEmissiveMap && { OCTAHEDRAL_USE_EMISSIVE: true }),
+    ...(useParallax && { OCTAHEDRAL_USE_PARALLAX: true }),
+    ...(parameters.writeDepth && { OCTAHEDRAL_WRITE_DEPTH: true }),
+    ...(parameters.cameraType === CameraType.PERSPECTIVE && { OCTAHEDRAL_PERSPECTIVE_ATLAS: true }),
+    ...(atlas.normalDepthLayout === NormalDepthLayout.PACKED && { OCTAHEDRAL_PACKED_NORMAL_DEPTH: true }),
+    ...(atlas.normalDepthLayout === NormalDepthLayout.PACKED_NORMAL && { OCTAHEDRAL_PACKED_NORMAL: true }),
     ...(parameters.octahedralMode === OctahedralMode.HEMISPHERICAL && { OCTAHEDRAL_USE_HEMI_OCTAHEDRON: true }),
-    ...(parameters.transparent && { OCTAHEDRAL_TRANSPARENT: true })
+    ...(parameters.transparent && { OCTAHEDRAL_TRANSPARENT: true }),
+    ...(parameters.trilinear && { OCTAHEDRAL_TRILINEAR: true }),
+    ...(useTrimmedFrames && { OCTAHEDRAL_TRIMMED_FRAMES: true })
   };
 
-  // Configure uniforms
-  const scale = parameters.scale ?? DEFAULT_CONFIG.SCALE;
+  // Configure uniforms, tightly framed atlases shrink the billboard to their frames
+  const frameScale = atlas.frameScale ?? 1;
+  const scale = (parameters.scale ?? DEFAULT_CONFIG.SCALE) * frameScale;
   const translation = parameters.translation ?? DEFAULT_CONFIG.TRANSLATION;
   const spritesPerSide = parameters.spritesPerSide ?? DEFAULT_CONFIG.SPRITES_PER_SIDE;
   const alphaClamp = parameters.alphaClamp ?? DEFAULT_CONFIG.ALPHA_CLAMP;
+  const gutter = atlas.gutter ?? DEFAULT_CONFIG.GUTTER;
 
   material.octahedralImpostorUniforms = {
     spritesPerSide: { value: spritesPerSide },
+    spriteGutter: { value: gutter * spritesPerSide / albedo.image.width },
     alphaClamp: { value: alphaClamp },
     transform: { 
       value: new Matrix4()
@@ -435,15 +851,85 @@ export function createOctahedralImpostorMaterial<T extends Material>(
         .setPosition(translation) 
     },
     disableBlending: { value: parameters.disableBlending ? 1.0 : 0.0 },
-    hybridDistance: { value: parameters.hybridDistance ?? DEFAULT_CONFIG.HYBRID_DISTANCE }
+    hybridDistance: { value: parameters.hybridDistance ?? DEFAULT_CONFIG.HYBRID_DISTANCE },
+    parallaxScale: { value: parameters.parallaxScale ?? DEFAULT_CONFIG.PARALLAX_SCALE },
+    bakeDepthRange: { value: new Vector3(depthRange.near, depthRange.far, depthRange.cameraDistance) },
+    ...(useOrmMap && { ormMap: { value: orm! } }),
+    ...(useTrimmedFrames && { spriteBounds: { value: spriteBounds! } })
   };
 
+  material.octahedralImpostorFrameScale = frameScale;
+
   // Setup shader compilation override
   setupMaterialShaderOverride(material);
+}
+
+/**
+ * Creates the depth and distance materials used to render an impostor into shadow maps.
+ * They share the uniforms of the color material, so frames follow the light and
+ * the silhouette is alpha tested with the same alphaClamp.
+ * 
+ * @param material - Octahedral impostor material to derive the shadow materials from
+ * @returns Depth material (directional/spot lights) and distance material (point lights)
+ */
+export function createOctahedralImpostorShadowMaterials(material: Material): {
+  depthMaterial: MeshDepthMaterial;
+  distanceMaterial: MeshDistanceMaterial;
+} {
+  if (!material?.isOctahedralImpostorMaterial) {
+    throw new Error('createOctahedralImpostorShadowMaterials: material must be an octahedral impostor material');
+  }
+
+  return {
+    depthMaterial: setupShadowMaterial(material, new MeshDepthMaterial({ depthPacking: RGBADepthPacking })),
+    distanceMaterial: setupShadowMaterial(material, new MeshDistanceMaterial())
+  };
+}
+
+/**
+ * Configures a shadow material to render the same billboard projection as the source material.
+ */
+function setupShadowMaterial<T extends Material>(source: Material, material: T): T {
+  const sourceDefines = source.octahedralImpostorDefines!;
+
+  material.isOctahedralImpostorMaterial = true;
+  (material as any).map = (source as any).map;
+
+  // Only the silhouette is needed: lighting, parallax and depth writing stay in the color pass
+  material.octahedralImpostorDefines = {
+    ...(sourceDefines.OCTAHEDRAL_USE_HEMI_OCTAHEDRON && { OCTAHEDRAL_USE_HEMI_OCTAHEDRON: true }),
+    ...(sourceDefines.OCTAHEDRAL_TRIMMED_FRAMES && { OCTAHEDRAL_TRIMMED_FRAMES: true })
+  };
+  material.octahedralImpostorUniforms = source.octahedralImpostorUniforms;
+
+  setupMaterialShaderOverride(material);
 
   return material;
 }
 
+/**
+ * Creates a copy of an impostor material that is dithered out according to a fade uniform.
+ * All other uniforms stay shared with the source material.
+ * 
+ * @param material - Octahedral impostor material to copy
+ * @param lodFade - Fade uniform (1 = opaque, 0 = hidden, negative values select the complementary pattern)
+ * @returns Impostor material with screen-door fading enabled
+ */
+export function createOctahedralImpostorFadeMaterial<T extends Material>(material: T, lodFade: IUniform<number>): T {
+  if (!material?.isOctahedralImpostorMaterial) {
+    throw new Error('createOctahedralImpostorFadeMaterial: material must be an octahedral impostor material');
+  }
+
+  const fadeMaterial = material.clone();
+  fadeMaterial.isOctahedralImpostorMaterial = true;
+  fadeMaterial.octahedralImpostorDefines = { ...material.octahedralImpostorDefines, OCTAHEDRAL_DITHER_FADE: true };
+  fadeMaterial.octahedralImpostorUniforms = { ...material.octahedralImpostorUniforms!, lodFade };
+
+  setupMaterialShaderOverride(fadeMaterial);
+
+  return fadeMaterial;
+}
+
 /**
  * Sets up shader compilation overrides for octahedral impostor materials.
  * Modifies the material's shader compilation process to inject impostor-specific code.
@@ -459,14 +945,19 @@ function setupMaterialShaderOverride(material: Material): void {
     // Replace vertex shader chunks
     shader.vertexShader = shader.vertexShader
       .replace('#include <clipping_planes_pars_vertex>', IMPOSTOR_VERTEX_PARAMS)
-      .replace('#include <project_vertex>', IMPOSTOR_VERTEX_TRANSFORM);
+      .replace('#include <project_vertex>', IMPOSTOR_VERTEX_TRANSFORM)
+      .replace('#include <worldpos_vertex>', IMPOSTOR_WORLDPOS_VERTEX);
 
     // Replace fragment shader chunks
     shader.fragmentShader = shader.fragmentShader
       .replace('#include <clipping_planes_pars_fragment>', IMPOSTOR_FRAGMENT_PARAMS)
       .replace('#include <normal_fragment_begin>', IMPOSTOR_NORMAL_FRAGMENT)
       .replace('#include <normal_fragment_maps>', '// #include <normal_fragment_maps>')
-      .replace('#include <map_fragment>', IMPOSTOR_MAP_FRAGMENT);
+      .replace('#include <map_fragment>', IMPOSTOR_MAP_FRAGMENT)
+      .replace('#include <roughnessmap_fragment>', IMPOSTOR_ROUGHNESS_FRAGMENT)
+      .replace('#include <metalnessmap_fragment>', IMPOSTOR_METALNESS_FRAGMENT)
+      .replace('#include <aomap_fragment>', IMPOSTOR_AO_FRAGMENT)
+      .replace('#include <emissivemap_fragment>', IMPOSTOR_EMISSIVE_FRAGMENT);
 
     // Call original onBeforeCompile if it exists
     originalOnBeforeCompile?.call(material, shader, renderer);
@@ -477,13 +968,112 @@ function setupMaterialShaderOverride(material: Material): void {
 
   material.customProgramCacheKey = () => {
     const defines = material.octahedralImpostorDefines!;
-    const hemiOcta = !!defines.OCTAHEDRAL_USE_HEMI_OCTAHEDRON;
-    const useNormal = !!defines.OCTAHEDRAL_USE_NORMAL;
-    const useOrm = !!defines.OCTAHEDRAL_USE_ORM;
+    const enabledDefines = Object.keys(defines)
+      .filter((key) => defines[key as keyof typeof defines])
+      .sort()
+      .join('_');
     const transparent = !!material.transparent;
 
     const baseKey = originalCustomProgramCacheKey?.call(material) ?? '';
-    return `octahedral_${hemiOcta}_${transparent}_${useNormal}_${useOrm}_${baseKey}`;
+    return `octahedral_${transparent}_${enabledDefines}_${baseKey}`;
+  };
+}
+
+// ============================================================================
+// FRAME SELECTION
+// ============================================================================
+
+/**
+ * Frames an impostor blends for a view, as selected by its vertex shader.
+ */
+export interface ImpostorFrameSelection {
+  /** Grid coordinates of the closest frame */
+  sprite1: Vector2;
+  /** Grid coordinates of the second frame, on the next column or row */
+  sprite2: Vector2;
+  /** Grid coordinates of the diagonal frame */
+  sprite3: Vector2;
+  /** Weights of the three frames, a single frame is kept when blending is disabled */
+  weights: Vector3;
+  /** Unit direction the frames were selected from, in the impostor frame */
+  direction: Vector3;
+}
+
+/** Reusable objects for frame selection */
+const FRAME_SELECTION_RESOURCES = {
+  transform: new Matrix4(),
+  instanceMatrix: new Matrix4(),
+  worldToLocal: new Matrix4(),
+  cameraPosLocal: new Vector3()
+};
+
+/**
+ * Selects the frames an impostor blends for a camera, with the same math as its vertex shader:
+ * world and instance transforms, orthographic views and the hybrid distance are all accounted for.
+ * Works with the impostor materials of this module and with OctahedralImpostorNodeMaterial.
+ * World matrices are used as they are, so update them first when the scene was not rendered yet.
+ *
+ * @param impostor - Impostor mesh, or instanced mesh of impostors
+ * @param camera - Camera the impostor is rendered with, or a camera position in world space
+ * @param instanceId - Instance to select frames for when the impostor is an instanced mesh (default: 0)
+ * @returns Selected frames, their weights and the view direction
+ */
+export function selectImpostorFrames(impostor: Mesh, camera: Camera | Vector3, instanceId = 0): ImpostorFrameSelection {
+  const { transform, instanceMatrix, worldToLocal, cameraPosLocal } = FRAME_SELECTION_RESOURCES;
+  const material = impostor.material as Material;
+
+  let spritesPerSide: number;
+  let disableBlending: boolean;
+  let hybridDistance: number;
+  let hemispherical: boolean;
+
+  if (material?.isOctahedralImpostorMaterial) {
+    const uniforms = material.octahedralImpostorUniforms!;
+    spritesPerSide = uniforms.spritesPerSide.value;
+    disableBlending = uniforms.disableBlending.value > 0.5;
+    hybridDistance = uniforms.hybridDistance.value;
+    hemispherical = !!material.octahedralImpostorDefines?.OCTAHEDRAL_USE_HEMI_OCTAHEDRON;
+    transform.copy(uniforms.transform.value);
+  } else if ((material as OctahedralImpostorNodeMaterial)?.isOctahedralImpostorNodeMaterial) {
+    const { impostorUniforms: uniforms, octahedralMode } = material as OctahedralImpostorNodeMaterial;
+    const scale = uniforms.scale.value;
+    spritesPerSide = uniforms.spritesPerSide.value;
+    disableBlending = uniforms.disableBlending.value > 0.5;
+    hybridDistance = uniforms.hybridDistance.value;
+    hemispherical = octahedralMode === OctahedralMode.HEMISPHERICAL;
+    transform.makeScale(scale, scale, scale).setPosition(uniforms.translation.value);
+  } else {
+    throw new Error('selectImpostorFrames: impostor must use an octahedral impostor material');
+  }
+
+  // Instances apply the impostor transform on top of their matrix, plain meshes only use their world matrix
+  worldToLocal.copy(impostor.matrixWorld);
+  if ((impostor as InstancedMesh).isInstancedMesh) {
+    (impostor as InstancedMesh).getMatrixAt(instanceId, instanceMatrix);
+    worldToLocal.multiply(instanceMatrix).multiply(transform);
+  }
+  worldToLocal.invert();
+
+  // Orthographic views (e.g. directional light shadows) select frames from the view direction
+  if ((camera as Vector3).isVector3) {
+    cameraPosLocal.copy(camera as Vector3).applyMatrix4(worldToLocal);
+  } else if ((camera as OrthographicCamera).isOrthographicCamera) {
+    cameraPosLocal.setFromMatrixColumn((camera as Camera).matrixWorld, 2).transformDirection(worldToLocal);
+  } else {
+    cameraPosLocal.setFromMatrixPosition((camera as Camera).matrixWorld).applyMatrix4(worldToLocal);
+  }
+
+  const direction = getCameraDirection(CPU_SHADER_MATH, cameraPosLocal.toArray(), hybridDistance, hemispherical) as number[];
+  const spritesMinusOne = spritesPerSide - 1;
+  const frames = selectFrames(CPU_SHADER_MATH, direction, [spritesMinusOne, spritesMinusOne], hemispherical);
+  const spritesWeight = frames.spritesWeight as number[];
+
+  return {
+    sprite1: new Vector2().fromArray(frames.sprite1 as number[]),
+    sprite2: new Vector2().fromArray(frames.sprite2 as number[]),
+    sprite3: new Vector2().fromArray(frames.sprite3 as number[]),
+    weights: new Vector3().fromArray(disableBlending ? getDominantWeights(CPU_SHADER_MATH, spritesWeight) as number[] : spritesWeight),
+    direction: new Vector3().fromArray(direction)
   };
 }
 
@@ -665,10 +1255,21 @@ export class OctahedralImpostor<M extends Material = Material> extends Mesh<Plan
         // Create the material
         this.material = createOctahedralImpostorMaterial(params);
       }
+
+      // The atlas is baked in the local frame of the target, so match its rotation
+      params.target.getWorldQuaternion(this.quaternion);
+
+      // Match the billboard to the baked frames
+      this.scale.multiplyScalar(this.material.octahedralImpostorFrameScale ?? 1);
     } else {
       // Material is already configured
       this.material = materialOrParams as M;
     }
+
+    // Render the billboard silhouette into shadow maps
+    const { depthMaterial, distanceMaterial } = createOctahedralImpostorShadowMaterials(this.material);
+    this.customDepthMaterial = depthMaterial;
+    this.customDistanceMaterial = distanceMaterial;
   }
 
   /**
@@ -695,6 +1296,7 @@ export class OctahedralImpostor<M extends Material = Material> extends Mesh<Plan
     alphaClamp: number;
     disableBlending: boolean;
     hybridDistance: number;
+    parallaxScale: number;
   }>): void {
     const material = this.material as any;
     const uniforms = material.octahedralImpostorUniforms;
@@ -715,6 +1317,9 @@ export class OctahedralImpostor<M extends Material = Material> extends Mesh<Plan
       if (updates.hybridDistance !== undefined && uniforms.hybridDistance) {
         uniforms.hybridDistance.value = updates.hybridDistance;
       }
+      if (updates.parallaxScale !== undefined && uniforms.parallaxScale) {
+        uniforms.parallaxScale.value = updates.parallaxScale;
+      }
     }
   }
 
@@ -727,16 +1332,17 @@ export class OctahedralImpostor<M extends Material = Material> extends Mesh<Plan
    */
   public updateSmartPositioning(target: Object3D, smartConfig: Partial<SmartImpostorConfig> = {}): void {
     const newPositioning = calculateSmartImpostorPositioning(target, smartConfig);
+    const scale = newPositioning.scale * (this.material.octahedralImpostorFrameScale ?? 1);
     
     // Update mesh transform
     this.position.copy(newPositioning.position);
-    this.scale.setScalar(newPositioning.scale);
+    this.scale.setScalar(scale);
     
     // Update material uniforms
     const material = this.material as any;
     if (material.octahedralImpostorUniforms?.transform) {
       const transform = new Matrix4()
-        .makeScale(newPositioning.scale, newPositioning.scale, newPositioning.scale)
+        .makeScale(scale, scale, scale)
         .setPosition(newPositioning.position);
       material.octahedralImpostorUniforms.transform.value.copy(transform);
     }
@@ -0,0 +1,260 @@
+/**
+ * Minimal KTX2 container support for block compressed atlases
+ * Writes and reads non-supercompressed BC1/BC3/BC5 textures, without the Basis transcoder KTX2Loader requires
+ */
+
+import { CompressedTexture, NoColorSpace, SRGBColorSpace } from 'three';
+
+import {
+  BlockCompressionFormat,
+  CompressedImage,
+  createCompressedTexture,
+  getBlockCompressionFormat
+} from './block-compression.js';
+
+// ============================================================================
+// KTX2 CONSTANTS
+// ============================================================================
+
+/** KTX2 file identifier */
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Byte size of the header, index and level index of a single-level file */
+const KTX2_HEADER_SIZE = 80;
+const KTX2_LEVEL_INDEX_SIZE = 24;
+
+/** Vulkan formats and data format descriptor values of each block compression format */
+const KTX2_FORMATS: Record<BlockCompressionFormat, {
+  /** VkFormat with linear values */
+  unorm: number;
+  /** VkFormat with sRGB values, if the format has one */
+  srgb?: number;
+  /** KHR_DF_MODEL_* color model */
+  colorModel: number;
+  /** Channel id of each 64-bit sample */
+  channels: number[];
+  /** Whether each sample stays linear in sRGB textures (alpha) */
+  linearChannels: boolean[];
+  /** Bytes per block */
+  blockBytes: number;
+}> = {
+  [BlockCompressionFormat.BC1]: {
+    unorm: 133, srgb: 134, colorModel: 128, channels: [1], linearChannels: [false], blockBytes: 8
+  },
+  [BlockCompressionFormat.BC3]: {
+    unorm: 137, srgb: 138, colorModel: 130, channels: [15, 0], linearChannels: [true, false], blockBytes: 16
+  },
+  [BlockCompressionFormat.BC5]: {
+    unorm: 141, colorModel: 132, channels: [0, 1], linearChannels: [false, false], blockBytes: 16
+  }
+};
+
+/** KHR_DF_TRANSFER_* values */
+const KHR_DF_TRANSFER_LINEAR = 1;
+const KHR_DF_TRANSFER_SRGB = 2;
+
+/** KHR_DF_SAMPLE_DATATYPE_LINEAR flag of a sample channel type */
+const KHR_DF_SAMPLE_DATATYPE_LINEAR = 0x10;
+
+// ============================================================================
+// KTX2 ENCODING
+// ============================================================================
+
+/**
+ * Encodes a block compressed image as a KTX2 file.
+ * Rows are stored in upload order, which the file records with the "ru" KTXorientation.
+ *
+ * @param image - Compressed image
+ * @param srgb - Whether the values are sRGB encoded (ignored for BC5)
+ * @returns KTX2 file bytes
+ */
+export function encodeKTX2(image: CompressedImage, srgb = false): Uint8Array {
+  const { format, width, height, data } = image;
+  const info = KTX2_FORMATS[format];
+  const isSRGB = srgb && info.srgb !== undefined;
+
+  const dfd = createDataFormatDescriptor(format, isSRGB);
+  const kvd = createKeyValueData({ KTXorientation: 'ru', KTXwriter: 'octahedral-impostor' });
+
+  const dfdOffset = KTX2_HEADER_SIZE + KTX2_LEVEL_INDEX_SIZE;
+  const kvdOffset = dfdOffset + dfd.length;
+  // Level data is aligned to the least common multiple of the block size and 4
+  const levelOffset = align(kvdOffset + kvd.length, info.blockBytes);
+
+  const output = new Uint8Array(levelOffset + data.length);
+  const view = new DataView(output.buffer);
+  output.set(KTX2_IDENTIFIER, 0);
+
+  view.setUint32(12, isSRGB ? info.srgb! : info.unorm, true); // vkFormat
+  view.setUint32(16, 1, true); // typeSize
+  view.setUint32(20, width, true);
+  view.setUint32(24, height, true);
+  view.setUint32(28, 0, true); // pixelDepth
+  view.setUint32(32, 0, true); // layerCount
+  view.setUint32(36, 1, true); // faceCount
+  view.setUint32(40, 1, true); // levelCount
+  view.setUint32(44, 0, true); // supercompressionScheme
+
+  view.setUint32(48, dfdOffset, true);
+  view.setUint32(52, dfd.length, true);
+  view.setUint32(56, kvdOffset, true);
+  view.setUint32(60, kvd.length, true);
+  view.setBigUint64(64, 0n, true); // sgdByteOffset
+  view.setBigUint64(72, 0n, true); // sgdByteLength
+
+  view.setBigUint64(80, BigInt(levelOffset), true);
+  view.setBigUint64(88, BigInt(data.length), true);
+  view.setBigUint64(96, BigInt(data.length), true);
+
+  output.set(dfd, dfdOffset);
+  output.set(kvd, kvdOffset);
+  output.set(data, levelOffset);
+
+  return output;
+}
+
+/**
+ * Encodes a compressed texture created by the block compression module as a KTX2 file.
+ *
+ * @param texture - BC1, BC3 or BC5 compressed texture
+ * @returns KTX2 file bytes
+ */
+export function encodeCompressedTextureAsKTX2(texture: CompressedTexture): Uint8Array {
+  const format = getBlockCompressionFormat(texture);
+  const level = texture.mipmaps?.[0] as { data: Uint8Array; width: number; height: number } | undefined;
+
+  if (!format || !level) {
+    throw new Error('encodeCompressedTextureAsKTX2: texture must be a BC1, BC3 or BC5 compressed texture');
+  }
+
+  return encodeKTX2(
+    { format, width: level.width, height: level.height, data: level.data },
+    texture.colorSpace === SRGBColorSpace
+  );
+}
+
+/**
+ * Builds the basic data format descriptor block of a block compressed format.
+ */
+function createDataFormatDescriptor(format: BlockCompressionFormat, srgb: boolean): Uint8Array {
+  const info = KTX2_FORMATS[format];
+  const blockSize = 24 + info.channels.length * 16;
+  const output = new Uint8Array(4 + blockSize);
+  const view = new DataView(output.buffer);
+
+  view.setUint32(0, output.length, true); // dfdTotalSize
+  view.setUint32(4, 0, true); // vendorId = KHR, descriptorType = basic
+  view.setUint16(8, 2, true); // versionNumber
+  view.setUint16(10, blockSize, true);
+  output[12] = info.colorModel;
+  output[13] = 1; // BT.709 primaries
+  output[14] = srgb ? KHR_DF_TRANSFER_SRGB : KHR_DF_TRANSFER_LINEAR;
+  output[15] = 0; // Straight alpha
+  output[16] = 3; // 4x4 texel blocks (dimensions minus one)
+  output[17] = 3;
+  output[20] = info.blockBytes; // bytesPlane0
+
+  info.channels.forEach((channel, index) => {
+    const sample = 28 + index * 16;
+    const linear = srgb && info.linearChannels[index] ? KHR_DF_SAMPLE_DATATYPE_LINEAR : 0;
+
+    view.setUint16(sample, index * 64, true); // bitOffset
+    output[sample + 2] = 63; // bitLength minus one
+    output[sample + 3] = channel | linear;
+    view.setUint32(sample + 8, 0, true); // sampleLower
+    view.setUint32(sample + 12, 0xffffffff, true); // sampleUpper
+  });
+
+  return output;
+}
+
+/**
+ * Builds the key/value data block, each entry padded to 4 bytes.
+ */
+function createKeyValueData(entries: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+
+  for (const [key, value] of Object.entries(entries)) {
+    const keyValue = encoder.encode(`${key}\0${value}\0`);
+    const chunk = new Uint8Array(align(4 + keyValue.length, 4));
+    new DataView(chunk.buffer).setUint32(0, keyValue.length, true);
+    chunk.set(keyValue, 4);
+    chunks.push(chunk);
+  }
+
+  const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return output;
+}
+
+/**
+ * Rounds an offset up to a multiple of the alignment.
+ */
+function align(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+// ============================================================================
+// KTX2 DECODING
+// ============================================================================
+
+/**
+ * Decodes a non-supercompressed BC1, BC3 or BC5 KTX2 file, such as those written by encodeKTX2.
+ * Only the first mip level is read.
+ *
+ * @param buffer - KTX2 file bytes
+ * @returns Compressed image and whether its values are sRGB encoded
+ */
+export function decodeKTX2(buffer: ArrayBuffer | Uint8Array): { image: CompressedImage; srgb: boolean } {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length < KTX2_HEADER_SIZE + KTX2_LEVEL_INDEX_SIZE || KTX2_IDENTIFIER.some((value, i) => bytes[i] !== value)) {
+    throw new Error('decodeKTX2: not a KTX2 file');
+  }
+
+  const vkFormat = view.getUint32(12, true);
+  const width = view.getUint32(20, true);
+  const height = view.getUint32(24, true);
+  const supercompression = view.getUint32(44, true);
+
+  if (supercompression !== 0) {
+    throw new Error(`decodeKTX2: supercompression scheme ${supercompression} is not supported`);
+  }
+
+  const format = (Object.keys(KTX2_FORMATS) as BlockCompressionFormat[])
+    .find((key) => KTX2_FORMATS[key].unorm === vkFormat || KTX2_FORMATS[key].srgb === vkFormat);
+
+  if (!format) {
+    throw new Error(`decodeKTX2: unsupported vkFormat ${vkFormat}`);
+  }
+
+  const levelOffset = Number(view.getBigUint64(80, true));
+  const levelLength = Number(view.getBigUint64(88, true));
+
+  if (levelOffset + levelLength > bytes.length) {
+    throw new Error('decodeKTX2: truncated file');
+  }
+
+  return {
+    image: { format, width, height, data: bytes.slice(levelOffset, levelOffset + levelLength) },
+    srgb: KTX2_FORMATS[format].srgb === vkFormat
+  };
+}
+
+/**
+ * Decodes a KTX2 file written by encodeKTX2 into a Three.js compressed texture.
+ *
+ * @param buffer - KTX2 file bytes
+ * @returns Compressed texture without mipmaps
+ */
+export function createTextureFromKTX2(buffer: ArrayBuffer | Uint8Array): CompressedTexture {
+  const { image, srgb } = decodeKTX2(buffer);
+  return createCompressedTexture(image, srgb ? SRGBColorSpace : NoColorSpace);
+}
@@ -0,0 +1,332 @@
+/**
+ * Conformance of the octahedral function backends
+ * The emitted GLSL and the TSL node graph are evaluated on the CPU and compared with CPU_SHADER_MATH
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Vector2, Vector3, Vector4 } from 'three';
+import { vec2, vec3, vec4 } from 'three/tsl';
+
+import { TSL_SHADER_MATH } from './impostor-node-material.js';
+import {
+  CPU_SHADER_MATH,
+  getDominantWeights,
+  OCTAHEDRAL_FRAGMENT_FUNCTIONS,
+  OCTAHEDRAL_VERTEX_FUNCTIONS,
+  selectFrames
+} from './octahedral-functions.js';
+
+// ============================================================================
+// EVALUATED VALUES
+// ============================================================================
+
+/** Value of an evaluated GLSL expression or TSL node */
+type Value = number | boolean | number[];
+
+const SWIZZLE_INDICES: Record<string, number> = { x: 0, y: 1, z: 2, w: 3, r: 0, g: 1, b: 2, a: 3 };
+
+function swizzle(value: Value, components: string): Value {
+  const values = Array.from(components, (component) => (value as number[])[SWIZZLE_INDICES[component]]);
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Builds a vector from scalars and vectors, broadcasting a single scalar as GLSL constructors do.
+ */
+function construct(size: number, args: Value[]): number[] {
+  const components = args.flatMap((arg) => (typeof arg === 'boolean' ? [Number(arg)] : arg));
+  return components.length === 1 ? new Array<number>(size).fill(components[0]) : components.slice(0, size);
+}
+
+function componentWise(a: Value, b: Value, operation: (a: number, b: number) => number): Value {
+  if (!Array.isArray(a) && !Array.isArray(b)) return operation(a as number, b as number);
+
+  const size = Array.isArray(a) ? a.length : (b as number[]).length;
+  return Array.from({ length: size }, (_, i) => operation(
+    Array.isArray(a) ? a[i] : (a as number),
+    Array.isArray(b) ? b[i] : (b as number)
+  ));
+}
+
+function dot(a: Value, b: Value): number {
+  return (componentWise(a, b, (x, y) => x * y) as number[]).reduce((sum, value) => sum + value, 0);
+}
+
+const BUILTINS: Record<string, (...args: Value[]) => Value> = {
+  vec2: (...args) => construct(2, args),
+  vec3: (...args) => construct(3, args),
+  vec4: (...args) => construct(4, args),
+  float: (value) => Number(value),
+  abs: (value) => componentWise(value, 0, (x) => Math.abs(x)),
+  sign: (value) => componentWise(value, 0, (x) => Math.sign(x)),
+  floor: (value) => componentWise(value, 0, (x) => Math.floor(x)),
+  ceil: (value) => componentWise(value, 0, (x) => Math.ceil(x)),
+  fract: (value) => componentWise(value, 0, (x) => x - Math.floor(x)),
+  min: (a, b) => componentWise(a, b, Math.min),
+  max: (a, b) => componentWise(a, b, Math.max),
+  dot: (a, b) => dot(a, b),
+  cross: (a, b) => {
+    const [ax, ay, az] = a as number[];
+    const [bx, by, bz] = b as number[];
+    return [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+  },
+  length: (value) => Math.sqrt(dot(value, value)),
+  normalize: (value) => componentWise(value, Math.sqrt(dot(value, value)), (x, length) => x / length)
+};
+
+const OPERATORS: Record<string, (a: Value, b: Value) => Value> = {
+  '+': (a, b) => componentWise(a, b, (x, y) => x + y),
+  '-': (a, b) => componentWise(a, b, (x, y) => x - y),
+  '*': (a, b) => componentWise(a, b, (x, y) => x * y),
+  '/': (a, b) => componentWise(a, b, (x, y) => x / y),
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '&&': (a, b) => !!(a && b)
+};
+
+// ============================================================================
+// GLSL EVALUATION
+// ============================================================================
+
+/**
+ * Keeps the lines of the branches enabled by the defines.
+ */
+function preprocess(source: string, defines: string[]): string {
+  const enabled: boolean[] = [];
+
+  return source.split('\n').filter((line) => {
+    const [directive, name] = line.trim().split(/\s+/);
+
+    if (directive === '#ifdef') enabled.push(defines.includes(name));
+    else if (directive === '#else') enabled.push(!enabled.pop());
+    else if (directive === '#endif') enabled.pop();
+    else return enabled.every(Boolean);
+
+    return false;
+  }).join('\n');
+}
+
+/**
+ * Evaluates GLSL expressions: literals, variables, swizzles, calls, arithmetic, comparisons and ternaries.
+ */
+function evaluateGLSLExpression(code: string, variables: Record<string, Value>): Value {
+  const tokens = code.match(/\d+\.\d*(?:e[+-]?\d+)?|\w+|>=|&&|[-+*/<>?:(),.]/g)!;
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected ${token} in ${code}`);
+  };
+
+  const parsePrimary = (): Value => {
+    const token = next();
+    let value: Value;
+
+    if (token === '(') {
+      value = parseTernary();
+      expect(')');
+    } else if (token === '-') {
+      value = componentWise(parsePrimary(), 0, (x) => -x);
+    } else if (/^\d/.test(token)) {
+      value = parseFloat(token);
+    } else if (peek() === '(') {
+      next();
+      const args: Value[] = [];
+      while (peek() !== ')') {
+        args.push(parseTernary());
+        if (peek() === ',') next();
+      }
+      expect(')');
+      value = BUILTINS[token](...args);
+    } else if (token in variables) {
+      value = variables[token];
+    } else {
+      throw new Error(`Unknown identifier ${token} in ${code}`);
+    }
+
+    while (peek() === '.') {
+      next();
+      value = swizzle(value, next());
+    }
+
+    return value;
+  };
+
+  const PRECEDENCE: Record<string, number> = { '&&': 1, '>': 2, '>=': 2, '<': 2, '+': 3, '-': 3, '*': 4, '/': 4 };
+
+  const parseBinary = (minPrecedence: number): Value => {
+    let left = parsePrimary();
+
+    while (PRECEDENCE[peek()] >= minPrecedence) {
+      const operator = next();
+      const right = parseBinary(PRECEDENCE[operator] + 1);
+      left = OPERATORS[operator](left, right);
+    }
+
+    return left;
+  };
+
+  const parseTernary = (): Value => {
+    const condition = parseBinary(1);
+    if (peek() !== '?') return condition;
+
+    next();
+    const a = parseTernary();
+    expect(':');
+    const b = parseTernary();
+    return condition ? a : b;
+  };
+
+  const value = parseTernary();
+  if (position !== tokens.length) throw new Error(`Unexpected ${peek()} in ${code}`);
+  return value;
+}
+
+/**
+ * Calls a function of a GLSL chunk, returning its return value and out parameters by name.
+ */
+function callGLSLFunction(
+  source: string,
+  defines: string[],
+  name: string,
+  args: Value[]
+): Record<string, Value> {
+  const match = new RegExp(`\\w+ ${name}\\(([^)]*)\\) \\{\\n([\\s\\S]*?)\\n\\}`).exec(preprocess(source, defines));
+  if (!match) throw new Error(`Function ${name} not found`);
+
+  const parameters = match[1].split(', ').map((parameter) => parameter.split(' ').pop()!);
+  const variables: Record<string, Value> = Object.fromEntries(args.map((arg, index) => [parameters[index], arg]));
+  const outputs: Record<string, Value> = {};
+
+  for (const statement of match[2].trim().split(/;\s*/).filter(Boolean)) {
+    const returned = /^return (.*)$/.exec(statement);
+    if (returned) {
+      outputs.return = evaluateGLSLExpression(returned[1], variables);
+      break;
+    }
+
+    const [, , variable, expression] = /^(\w+ )?(\w+) = (.*)$/.exec(statement)!;
+    variables[variable] = evaluateGLSLExpression(expression, variables);
+    if (parameters.indexOf(variable) >= args.length) outputs[variable] = variables[variable];
+  }
+
+  return outputs;
+}
+
+// ============================================================================
+// TSL EVALUATION
+// ============================================================================
+
+/**
+ * Evaluates a TSL node graph built from constants, operators, math functions, swizzles and conditionals.
+ */
+function evaluateNode(node: any): Value {
+  if (typeof node === 'number') return node;
+  if (node.isVarNode) return evaluateNode(node.node);
+  if (node.isConstNode || node.isUniformNode) {
+    const { value } = node;
+    return value?.isVector2 || value?.isVector3 || value?.isVector4 ? value.toArray() : value;
+  }
+  if (node.isSplitNode) return swizzle(evaluateNode(node.node), node.components);
+  if (node.isOperatorNode) return OPERATORS[node.op](evaluateNode(node.aNode), evaluateNode(node.bNode));
+  if (node.isMathNode) {
+    const args = [node.aNode, node.bNode, node.cNode].filter(Boolean).map(evaluateNode);
+    return BUILTINS[node.method](...args);
+  }
+
+  switch (node.constructor.type) {
+    case 'JoinNode':
+      return node.nodes.flatMap((input: any) => evaluateNode(input));
+    case 'ConvertNode':
+      return BUILTINS[node.convertTo](evaluateNode(node.node));
+    case 'ConditionalNode':
+      return evaluateNode(node.condNode) ? evaluateNode(node.ifNode) : evaluateNode(node.elseNode);
+  }
+
+  throw new Error(`Unsupported node ${node.constructor.type}`);
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+/**
+ * Unit directions over the sphere, with the axes and grid diagonals where frames switch.
+ */
+function createDirections(hemispherical: boolean): number[][] {
+  const directions: number[][] = [
+    [1, 0, 0], [-1, 0, 0], [0, 0, 1], [0, 0, -1], [0, 1, 0],
+    [1, 1, 1], [-1, 1, 1], [1, 1, -1], [-1, 1, -1]
+  ];
+
+  for (let elevation = -6; elevation <= 6; elevation++) {
+    for (let azimuth = 0; azimuth < 24; azimuth++) {
+      const phi = (elevation / 6.5) * (Math.PI / 2);
+      const theta = (azimuth / 24) * Math.PI * 2 + 0.01;
+      directions.push([Math.cos(phi) * Math.cos(theta), Math.sin(phi), Math.cos(phi) * Math.sin(theta)]);
+    }
+  }
+
+  if (!hemispherical) directions.push([0, -1, 0], [1, -1, 1], [-1, -1, -1]);
+
+  return directions
+    .filter((direction) => !hemispherical || direction[1] >= 0)
+    .map((direction) => new Vector3().fromArray(direction).normalize().toArray());
+}
+
+const MODES = [
+  { name: 'HEMISPHERICAL', hemispherical: true, defines: ['OCTAHEDRAL_USE_HEMI_OCTAHEDRON'] },
+  { name: 'SPHERICAL', hemispherical: false, defines: [] }
+];
+
+describe.each(MODES)('octahedral functions ($name)', ({ hemispherical, defines }) => {
+  const directions = createDirections(hemispherical);
+
+  describe.each([8, 16, 31])('%i sprites per side', (spritesPerSide) => {
+    const spritesMinusOne = spritesPerSide - 1;
+
+    it('selects the same frames and weights on every backend', () => {
+      for (const direction of directions) {
+        const cpu = selectFrames(CPU_SHADER_MATH, direction, [spritesMinusOne, spritesMinusOne], hemispherical);
+        const cpuFrames = { spritesWeight: cpu.spritesWeight, sprite1: cpu.sprite1, sprite2: cpu.sprite2, sprite3: cpu.sprite3 };
+
+        const glsl = callGLSLFunction(OCTAHEDRAL_VERTEX_FUNCTIONS, defines, 'selectFrames', [
+          direction,
+          [spritesMinusOne, spritesMinusOne]
+        ]);
+
+        const tsl = selectFrames(
+          TSL_SHADER_MATH,
+          vec3(new Vector3().fromArray(direction)),
+          vec2(new Vector2(spritesMinusOne, spritesMinusOne)),
+          hemispherical
+        );
+        const tslFrames = {
+          spritesWeight: evaluateNode(tsl.spritesWeight),
+          sprite1: evaluateNode(tsl.sprite1),
+          sprite2: evaluateNode(tsl.sprite2),
+          sprite3: evaluateNode(tsl.sprite3)
+        };
+
+        expect(glsl, `GLSL frames of [${direction}]`).toEqual(cpuFrames);
+        expect(tslFrames, `TSL frames of [${direction}]`).toEqual(cpuFrames);
+      }
+    });
+
+    it('keeps the same dominant frame on every backend', () => {
+      for (const direction of directions) {
+        const { spritesWeight } = selectFrames(CPU_SHADER_MATH, direction, [spritesMinusOne, spritesMinusOne], hemispherical);
+        const cpu = getDominantWeights(CPU_SHADER_MATH, spritesWeight);
+
+        const glsl = callGLSLFunction(OCTAHEDRAL_FRAGMENT_FUNCTIONS, defines, 'getDominantWeights', [spritesWeight]);
+        const tsl = evaluateNode(getDominantWeights(TSL_SHADER_MATH, vec4(new Vector4().fromArray(spritesWeight as number[]))));
+
+        expect(glsl.return, `GLSL weights of [${direction}]`).toEqual(cpu);
+        expect(tsl, `TSL weights of [${direction}]`).toEqual(cpu);
+        expect((cpu as number[]).reduce((sum, weight) => sum + weight, 0)).toBe(1);
+      }
+    });
+  });
+});
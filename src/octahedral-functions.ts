@@ -0,0 +1,467 @@
+/**
+ * Single-source octahedral impostor functions
+ * Direction encoding, frame selection, blend weights and billboard basis are written once against ShaderMath,
+ * then emitted as GLSL chunks, TSL nodes (see impostor-node-material.ts) and CPU functions
+ */
+
+// ============================================================================
+// SHADER MATH TYPES
+// ============================================================================
+
+/**
+ * Operations the octahedral functions are written with, implemented once per backend.
+ * Values are floats or float vectors; comparisons return booleans only consumed by select and and.
+ * Arithmetic is component-wise, with scalars broadcast to vectors as in GLSL.
+ */
+export interface ShaderMath<T> {
+  float(value: number): T;
+  vec2(x: T | number, y: T | number): T;
+  vec3(x: T | number, y: T | number, z: T | number): T;
+  vec4(x: T | number, y: T | number, z: T | number, w: T | number): T;
+  /** Components of a vector, e.g. 'x' or 'xz' */
+  swizzle(value: T, components: string): T;
+  add(a: T | number, b: T | number): T;
+  sub(a: T | number, b: T | number): T;
+  mul(a: T | number, b: T | number): T;
+  div(a: T | number, b: T | number): T;
+  abs(value: T): T;
+  sign(value: T): T;
+  floor(value: T): T;
+  ceil(value: T): T;
+  fract(value: T): T;
+  min(a: T, b: T | number): T;
+  dot(a: T, b: T): T;
+  cross(a: T, b: T): T;
+  length(value: T): T;
+  normalize(value: T): T;
+  greaterThan(a: T, b: T | number): T;
+  greaterThanEqual(a: T, b: T | number): T;
+  lessThan(a: T, b: T | number): T;
+  and(a: T, b: T): T;
+  select(condition: T, a: T, b: T): T;
+  /** Stores a value reused by later operations (a local variable on GPU backends) */
+  toVar(value: T, name: string): T;
+}
+
+/**
+ * Frames selected for a view direction.
+ */
+export interface OctahedralFrames<T> {
+  /** xyz: weights of the three frames, w: whether the second frame is on the next column */
+  spritesWeight: T;
+  /** Grid index of the frame the direction falls in */
+  sprite1: T;
+  /** Grid index of the neighbouring frame on the side of the triangle the direction falls in */
+  sprite2: T;
+  /** Grid index of the diagonal frame */
+  sprite3: T;
+}
+
+/**
+ * Billboard basis of a frame direction.
+ */
+export interface OctahedralFrameBasis<T> {
+  tangent: T;
+  bitangent: T;
+}
+
+// ============================================================================
+// OCTAHEDRAL FUNCTIONS
+// ============================================================================
+
+/**
+ * Encodes a unit direction into octahedral grid coordinates in [0, 1].
+ *
+ * @param m - Backend
+ * @param direction - Unit direction
+ * @param hemispherical - Whether the atlas only covers the upper hemisphere
+ * @returns Grid coordinates
+ */
+export function encodeDirection<T>(m: ShaderMath<T>, direction: T, hemispherical: boolean): T {
+  if (hemispherical) {
+    const octahedron = m.toVar(m.div(direction, m.dot(direction, m.sign(direction))), 'octahedron');
+    const x = m.swizzle(octahedron, 'x');
+    const z = m.swizzle(octahedron, 'z');
+    return m.mul(m.vec2(m.add(m.add(x, z), 1), m.add(m.sub(z, x), 1)), 0.5);
+  }
+
+  // Full octahedral encoding, the lower hemisphere is folded over the diagonals
+  const octahedron = m.toVar(m.div(direction, m.dot(m.abs(direction), m.vec3(1, 1, 1))), 'octahedron');
+  const x = m.swizzle(octahedron, 'x');
+  const z = m.swizzle(octahedron, 'z');
+  const signNotZero = m.vec2(
+    m.select(m.greaterThanEqual(x, 0), m.float(1), m.float(-1)),
+    m.select(m.greaterThanEqual(z, 0), m.float(1), m.float(-1))
+  );
+  const folded = m.mul(m.vec2(m.sub(1, m.abs(z)), m.sub(1, m.abs(x))), signNotZero);
+  const encoded = m.select(m.lessThan(m.swizzle(octahedron, 'y'), 0), folded, m.swizzle(octahedron, 'xz'));
+
+  return m.add(m.mul(encoded, 0.5), 0.5);
+}
+
+/**
+ * Decodes the direction of a frame from its grid index.
+ *
+ * @param m - Backend
+ * @param gridIndex - Grid index of the frame, or grid coordinates when spritesMinusOne is 1
+ * @param spritesMinusOne - Number of sprites per side minus one, as a vec2
+ * @param hemispherical - Whether the atlas only covers the upper hemisphere
+ * @returns Unit direction
+ */
+export function decodeDirection<T>(m: ShaderMath<T>, gridIndex: T, spritesMinusOne: T, hemispherical: boolean): T {
+  const gridUV = m.toVar(m.div(gridIndex, spritesMinusOne), 'gridUV');
+  const u = m.swizzle(gridUV, 'x');
+  const v = m.swizzle(gridUV, 'y');
+
+  if (hemispherical) {
+    const x = m.toVar(m.sub(u, v), 'x');
+    const z = m.toVar(m.add(m.add(u, v), -1), 'z');
+    return m.normalize(m.vec3(x, m.sub(m.sub(1, m.abs(x)), m.abs(z)), z));
+  }
+
+  // Full octahedral decoding, the corners unfold onto the lower hemisphere
+  const x = m.toVar(m.sub(m.mul(u, 2), 1), 'x');
+  const z = m.toVar(m.sub(m.mul(v, 2), 1), 'z');
+  const y = m.toVar(m.sub(m.sub(1, m.abs(x)), m.abs(z)), 'y');
+  const unfolded = m.vec3(
+    m.mul(m.sub(1, m.abs(z)), m.select(m.greaterThanEqual(x, 0), m.float(1), m.float(-1))),
+    y,
+    m.mul(m.sub(1, m.abs(x)), m.select(m.greaterThanEqual(z, 0), m.float(1), m.float(-1)))
+  );
+
+  return m.normalize(m.select(m.lessThan(y, 0), unfolded, m.vec3(x, y, z)));
+}
+
+/**
+ * Direction the frames are selected from, for a camera position in the impostor frame.
+ * Hemispherical impostors only tilt to show their top once the camera is above the hybrid distance threshold.
+ *
+ * @param m - Backend
+ * @param cameraPosition - Camera position relative to the impostor center, in the impostor frame
+ * @param hybridDistance - Elevation threshold, relative to a tenth of the camera distance
+ * @param hemispherical - Whether the atlas only covers the upper hemisphere
+ * @returns Unit direction
+ */
+export function getCameraDirection<T>(m: ShaderMath<T>, cameraPosition: T, hybridDistance: T, hemispherical: boolean): T {
+  if (!hemispherical) return m.normalize(cameraPosition);
+
+  const relativeThreshold = m.mul(m.mul(hybridDistance, m.length(cameraPosition)), 0.1);
+  const horizontal = m.vec3(m.swizzle(cameraPosition, 'x'), 0, m.swizzle(cameraPosition, 'z'));
+
+  return m.select(
+    m.greaterThan(m.swizzle(cameraPosition, 'y'), relativeThreshold),
+    m.normalize(cameraPosition),
+    m.normalize(horizontal)
+  );
+}
+
+/**
+ * Selects the three frames surrounding a direction and their blend weights.
+ *
+ * @param m - Backend
+ * @param direction - Unit direction, see getCameraDirection
+ * @param spritesMinusOne - Number of sprites per side minus one, as a vec2
+ * @param hemispherical - Whether the atlas only covers the upper hemisphere
+ * @returns Frame grid indices and weights
+ */
+export function selectFrames<T>(
+  m: ShaderMath<T>,
+  direction: T,
+  spritesMinusOne: T,
+  hemispherical: boolean
+): OctahedralFrames<T> {
+  const grid = m.toVar(m.mul(encodeDirection(m, direction, hemispherical), spritesMinusOne), 'grid');
+  const gridFract = m.toVar(m.fract(grid), 'gridFract');
+  const fractX = m.swizzle(gridFract, 'x');
+  const fractY = m.swizzle(gridFract, 'y');
+
+  const spritesWeight = m.toVar(m.vec4(
+    m.min(m.sub(1, fractX), m.sub(1, fractY)),
+    m.abs(m.sub(fractX, fractY)),
+    m.min(fractX, fractY),
+    m.ceil(m.sub(fractX, fractY))
+  ), 'weights');
+
+  const sprite1 = m.toVar(m.min(m.floor(grid), spritesMinusOne), 'gridFloor');
+  const nextColumn = m.greaterThan(m.swizzle(spritesWeight, 'w'), 0.5);
+  const sprite2 = m.min(m.add(sprite1, m.select(nextColumn, m.vec2(1, 0), m.vec2(0, 1))), spritesMinusOne);
+  const sprite3 = m.min(m.add(sprite1, 1), spritesMinusOne);
+
+  return { spritesWeight, sprite1, sprite2, sprite3 };
+}
+
+/**
+ * Weights keeping only the frame with the highest weight, used when blending is disabled.
+ *
+ * @param m - Backend
+ * @param spritesWeight - Frame weights returned by selectFrames
+ * @returns One-hot weights of the three frames
+ */
+export function getDominantWeights<T>(m: ShaderMath<T>, spritesWeight: T): T {
+  const x = m.swizzle(spritesWeight, 'x');
+  const y = m.swizzle(spritesWeight, 'y');
+  const z = m.swizzle(spritesWeight, 'z');
+
+  return m.select(
+    m.and(m.greaterThanEqual(x, y), m.greaterThanEqual(x, z)),
+    m.vec3(1, 0, 0),
+    m.select(m.greaterThanEqual(y, z), m.vec3(0, 1, 0), m.vec3(0, 0, 1))
+  );
+}
+
+/**
+ * Computes the billboard basis of a frame direction, matching the bake camera orientation.
+ *
+ * @param m - Backend
+ * @param normal - Unit frame direction
+ * @param hemispherical - Whether the atlas only covers the upper hemisphere
+ * @returns Tangent and bitangent of the frame
+ */
+export function computeFrameBasis<T>(m: ShaderMath<T>, normal: T, hemispherical: boolean): OctahedralFrameBasis<T> {
+  const normalY = m.swizzle(normal, 'y');
+  let up = m.select(m.greaterThan(normalY, 0.999), m.vec3(-1, 0, 0), m.vec3(0, 1, 0));
+
+  if (!hemispherical) {
+    up = m.select(m.lessThan(normalY, -0.999), m.vec3(1, 0, 0), up);
+  }
+
+  const tangent = m.toVar(m.normalize(m.cross(up, normal)), 'frameTangent');
+  const bitangent = m.cross(normal, tangent);
+
+  return { tangent, bitangent };
+}
+
+// ============================================================================
+// CPU BACKEND
+// ============================================================================
+
+/** CPU value, a number or the components of a vector */
+export type CPUValue = number | number[];
+
+const SWIZZLE_INDICES: Record<string, number> = { x: 0, y: 1, z: 2, w: 3 };
+
+/**
+ * Applies an operation component-wise, broadcasting scalars.
+ */
+function componentWise(a: CPUValue, b: CPUValue, operation: (a: number, b: number) => number): CPUValue {
+  if (typeof a === 'number' && typeof b === 'number') return operation(a, b);
+
+  const size = typeof a === 'number' ? (b as number[]).length : a.length;
+  const result = new Array<number>(size);
+
+  for (let i = 0; i < size; i++) {
+    result[i] = operation(typeof a === 'number' ? a : a[i], typeof b === 'number' ? b : b[i]);
+  }
+
+  return result;
+}
+
+function mapComponents(value: CPUValue, operation: (value: number) => number): CPUValue {
+  return typeof value === 'number' ? operation(value) : value.map(operation);
+}
+
+function dotComponents(a: CPUValue, b: CPUValue): number {
+  const product = componentWise(a, b, (x, y) => x * y);
+  return typeof product === 'number' ? product : product.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * CPU implementation of the shader math, with vectors as number arrays and booleans as 0 or 1.
+ */
+export const CPU_SHADER_MATH: ShaderMath<CPUValue> = {
+  float: (value) => value,
+  vec2: (x, y) => [x as number, y as number],
+  vec3: (x, y, z) => [x as number, y as number, z as number],
+  vec4: (x, y, z, w) => [x as number, y as number, z as number, w as number],
+  swizzle: (value, components) => {
+    const values = Array.from(components, (component) => (value as number[])[SWIZZLE_INDICES[component]]);
+    return values.length === 1 ? values[0] : values;
+  },
+  add: (a, b) => componentWise(a, b, (x, y) => x + y),
+  sub: (a, b) => componentWise(a, b, (x, y) => x - y),
+  mul: (a, b) => componentWise(a, b, (x, y) => x * y),
+  div: (a, b) => componentWise(a, b, (x, y) => x / y),
+  abs: (value) => mapComponents(value, Math.abs),
+  sign: (value) => mapComponents(value, Math.sign),
+  floor: (value) => mapComponents(value, Math.floor),
+  ceil: (value) => mapComponents(value, Math.ceil),
+  fract: (value) => mapComponents(value, (x) => x - Math.floor(x)),
+  min: (a, b) => componentWise(a, b, Math.min),
+  dot: dotComponents,
+  cross: (a, b) => {
+    const [ax, ay, az] = a as number[];
+    const [bx, by, bz] = b as number[];
+    return [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+  },
+  length: (value) => Math.sqrt(dotComponents(value, value)),
+  normalize: (value) => {
+    const length = Math.sqrt(dotComponents(value, value));
+    return mapComponents(value, (x) => x / length);
+  },
+  greaterThan: (a, b) => (a > b ? 1 : 0),
+  greaterThanEqual: (a, b) => (a >= b ? 1 : 0),
+  lessThan: (a, b) => (a < b ? 1 : 0),
+  and: (a, b) => (a && b ? 1 : 0),
+  select: (condition, a, b) => (condition ? a : b),
+  toVar: (value) => value
+};
+
+// ============================================================================
+// GLSL BACKEND
+// ============================================================================
+
+type GLSLType = 'bool' | 'float' | 'vec2' | 'vec3' | 'vec4';
+
+/** GLSL expression and its type */
+interface GLSLValue {
+  code: string;
+  type: GLSLType;
+}
+
+const GLSL_VECTOR_TYPES: GLSLType[] = ['float', 'vec2', 'vec3', 'vec4'];
+
+function getGLSLSize(type: GLSLType): number {
+  return type === 'bool' ? 1 : GLSL_VECTOR_TYPES.indexOf(type) + 1;
+}
+
+function toGLSLValue(value: GLSLValue | number): GLSLValue {
+  if (typeof value !== 'number') return value;
+  return { code: Number.isInteger(value) ? value.toFixed(1) : String(value), type: 'float' };
+}
+
+/**
+ * Creates a GLSL backend writing expressions, with local variables appended to a statement list.
+ * Local variables are renamed when they would shadow a parameter.
+ */
+function createGLSLMath(statements: string[], parameters: string[]): ShaderMath<GLSLValue> {
+  const names = new Set(parameters);
+
+  const call = (name: string, type: GLSLType, ...args: (GLSLValue | number)[]): GLSLValue => ({
+    code: `${name}(${args.map((arg) => toGLSLValue(arg).code).join(', ')})`,
+    type
+  });
+  const unary = (name: string) => (value: GLSLValue) => call(name, value.type, value);
+  const binary = (operator: string, a: GLSLValue | number, b: GLSLValue | number): GLSLValue => {
+    const left = toGLSLValue(a);
+    const right = toGLSLValue(b);
+    const type = getGLSLSize(left.type) >= getGLSLSize(right.type) ? left.type : right.type;
+    return { code: `(${left.code} ${operator} ${right.code})`, type };
+  };
+  const compare = (operator: string) => (a: GLSLValue, b: GLSLValue | number): GLSLValue => ({
+    ...binary(operator, a, b),
+    type: 'bool'
+  });
+
+  return {
+    float: (value) => toGLSLValue(value),
+    vec2: (x, y) => call('vec2', 'vec2', x, y),
+    vec3: (x, y, z) => call('vec3', 'vec3', x, y, z),
+    vec4: (x, y, z, w) => call('vec4', 'vec4', x, y, z, w),
+    swizzle: (value, components) => ({ code: `${value.code}.${components}`, type: GLSL_VECTOR_TYPES[components.length - 1] }),
+    add: (a, b) => binary('+', a, b),
+    sub: (a, b) => binary('-', a, b),
+    mul: (a, b) => binary('*', a, b),
+    div: (a, b) => binary('/', a, b),
+    abs: unary('abs'),
+    sign: unary('sign'),
+    floor: unary('floor'),
+    ceil: unary('ceil'),
+    fract: unary('fract'),
+    min: (a, b) => call('min', a.type, a, b),
+    dot: (a, b) => call('dot', 'float', a, b),
+    cross: (a, b) => call('cross', 'vec3', a, b),
+    length: (value) => call('length', 'float', value),
+    normalize: unary('normalize'),
+    greaterThan: compare('>'),
+    greaterThanEqual: compare('>='),
+    lessThan: compare('<'),
+    and: (a, b) => ({ ...binary('&&', a, b), type: 'bool' }),
+    select: (condition, a, b) => ({ code: `(${condition.code} ? ${a.code} : ${b.code})`, type: a.type }),
+    toVar: (value, name) => {
+      let variable = name;
+      for (let index = 2; names.has(variable); index++) variable = `${name}${index}`;
+      names.add(variable);
+
+      statements.push(`${value.type} ${variable} = ${value.code};`);
+      return { code: variable, type: value.type };
+    }
+  };
+}
+
+/**
+ * Emits a GLSL function from a definition. Definitions returning an object write out parameters,
+ * in the order of its keys, which must not be used as local variable names.
+ */
+function emitGLSLFunction(
+  name: string,
+  parameters: Record<string, GLSLType>,
+  definition: (m: ShaderMath<GLSLValue>, args: Record<string, GLSLValue>) => GLSLValue | object
+): string {
+  const statements: string[] = [];
+  const args = Object.fromEntries(Object.entries(parameters).map(([key, type]) => [key, { code: key, type }]));
+  const result = definition(createGLSLMath(statements, Object.keys(parameters)), args);
+  const signature = Object.entries(parameters).map(([key, type]) => `${type} ${key}`);
+
+  let returnType = 'void';
+  if ('code' in result) {
+    returnType = (result as GLSLValue).type;
+    statements.push(`return ${(result as GLSLValue).code};`);
+  } else {
+    for (const [key, value] of Object.entries(result as Record<string, GLSLValue>)) {
+      signature.push(`out ${value.type} ${key}`);
+      statements.push(`${key} = ${value.code};`);
+    }
+  }
+
+  return `${returnType} ${name}(${signature.join(', ')}) {\n${statements.map((line) => `  ${line}`).join('\n')}\n}`;
+}
+
+/**
+ * Emits the hemispherical and spherical variants of a GLSL function, switched by OCTAHEDRAL_USE_HEMI_OCTAHEDRON.
+ */
+function emitGLSLModeFunction(
+  name: string,
+  parameters: Record<string, GLSLType>,
+  definition: (m: ShaderMath<GLSLValue>, args: Record<string, GLSLValue>, hemispherical: boolean) => GLSLValue | object
+): string {
+  const hemispherical = emitGLSLFunction(name, parameters, (m, args) => definition(m, args, true));
+  const spherical = emitGLSLFunction(name, parameters, (m, args) => definition(m, args, false));
+
+  if (hemispherical === spherical) return spherical;
+  return `#ifdef OCTAHEDRAL_USE_HEMI_OCTAHEDRON\n${hemispherical}\n#else\n${spherical}\n#endif`;
+}
+
+/**
+ * GLSL vertex functions: getCameraDirection, selectFrames, decodeDirection and computeFrameBasis.
+ */
+export const OCTAHEDRAL_VERTEX_FUNCTIONS = [
+  emitGLSLModeFunction(
+    'getCameraDirection',
+    { cameraPosition: 'vec3', hybridDistance: 'float' },
+    (m, args, hemispherical) => getCameraDirection(m, args.cameraPosition, args.hybridDistance, hemispherical)
+  ),
+  emitGLSLModeFunction(
+    'selectFrames',
+    { direction: 'vec3', spritesMinusOne: 'vec2' },
+    (m, args, hemispherical) => selectFrames(m, args.direction, args.spritesMinusOne, hemispherical)
+  ),
+  emitGLSLModeFunction(
+    'decodeDirection',
+    { gridIndex: 'vec2', spritesMinusOne: 'vec2' },
+    (m, args, hemispherical) => decodeDirection(m, args.gridIndex, args.spritesMinusOne, hemispherical)
+  ),
+  emitGLSLModeFunction(
+    'computeFrameBasis',
+    { normal: 'vec3' },
+    (m, args, hemispherical) => computeFrameBasis(m, args.normal, hemispherical)
+  )
+].join('\n\n');
+
+/**
+ * GLSL fragment functions: getDominantWeights.
+ */
+export const OCTAHEDRAL_FRAGMENT_FUNCTIONS = emitGLSLFunction(
+  'getDominantWeights',
+  { spritesWeight: 'vec4' },
+  (m, args) => getDominantWeights(m, args.spritesWeight)
+);
@@ -14,8 +14,12 @@ import {
   IUniform,
   Vector2,
   Sphere,
-  Mesh
+  Mesh,
+  RenderTarget
 } from 'three';
+import type { WebGPURenderer } from 'three/webgpu';
+
+import { CPU_SHADER_MATH, decodeDirection, encodeDirection } from './octahedral-functions.js';
 
 // ============================================================================
 // SHARED CONSTANTS
@@ -37,6 +41,38 @@ export enum CameraType {
   PERSPECTIVE = 'perspective'
 }
 
+/** Storage layouts of the normal-depth atlas */
+export enum NormalDepthLayout {
+  /** Half-float RGBA, XYZ = normal, W = depth (8 bytes per texel) */
+  HALF_FLOAT = 'half-float',
+  /** 8-bit RGBA, RG = octahedral-encoded normal, BA = 16-bit depth split into high and low bytes (4 bytes per texel) */
+  PACKED = 'packed',
+  /** 8-bit RG octahedral-encoded normal without depth, used by BC5 compressed atlases (no parallax or depth writing) */
+  PACKED_NORMAL = 'packed-normal'
+}
+
+/** How the bake camera frames the target in every sprite */
+export enum AtlasFraming {
+  /** Frames the bounding sphere, scaled by cameraFactor */
+  SPHERE = 'sphere',
+  /** Frames the smallest square containing the silhouette from every baked direction */
+  TIGHT = 'tight'
+}
+
+/** File encodings for exported atlas images */
+export enum AtlasImageEncoding {
+  /** 8-bit PNG, values stored as is (negative values are clamped) */
+  PNG8 = 'png8',
+  /** 16-bit PNG, values in [0, 1] stored as is */
+  PNG16 = 'png16',
+  /** 16-bit PNG, RGB remapped from [-1, 1] to [0, 1] so signed normals survive */
+  PNG16_SIGNED = 'png16-signed',
+  /** OpenEXR with half-float channels, values stored as is */
+  EXR = 'exr',
+  /** KTX2 holding an already block compressed (BC1/BC3/BC5) texture */
+  KTX2 = 'ktx2'
+}
+
 /** Default configuration values */
 export const DEFAULT_CONFIG = {
   ATLAS_SIZE: 4096,
@@ -48,7 +84,14 @@ export const DEFAULT_CONFIG = {
   TRANSLATION: new Vector3(),
   OCTAHEDRAL_MODE: OctahedralMode.HEMISPHERICAL,
   CAMERA_TYPE: CameraType.ORTHOGRAPHIC,
-  HYBRID_DISTANCE: 2.0
+  FRAMING: AtlasFraming.SPHERE,
+  NORMAL_DEPTH_LAYOUT: NormalDepthLayout.HALF_FLOAT,
+  GUTTER: 0,
+  DILATION: 0,
+  SUPERSAMPLE: 1,
+  BAKE_FRAME_BUDGET: 8,
+  HYBRID_DISTANCE: 2.0,
+  PARALLAX_SCALE: 1.0
 } as const;
 
 // ============================================================================
@@ -60,7 +103,16 @@ export type OctahedralImpostorDefinesKeys =
   | 'OCTAHEDRAL_USE_HEMI_OCTAHEDRON' 
   | 'OCTAHEDRAL_USE_NORMAL' 
   | 'OCTAHEDRAL_USE_ORM' 
-  | 'OCTAHEDRAL_TRANSPARENT';
+  | 'OCTAHEDRAL_USE_EMISSIVE' 
+  | 'OCTAHEDRAL_USE_PARALLAX' 
+  | 'OCTAHEDRAL_WRITE_DEPTH' 
+  | 'OCTAHEDRAL_PERSPECTIVE_ATLAS' 
+  | 'OCTAHEDRAL_PACKED_NORMAL_DEPTH' 
+  | 'OCTAHEDRAL_PACKED_NORMAL' 
+  | 'OCTAHEDRAL_DITHER_FADE' 
+  | 'OCTAHEDRAL_TRANSPARENT'
+  | 'OCTAHEDRAL_TRILINEAR'
+  | 'OCTAHEDRAL_TRIMMED_FRAMES';
 
 /** Collection of shader defines for octahedral impostor materials */
 export type OctahedralImpostorDefines = { 
@@ -87,6 +139,18 @@ export interface OctahedralImpostorUniforms {
   disableBlending: IUniform<number>;
   /** Elevation threshold above which impostor can tilt upward */
   hybridDistance: IUniform<number>;
+  /** Multiplier applied to the baked depth for parallax-corrected sampling */
+  parallaxScale: IUniform<number>;
+  /** Bake camera near, far and distance to the target center, in impostor units */
+  bakeDepthRange: IUniform<Vector3>;
+  /** Empty border on each side of a sprite, as a fraction of the sprite size */
+  spriteGutter: IUniform<number>;
+  /** Screen-door fade factor (only with OCTAHEDRAL_DITHER_FADE) */
+  lodFade?: IUniform<number>;
+  /** Occlusion/roughness/metalness atlas (only with OCTAHEDRAL_USE_ORM) */
+  ormMap?: IUniform<Texture>;
+  /** Opaque bounds of every sprite (only with OCTAHEDRAL_TRIMMED_FRAMES) */
+  spriteBounds?: IUniform<Texture>;
 }
 
 /**
@@ -105,18 +169,35 @@ export interface OctahedralImpostorMaterial {
   disableBlending?: boolean;
   /** Elevation threshold above which impostor can tilt upward */
   hybridDistance?: number;
+  /** Whether to reproject each frame using the baked depth (parallax-corrected sampling, not available with the PACKED_NORMAL layout) */
+  parallax?: boolean;
+  /** Multiplier applied to the baked depth in parallax mode (default: 1) */
+  parallaxScale?: number;
+  /** Whether to write per-pixel depth reconstructed from the baked depth channel (not available with the PACKED_NORMAL layout) */
+  writeDepth?: boolean;
+  /**
+   * Whether to sample the atlas with trilinear filtering across a sprite-aware mip chain.
+   * Baked atlases get their chain generated; atlas textures passed in must already carry one (see createMipmappedAtlas).
+   */
+  trilinear?: boolean;
 }
 
 // ============================================================================
 // ATLAS GENERATION TYPES  
 // ============================================================================
 
+/** Renderers atlases can be baked with */
+export type AtlasRenderer = WebGLRenderer | WebGPURenderer;
+
 /**
  * Configuration parameters for texture atlas creation.
  */
-export interface CreateTextureAtlasParams {
-  /** WebGL renderer instance */
-  renderer: WebGLRenderer;
+export interface CreateTextureAtlasParams<TRenderer extends AtlasRenderer = WebGLRenderer> {
+  /**
+   * Renderer the atlas is baked with. A WebGPURenderer must be prepared with initTextureAtlasRenderer before synchronous bakes,
+   * and doesn't support supersample or dilation yet.
+   */
+  renderer: TRenderer;
   /** Octahedral mapping mode (spherical or hemispherical) */
   octahedralMode: OctahedralMode;
   /** Target 3D object to generate atlas for */
@@ -129,27 +210,144 @@ export interface CreateTextureAtlasParams {
   cameraFactor?: number;
   /** Camera type for atlas generation (default: ORTHOGRAPHIC) */
   cameraType?: CameraType;
+  /**
+   * How the bake camera frames the target (default: SPHERE).
+   * TIGHT fits the frames to the mesh vertices, ignoring cameraFactor except for the perspective camera distance.
+   */
+  framing?: AtlasFraming;
+  /** Whether to bake an occlusion/roughness/metalness attachment (default: false) */
+  useORM?: boolean;
+  /** Whether to bake an emissive attachment (default: false) */
+  useEmissive?: boolean;
+  /** Storage layout of the normal-depth attachment (default: HALF_FLOAT) */
+  normalDepthLayout?: NormalDepthLayout;
+  /** Texels left empty on each side of every sprite, so filtering never reaches neighbouring frames (default: 0) */
+  gutter?: number;
+  /** Texels by which sprite edges are dilated into transparent areas after the bake (default: 0) */
+  dilation?: number;
+  /** Resolution multiplier each sprite is rendered at before being filtered down, from 1 to 4 (default: 1) */
+  supersample?: number;
+}
+
+/**
+ * Progress of an asynchronous atlas bake.
+ */
+export interface AtlasBakeProgress {
+  /** Number of views rendered so far */
+  renderedViews: number;
+  /** Number of views in the atlas (spritesPerSide²) */
+  totalViews: number;
+  /** Fraction of the views rendered, from 0 to 1 */
+  progress: number;
+}
+
+/**
+ * Configuration parameters for asynchronous texture atlas creation.
+ */
+export interface CreateTextureAtlasAsyncParams<TRenderer extends AtlasRenderer = WebGLRenderer>
+  extends CreateTextureAtlasParams<TRenderer> {
+  /** Called after each frame of rendering */
+  onProgress?: (progress: AtlasBakeProgress) => void;
+  /** Cancels the bake, releasing its resources and restoring the target materials */
+  signal?: AbortSignal;
+  /** Milliseconds of rendering per frame before yielding to the application (default: 8) */
+  frameBudget?: number;
+}
+
+/**
+ * Depth range of the atlas bake camera, in impostor units (frame width = 1, the bounding sphere diameter unless tightly framed).
+ * Used to turn the stored depth back into a distance from the frame plane.
+ */
+export interface AtlasDepthRange {
+  /** Near plane distance */
+  near: number;
+  /** Far plane distance */
+  far: number;
+  /** Distance from the camera to the bounding sphere center */
+  cameraDistance: number;
 }
 
 /**
  * Generated texture atlas containing albedo and normal-depth textures.
+ * Atlases baked with a WebGPURenderer are held by a plain RenderTarget.
  */
-export interface TextureAtlas {
+export interface TextureAtlas<TRenderTarget extends RenderTarget = WebGLRenderTarget> {
   /** Multi-target render target containing both textures */
-  renderTarget: WebGLRenderTarget;
+  renderTarget: TRenderTarget;
   /** RGB albedo texture */
   albedo: Texture;
-  /** RGBA normal-depth texture (XYZ = normal, W = depth) */
+  /** RGBA normal-depth texture, laid out as described by normalDepthLayout */
   normalDepth: Texture;
+  /** Storage layout of the normal-depth texture (default: HALF_FLOAT) */
+  normalDepthLayout?: NormalDepthLayout;
+  /** Texels left empty on each side of every sprite (default: 0) */
+  gutter?: number;
+  /** Half size of the frames relative to the bounding sphere radius, below 1 for tightly framed atlases (default: 1) */
+  frameScale?: number;
+  /** Bake camera depth range used to encode the depth channel */
+  depthRange: AtlasDepthRange;
+  /** RGB occlusion/roughness/metalness texture (only when baked with useORM) */
+  orm?: Texture;
+  /** RGB emissive radiance texture (only when baked with useEmissive) */
+  emissive?: Texture;
+  /** Opaque bounds of every sprite in frame UV, one RGBA float texel per sprite (xy: min, zw: max) */
+  spriteBounds?: Texture;
 }
 
 /**
- * Complete configuration for creating an octahedral impostor material.
+ * Atlas textures and bake metadata needed to render an impostor without baking.
  */
-export interface CreateOctahedralImpostor<T extends Material> 
-  extends OctahedralImpostorMaterial, CreateTextureAtlasParams {
+export type ImpostorAtlasTextures = Omit<TextureAtlas, 'renderTarget'>;
+
+/**
+ * Configuration shared by all octahedral impostor material factories.
+ */
+export interface CreateOctahedralImpostorBase<T extends Material> extends OctahedralImpostorMaterial {
   /** Base Three.js material type to extend */
   baseType: MaterialConstructor<T>;
+  /** Octahedral mapping mode the atlas was baked with */
+  octahedralMode: OctahedralMode;
+  /** Number of sprites per atlas side the atlas was baked with (default: 32) */
+  spritesPerSide?: number;
+  /** Camera type the atlas was baked with (default: ORTHOGRAPHIC) */
+  cameraType?: CameraType;
+}
+
+/**
+ * Complete configuration for creating an octahedral impostor material.
+ */
+export interface CreateOctahedralImpostor<T extends Material> 
+  extends CreateOctahedralImpostorBase<T>, CreateTextureAtlasParams {
+  /** Whether to shrink each card to the opaque bounds of its frames, reducing overdraw (default: false, ignored with parallax) */
+  trimFrames?: boolean;
+}
+
+/**
+ * Configuration for creating an octahedral impostor material from existing atlas textures.
+ */
+export interface CreateOctahedralImpostorFromTextures<T extends Material> extends CreateOctahedralImpostorBase<T> {
+  /** RGB albedo atlas */
+  albedo: Texture;
+  /** RGBA normal-depth atlas, laid out as described by normalDepthLayout */
+  normalDepth: Texture;
+  /** Storage layout of the normal-depth atlas (default: HALF_FLOAT) */
+  normalDepthLayout?: NormalDepthLayout;
+  /** Texels left empty on each side of every sprite the atlas was baked with (default: 0) */
+  gutter?: number;
+  /** Frame scale the atlas was baked with, applied on top of scale (default: 1) */
+  frameScale?: number;
+  /** RGB occlusion/roughness/metalness atlas */
+  orm?: Texture;
+  /** RGB emissive radiance atlas */
+  emissive?: Texture;
+  /** Sprite bounds texture, e.g. from createAtlasSpriteBounds, trimming the cards to their frames (ignored with parallax) */
+  spriteBounds?: Texture;
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Bake camera depth range (default: the range of a bake with the given camera type and factor) */
+  depthRange?: AtlasDepthRange;
+  /** Camera distance factor the atlas was baked with, used for the default depth range (default: 1) */
+  cameraFactor?: number;
 }
 
 // Augment Three.js Material interface
@@ -161,6 +359,8 @@ declare module 'three' {
     octahedralImpostorUniforms?: OctahedralImpostorUniforms;
     /** Shader defines for octahedral impostor rendering */
     octahedralImpostorDefines?: OctahedralImpostorDefines;
+    /** Frame scale of the atlas, already included in the transform uniform */
+    octahedralImpostorFrameScale?: number;
   }
 }
 
@@ -171,13 +371,6 @@ declare module 'three' {
 /** Temporary sphere for bounding calculations */
 const TEMP_SPHERE = new Sphere();
 
-/** Reusable vectors for octahedral mapping calculations */
-const OCTAHEDRAL_VECTORS = {
-  absolute: new Vector3(),
-  octant: new Vector3(),
-  octahedron: new Vector3()
-};
-
 // ============================================================================
 // BOUNDING SPHERE UTILITIES
 // ============================================================================
@@ -230,9 +423,7 @@ export function computeObjectBoundingSphere(
  * @returns Normalized direction vector
  */
 export function hemiOctaGridToDir(grid: Vector2, target = new Vector3()): Vector3 {
-  target.set(grid.x - grid.y, 0, -1 + grid.x + grid.y);
-  target.y = 1 - Math.abs(target.x) - Math.abs(target.z);
-  return target;
+  return target.fromArray(decodeDirection(CPU_SHADER_MATH, grid.toArray(), [1, 1], true) as number[]);
 }
 
 /**
@@ -243,20 +434,7 @@ export function hemiOctaGridToDir(grid: Vector2, target = new Vector3()): Vector
  * @returns Normalized direction vector
  */
 export function octaGridToDir(grid: Vector2, target = new Vector3()): Vector3 {
-  const encoded = new Vector2(grid.x * 2 - 1, grid.y * 2 - 1);
-  target.set(encoded.x, 0, encoded.y);
-  target.y = 1 - Math.abs(target.x) - Math.abs(target.z);
-  
-  if (target.y < 0) {
-    const signX = target.x >= 0 ? 1 : -1;
-    const signZ = target.z >= 0 ? 1 : -1;
-    const oldX = target.x;
-    
-    target.x = (1 - Math.abs(target.z)) * signX;
-    target.z = (1 - Math.abs(oldX)) * signZ;
-  }
-  
-  return target.normalize();
+  return target.fromArray(decodeDirection(CPU_SHADER_MATH, grid.toArray(), [1, 1], false) as number[]);
 }
 
 /**
@@ -267,16 +445,7 @@ export function octaGridToDir(grid: Vector2, target = new Vector3()): Vector3 {
  * @returns 2D grid coordinates in [0,1] range
  */
 export function hemiOctaDirToGrid(dir: Vector3, target = new Vector2()): Vector2 {
-  const { octant, octahedron } = OCTAHEDRAL_VECTORS;
-  
-  octant.set(Math.sign(dir.x), Math.sign(dir.y), Math.sign(dir.z));
-  const sum = dir.dot(octant);
-  octahedron.copy(dir).divideScalar(sum);
-  
-  return target.set(
-    (1 + octahedron.x + octahedron.z) * 0.5,
-    (1 + octahedron.z - octahedron.x) * 0.5
-  );
+  return target.fromArray(encodeDirection(CPU_SHADER_MATH, dir.toArray(), true) as number[]);
 }
 
 /**
@@ -287,20 +456,5 @@ export function hemiOctaDirToGrid(dir: Vector3, target = new Vector2()): Vector2
  * @returns 2D grid coordinates in [0,1] range
  */
 export function octaDirToGrid(dir: Vector3, target = new Vector2()): Vector2 {
-  const absDir = new Vector3(Math.abs(dir.x), Math.abs(dir.y), Math.abs(dir.z));
-  const normalizedDir = dir.clone().divideScalar(absDir.x + absDir.y + absDir.z);
-  
-  if (normalizedDir.y < 0) {
-    const signX = normalizedDir.x >= 0 ? 1 : -1;
-    const signZ = normalizedDir.z >= 0 ? 1 : -1;
-    const oldX = normalizedDir.x;
-    
-    normalizedDir.x = (1 - Math.abs(normalizedDir.z)) * signX;
-    normalizedDir.z = (1 - Math.abs(oldX)) * signZ;
-  }
-  
-  return target.set(
-    normalizedDir.x * 0.5 + 0.5,
-    normalizedDir.z * 0.5 + 0.5
-  );
-}
\ No newline at end of file
+  return target.fromArray(encodeDirection(CPU_SHADER_MATH, dir.toArray(), false) as number[]);
+}
@@ -0,0 +1,360 @@
+/**
+ * Minimal PNG decoder
+ * Pure TypeScript counterpart of the encoder, used where browsers would reduce 16-bit PNGs to 8 bits
+ */
+
+// ============================================================================
+// PNG TYPES
+// ============================================================================
+
+/**
+ * Decoded PNG image.
+ * Rows are stored top to bottom, channels interleaved.
+ */
+export interface DecodedPNG {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Number of channels: 1 = gray, 2 = gray + alpha, 3 = RGB, 4 = RGBA */
+  channels: 1 | 2 | 3 | 4;
+  /** Bit depth of the samples */
+  bitDepth: 8 | 16;
+  /** Interleaved samples (Uint16Array for 16-bit images) */
+  data: Uint8Array | Uint16Array;
+}
+
+/** Channel count for each supported PNG color type */
+const PNG_CHANNELS: Record<number, 1 | 2 | 3 | 4> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+// ============================================================================
+// PNG DECODING
+// ============================================================================
+
+/**
+ * Decodes a non-interlaced 8-bit or 16-bit gray, gray + alpha, RGB or RGBA PNG file.
+ *
+ * @param buffer - PNG file bytes
+ * @returns Decoded image
+ */
+export function decodePNG(buffer: ArrayBuffer | Uint8Array): DecodedPNG {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (view.getUint32(0) !== 0x89504e47 || view.getUint32(4) !== 0x0d0a1a0a) {
+    throw new Error('decodePNG: not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const dataChunks: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const start = offset + 8;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = bytes[start + 8];
+      colorType = bytes[start + 9];
+
+      if (bytes[start + 12] !== 0) throw new Error('decodePNG: interlaced images are not supported');
+    } else if (type === 'IDAT') {
+      dataChunks.push(bytes.subarray(start, start + length));
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = start + length + 4; // Skip CRC
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels) throw new Error(`decodePNG: unsupported color type ${colorType}`);
+  if (bitDepth !== 8 && bitDepth !== 16) throw new Error(`decodePNG: unsupported bit depth ${bitDepth}`);
+
+  const bytesPerPixel = channels * (bitDepth / 8);
+  const rowLength = width * bytesPerPixel;
+  const compressed = concatBytes(dataChunks);
+
+  // Skip the 2-byte zlib header; the Adler-32 trailer is ignored
+  const filtered = inflate(compressed.subarray(2), (rowLength + 1) * height);
+  const pixels = unfilterScanlines(filtered, width, height, bytesPerPixel);
+
+  if (bitDepth === 8) {
+    return { width, height, channels, bitDepth, data: pixels };
+  }
+
+  const samples = new Uint16Array(pixels.length / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = (pixels[i * 2] << 8) | pixels[i * 2 + 1];
+  }
+
+  return { width, height, channels, bitDepth, data: samples };
+}
+
+/**
+ * Joins IDAT chunk payloads into a single zlib stream.
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Reverses the per-row PNG filters.
+ */
+function unfilterScanlines(data: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  const rowLength = width * bytesPerPixel;
+  const output = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowLength + 1)];
+    const input = y * (rowLength + 1) + 1;
+    const row = y * rowLength;
+    const previousRow = row - rowLength;
+
+    for (let x = 0; x < rowLength; x++) {
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previousRow + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previousRow + x - bytesPerPixel] : 0;
+
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paethPredictor(left, up, upLeft);
+
+      output[row + x] = (data[input + x] + predictor) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Paeth predictor from the PNG specification.
+ */
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+// ============================================================================
+// DEFLATE DECOMPRESSION
+// ============================================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Order in which code length code lengths are stored in dynamic blocks */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Canonical Huffman table: number of codes per length and symbols sorted by code.
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * Builds a canonical Huffman table from code lengths.
+ */
+function buildHuffmanTable(lengths: Uint8Array | number[]): HuffmanTable {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+
+  return { counts, symbols };
+}
+
+/** Fixed literal/length and distance tables of RFC 1951 */
+const FIXED_TABLES = (() => {
+  const literalLengths = new Uint8Array(288);
+  literalLengths.fill(8, 0, 144);
+  literalLengths.fill(9, 144, 256);
+  literalLengths.fill(7, 256, 280);
+  literalLengths.fill(8, 280, 288);
+
+  return {
+    literal: buildHuffmanTable(literalLengths),
+    distance: buildHuffmanTable(new Uint8Array(30).fill(5))
+  };
+})();
+
+/**
+ * Little-endian bit stream as produced by deflate.
+ */
+class BitReader {
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  public readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) throw new Error('inflate: unexpected end of data');
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  public readSymbol(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let length = 1; length < 16; length++) {
+      code |= this.readBits(1);
+      const count = table.counts[length];
+      if (code - first < count) return table.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+
+    throw new Error('inflate: invalid Huffman code');
+  }
+
+  /** Drops the bits left in the current byte, for stored blocks */
+  public alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  public readAlignedBytes(length: number): Uint8Array {
+    const bytes = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
+
+/**
+ * Decompresses a raw deflate stream.
+ *
+ * @param data - Deflate stream (without zlib header)
+ * @param expectedSize - Decompressed size, used to allocate the output once
+ */
+function inflate(data: Uint8Array, expectedSize: number): Uint8Array {
+  const reader = new BitReader(data);
+  const output = new Uint8Array(expectedSize);
+  let length = 0;
+  let isFinal = false;
+
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      // Stored block; whole bytes are buffered at most up to the current one
+      reader.alignToByte();
+      const header = reader.readAlignedBytes(4);
+      const blockLength = header[0] | (header[1] << 8);
+      output.set(reader.readAlignedBytes(blockLength), length);
+      length += blockLength;
+      continue;
+    }
+
+    let literalTable = FIXED_TABLES.literal;
+    let distanceTable = FIXED_TABLES.distance;
+
+    if (type === 2) {
+      ({ literalTable, distanceTable } = readDynamicTables(reader));
+    } else if (type !== 1) {
+      throw new Error('inflate: invalid block type');
+    }
+
+    for (;;) {
+      const symbol = reader.readSymbol(literalTable);
+
+      if (symbol < 256) {
+        output[length++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthCode = symbol - 257;
+        const matchLength = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+        const distanceCode = reader.readSymbol(distanceTable);
+        const distance = DISTANCE_BASE[distanceCode] + reader.readBits(DISTANCE_EXTRA[distanceCode]);
+
+        for (let i = 0; i < matchLength; i++, length++) {
+          output[length] = output[length - distance];
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reads the Huffman tables of a dynamic block.
+ */
+function readDynamicTables(reader: BitReader): { literalTable: HuffmanTable; distanceTable: HuffmanTable } {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.readSymbol(codeLengthTable);
+
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+    } else if (symbol === 16) {
+      const previous = lengths[i - 1];
+      for (let repeat = 3 + reader.readBits(2); repeat > 0; repeat--) lengths[i++] = previous;
+    } else if (symbol === 17) {
+      i += 3 + reader.readBits(3);
+    } else {
+      i += 11 + reader.readBits(7);
+    }
+  }
+
+  return {
+    literalTable: buildHuffmanTable(lengths.subarray(0, literalCount)),
+    distanceTable: buildHuffmanTable(lengths.subarray(literalCount))
+  };
+}
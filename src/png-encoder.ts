@@ -0,0 +1,412 @@
+/**
+ * Minimal PNG encoder
+ * Pure TypeScript (no DOM canvas), so atlases can be encoded in workers, tests and build tools
+ */
+
+// ============================================================================
+// PNG TYPES
+// ============================================================================
+
+/**
+ * Uncompressed image passed to the encoder.
+ * Rows are stored top to bottom, channels interleaved.
+ * 16-bit samples (Uint16Array) produce a 16-bit PNG.
+ */
+export interface PNGImage {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Interleaved 8-bit or 16-bit samples */
+  data: Uint8Array | Uint16Array;
+  /** Number of channels: 1 = gray, 2 = gray + alpha, 3 = RGB, 4 = RGBA (default: 4) */
+  channels?: 1 | 2 | 3 | 4;
+}
+
+/** PNG color type for each channel count */
+const PNG_COLOR_TYPES = [0, 0, 4, 2, 6] as const;
+
+/** PNG file signature */
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// ============================================================================
+// PNG ENCODING
+// ============================================================================
+
+/**
+ * Encodes an image as a PNG file.
+ *
+ * @param image - Pixels to encode
+ * @returns PNG file bytes
+ */
+export function encodePNG(image: PNGImage): Uint8Array {
+  const { width, height, data } = image;
+  const channels = image.channels ?? 4;
+
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`encodePNG: invalid dimensions ${width}x${height}`);
+  }
+  if (data.length !== width * height * channels) {
+    throw new Error(`encodePNG: expected ${width * height * channels} samples, got ${data.length}`);
+  }
+
+  const is16Bit = data instanceof Uint16Array;
+  const bytesPerSample = is16Bit ? 2 : 1;
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8 * bytesPerSample; // Bit depth
+  header[9] = PNG_COLOR_TYPES[channels];
+  // Compression, filter and interlace methods are all 0
+
+  const bytes = is16Bit ? toBigEndianBytes(data) : data;
+  const compressed = zlibCompress(filterScanlines(bytes, width, height, channels * bytesPerSample));
+
+  const chunks = [
+    createChunk('IHDR', header),
+    createChunk('IDAT', compressed),
+    createChunk('IEND', new Uint8Array(0))
+  ];
+
+  const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  output.set(PNG_SIGNATURE, 0);
+
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return output;
+}
+
+/**
+ * Serializes 16-bit samples in the big-endian order PNG requires.
+ */
+function toBigEndianBytes(samples: Uint16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    bytes[i * 2] = samples[i] >> 8;
+    bytes[i * 2 + 1] = samples[i] & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Builds a PNG chunk: length, type, data and CRC of type + data.
+ */
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk, 4, data.length + 8));
+
+  return chunk;
+}
+
+/**
+ * Prefixes every row with the PNG filter that yields the smallest sum of absolute residuals.
+ */
+function filterScanlines(data: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  const rowLength = width * bytesPerPixel;
+  const output = new Uint8Array((rowLength + 1) * height);
+  const candidate = new Uint8Array(rowLength);
+  const best = new Uint8Array(rowLength);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowLength;
+    const previousRow = row - rowLength;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+
+      for (let x = 0; x < rowLength; x++) {
+        const current = data[row + x];
+        const left = x >= bytesPerPixel ? data[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? data[previousRow + x] : 0;
+        const upLeft = y > 0 && x >= bytesPerPixel ? data[previousRow + x - bytesPerPixel] : 0;
+
+        let predictor = 0;
+        if (filter === 1) predictor = left;
+        else if (filter === 2) predictor = up;
+        else if (filter === 3) predictor = (left + up) >> 1;
+        else if (filter === 4) predictor = paethPredictor(left, up, upLeft);
+
+        const residual = (current - predictor) & 0xff;
+        candidate[x] = residual;
+        score += residual < 128 ? residual : 256 - residual;
+      }
+
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+
+    const outputRow = y * (rowLength + 1);
+    output[outputRow] = bestFilter;
+    output.set(best, outputRow + 1);
+  }
+
+  return output;
+}
+
+/**
+ * Paeth predictor from the PNG specification.
+ */
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+/** CRC-32 lookup table (polynomial 0xEDB88320) */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of a byte range.
+ */
+function crc32(data: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Computes the Adler-32 checksum used by the zlib container.
+ */
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+
+  // 5552 is the largest block that cannot overflow before the modulo
+  for (let start = 0; start < data.length; start += 5552) {
+    const end = Math.min(start + 5552, data.length);
+    for (let i = start; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+}
+
+// ============================================================================
+// DEFLATE COMPRESSION
+// ============================================================================
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_MASK = (1 << HASH_BITS) - 1;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 32;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Length (3..258) to length code index */
+const LENGTH_CODES = (() => {
+  const table = new Uint8Array(MAX_MATCH + 1);
+  for (let code = 0; code < LENGTH_BASE.length; code++) {
+    const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+    for (let length = LENGTH_BASE[code]; length < end; length++) table[length] = code;
+  }
+  table[MAX_MATCH] = LENGTH_BASE.length - 1;
+  return table;
+})();
+
+/** Distance (1..32768) to distance code */
+const DISTANCE_CODES = (() => {
+  const table = new Uint8Array(WINDOW_SIZE + 1);
+  for (let code = 0; code < DISTANCE_BASE.length; code++) {
+    const end = code + 1 < DISTANCE_BASE.length ? DISTANCE_BASE[code + 1] : WINDOW_SIZE + 1;
+    for (let distance = DISTANCE_BASE[code]; distance < end; distance++) table[distance] = code;
+  }
+  return table;
+})();
+
+/**
+ * Little-endian bit stream as required by deflate.
+ */
+class BitWriter {
+  private buffer: Uint8Array;
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  /** Writes the low `count` bits of `value`, least significant first */
+  public writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+
+    while (this.bitCount >= 8) {
+      this.writeByte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /** Writes a Huffman code, most significant bit first */
+  public writeCode(code: number, count: number): void {
+    let reversed = 0;
+    for (let i = 0; i < count; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, count);
+  }
+
+  /** Flushes pending bits and returns the written bytes */
+  public finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.writeByte(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private writeByte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
+
+/**
+ * Writes a literal/length symbol with the fixed Huffman code of RFC 1951.
+ */
+function writeFixedSymbol(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+/**
+ * Compresses data into a zlib stream (single fixed-Huffman deflate block with LZ77 matching).
+ */
+function zlibCompress(data: Uint8Array): Uint8Array {
+  const length = data.length;
+  const writer = new BitWriter((length >> 1) + 64);
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & HASH_MASK;
+  const insert = (i: number) => {
+    const hash = hashAt(i);
+    previous[i & WINDOW_MASK] = head[hash];
+    head[hash] = i;
+  };
+
+  // zlib header: deflate, 32K window, default compression level
+  writer.writeBits(0x78, 8);
+  writer.writeBits(0x9c, 8);
+
+  // Final block, fixed Huffman codes
+  writer.writeBits(1, 1);
+  writer.writeBits(1, 2);
+
+  let i = 0;
+  while (i < length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= length) {
+      const maxLength = Math.min(MAX_MATCH, length - i);
+      let candidate = head[hashAt(i)];
+      let chain = MAX_CHAIN;
+
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (data[candidate + bestLength] === data[i + bestLength]) {
+          let matchLength = 0;
+          while (matchLength < maxLength && data[candidate + matchLength] === data[i + matchLength]) {
+            matchLength++;
+          }
+          if (matchLength > bestLength) {
+            bestLength = matchLength;
+            bestDistance = i - candidate;
+            if (matchLength === maxLength) break;
+          }
+        }
+
+        const next = previous[candidate & WINDOW_MASK];
+        if (next >= candidate) break; // Slot was recycled by a newer position
+        candidate = next;
+      }
+
+      insert(i);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthCode = LENGTH_CODES[bestLength];
+      writeFixedSymbol(writer, 257 + lengthCode);
+      writer.writeBits(bestLength - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+      const distanceCode = DISTANCE_CODES[bestDistance];
+      writer.writeCode(distanceCode, 5);
+      writer.writeBits(bestDistance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+
+      const end = Math.min(i + bestLength, length - MIN_MATCH + 1);
+      for (let j = i + 1; j < end; j++) insert(j);
+      i += bestLength;
+    } else {
+      writeFixedSymbol(writer, data[i]);
+      i++;
+    }
+  }
+
+  // End of block
+  writeFixedSymbol(writer, 256);
+
+  const deflated = writer.finish();
+  const output = new Uint8Array(deflated.length + 4);
+  output.set(deflated);
+  new DataView(output.buffer).setUint32(deflated.length, adler32(data));
+
+  return output;
+}
@@ -0,0 +1,157 @@
+/**
+ * Opaque bounds of atlas sprites
+ * Lets impostor cards shrink to the visible part of their frames, so transparent texels cost no fill rate
+ */
+
+import {
+  DataTexture,
+  FloatType,
+  NearestFilter,
+  RGBAFormat,
+  Texture,
+  WebGLRenderer
+} from 'three';
+
+import { DEFAULT_CONFIG } from './octahedral-utils.js';
+import { readTexturePixels, TexturePixels } from './texture-export.js';
+
+// ============================================================================
+// SPRITE BOUNDS TYPES
+// ============================================================================
+
+/**
+ * Options for sprite bounds computation.
+ */
+export interface SpriteBoundsOptions {
+  /** Number of sprites per atlas side the atlas was baked with */
+  spritesPerSide: number;
+  /** Texels left empty on each side of every sprite the atlas was baked with (default: 0) */
+  gutter?: number;
+  /** Texels whose alpha is at most this value are outside the bounds (default: DEFAULT_CONFIG.ALPHA_CLAMP) */
+  alphaThreshold?: number;
+  /** Texels added on each side of the bounds, so bilinear filtering at the edges is kept (default: 1) */
+  padding?: number;
+}
+
+// ============================================================================
+// SPRITE BOUNDS
+// ============================================================================
+
+/**
+ * Computes the opaque bounds of every sprite of an albedo atlas.
+ * Bounds are in frame UV, the UV of the impostor card before it is mapped into the atlas,
+ * stored as [minU, minV, maxU, maxV] per sprite with sprites in row-major order, bottom row first.
+ * Empty sprites get inverted bounds ([1, 1, 0, 0]) so they vanish from unions.
+ *
+ * @param pixels - Albedo pixels with rows ordered top to bottom
+ * @param options - Sprite layout and alpha threshold
+ * @returns Four floats per sprite
+ */
+export function computeSpriteBounds(pixels: TexturePixels, options: SpriteBoundsOptions): Float32Array {
+  const { width, height, data } = pixels;
+  const { spritesPerSide } = options;
+  const gutter = options.gutter ?? DEFAULT_CONFIG.GUTTER;
+  const padding = options.padding ?? 1;
+  const alphaThreshold = (options.alphaThreshold ?? DEFAULT_CONFIG.ALPHA_CLAMP) * 255;
+
+  if (!(spritesPerSide >= 1)) throw new Error('computeSpriteBounds: spritesPerSide is required');
+  if (width !== height) throw new Error(`computeSpriteBounds: atlas must be square (got ${width}x${height})`);
+
+  const spriteSize = width / spritesPerSide;
+  const frameSize = spriteSize - gutter * 2;
+  const spriteCount = spritesPerSide * spritesPerSide;
+
+  // Covered texel range of each sprite, in atlas texels with rows bottom to top
+  const texelBounds = new Float32Array(spriteCount * 4);
+  for (let sprite = 0; sprite < spriteCount; sprite++) {
+    texelBounds.set([Infinity, Infinity, -Infinity, -Infinity], sprite * 4);
+  }
+
+  for (let row = 0; row < height; row++) {
+    const y = height - 1 - row;
+    const spriteY = Math.floor((y + 0.5) / spriteSize);
+
+    for (let x = 0; x < width; x++) {
+      if (data[(row * width + x) * 4 + 3] <= alphaThreshold) continue;
+
+      const offset = (spriteY * spritesPerSide + Math.floor((x + 0.5) / spriteSize)) * 4;
+      texelBounds[offset] = Math.min(texelBounds[offset], x);
+      texelBounds[offset + 1] = Math.min(texelBounds[offset + 1], y);
+      texelBounds[offset + 2] = Math.max(texelBounds[offset + 2], x + 1);
+      texelBounds[offset + 3] = Math.max(texelBounds[offset + 3], y + 1);
+    }
+  }
+
+  const bounds = new Float32Array(spriteCount * 4);
+
+  for (let sprite = 0; sprite < spriteCount; sprite++) {
+    const offset = sprite * 4;
+
+    if (texelBounds[offset] > texelBounds[offset + 2]) {
+      bounds.set([1, 1, 0, 0], offset);
+      continue;
+    }
+
+    // Frame origin of the sprite, in atlas texels
+    const originX = (sprite % spritesPerSide) * spriteSize + gutter;
+    const originY = Math.floor(sprite / spritesPerSide) * spriteSize + gutter;
+    const toFrameUV = (texel: number, origin: number) => Math.min(Math.max((texel - origin) / frameSize, 0), 1);
+
+    bounds[offset] = toFrameUV(texelBounds[offset] - padding, originX);
+    bounds[offset + 1] = toFrameUV(texelBounds[offset + 1] - padding, originY);
+    bounds[offset + 2] = toFrameUV(texelBounds[offset + 2] + padding, originX);
+    bounds[offset + 3] = toFrameUV(texelBounds[offset + 3] + padding, originY);
+  }
+
+  return bounds;
+}
+
+/**
+ * Stores sprite bounds in a float texture with one texel per sprite, read by the impostor vertex shader.
+ *
+ * @param bounds - Bounds returned by computeSpriteBounds
+ * @param spritesPerSide - Number of sprites per atlas side
+ * @returns RGBA float texture (xy: min, zw: max)
+ */
+export function createSpriteBoundsTexture(bounds: Float32Array, spritesPerSide: number): DataTexture {
+  if (bounds.length !== spritesPerSide * spritesPerSide * 4) {
+    throw new Error(`createSpriteBoundsTexture: expected bounds for ${spritesPerSide * spritesPerSide} sprites`);
+  }
+
+  const texture = new DataTexture(bounds, spritesPerSide, spritesPerSide, RGBAFormat, FloatType);
+  texture.minFilter = NearestFilter;
+  texture.magFilter = NearestFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+
+  return texture;
+}
+
+/**
+ * Reads an albedo atlas back and builds its sprite bounds texture.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param albedo - Albedo atlas, from a bake or loaded
+ * @param options - Sprite layout and alpha threshold
+ * @returns Sprite bounds texture
+ */
+export function createAtlasSpriteBounds(renderer: WebGLRenderer, albedo: Texture, options: SpriteBoundsOptions): DataTexture {
+  const bounds = computeSpriteBounds(readTexturePixels(renderer, albedo), options);
+  return createSpriteBoundsTexture(bounds, options.spritesPerSide);
+}
+
+/**
+ * Returns the mean fraction of the card area the bounds keep, a measure of the fill rate saved.
+ *
+ * @param bounds - Bounds returned by computeSpriteBounds
+ * @returns Mean area fraction, from 0 to 1
+ */
+export function getSpriteBoundsArea(bounds: Float32Array): number {
+  let area = 0;
+
+  for (let offset = 0; offset < bounds.length; offset += 4) {
+    area += Math.max(bounds[offset + 2] - bounds[offset], 0) * Math.max(bounds[offset + 3] - bounds[offset + 1], 0);
+  }
+
+  return area / (bounds.length / 4);
+}
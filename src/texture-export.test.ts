@@ -0,0 +1,35 @@
+/**
+ * Quantization of read back pixels
+ */
+
+import { Color, NoColorSpace, SRGBColorSpace } from 'three';
+import { describe, expect, it } from 'vitest';
+
+import { quantizePixels } from './texture-export.js';
+
+describe('quantizePixels', () => {
+  it('round-trips 8-bit sRGB values sampled as linear', () => {
+    const bytes = Array.from({ length: 256 }, (_, i) => i);
+    // Sampling an sRGB texture decodes RGB, alpha is stored linear
+    const data = new Float32Array(bytes.flatMap((byte) => {
+      const { r } = new Color().setRGB(byte / 255, byte / 255, byte / 255, SRGBColorSpace);
+      return [r, r, r, byte / 255];
+    }));
+
+    const pixels = quantizePixels({ width: 256, height: 1, data }, SRGBColorSpace);
+
+    expect(Array.from(pixels.data)).toEqual(bytes.flatMap((byte) => [byte, byte, byte, byte]));
+  });
+
+  it('encodes linear mid grey to sRGB 188', () => {
+    const pixels = quantizePixels({ width: 1, height: 1, data: new Float32Array([0.5, 0.5, 0.5, 0.5]) }, SRGBColorSpace);
+
+    expect(Array.from(pixels.data)).toEqual([188, 188, 188, 128]);
+  });
+
+  it('keeps values of other color spaces', () => {
+    const pixels = quantizePixels({ width: 1, height: 1, data: new Float32Array([0.5, -1, 2, 1]) }, NoColorSpace);
+
+    expect(Array.from(pixels.data)).toEqual([128, 0, 255, 255]);
+  });
+});
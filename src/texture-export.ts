@@ -1,5 +1,6 @@
 /**
- * Texture export utilities for saving render targets and textures as PNG files
+ * Texture export utilities for reading render targets and textures back as image data
+ * Encoding returns bytes so it works without a DOM; downloading is an optional wrapper on top
  */
 
 import {
@@ -10,87 +11,170 @@ import {
   ShaderMaterial,
   Mesh,
   Scene,
-  OrthographicCamera
+  OrthographicCamera,
+  UnsignedByteType,
+  FloatType,
+  TextureDataType,
+  RenderTarget,
+  DataUtils,
+  SRGBColorSpace
 } from 'three';
+import type { WebGPURenderer } from 'three/webgpu';
+
+import { AtlasImageEncoding, TextureAtlas } from './octahedral-utils.js';
+import { encodePNG } from './png-encoder.js';
+import { encodeEXR } from './exr-encoder.js';
 
 // ============================================================================
-// TEXTURE EXPORT UTILITIES
+// EXPORT TYPES
 // ============================================================================
 
 /**
- * Exports a render target texture as a downloadable PNG image.
- * 
+ * RGBA 8-bit pixels read back from the GPU.
+ * Rows are stored top to bottom, as in image files.
+ */
+export interface TexturePixels {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Interleaved RGBA samples */
+  data: Uint8Array;
+}
+
+/**
+ * RGBA floating point pixels read back from the GPU, without clamping or quantization.
+ * Rows are stored top to bottom, as in image files.
+ */
+export interface FloatTexturePixels {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Interleaved RGBA samples */
+  data: Float32Array;
+}
+
+/** Atlas attachments that can be exported */
+export type AtlasAttachment = 'albedo' | 'normalDepth' | 'orm' | 'emissive';
+
+// ============================================================================
+// PIXEL READBACK
+// ============================================================================
+
+/**
+ * Reads a render target attachment back as RGBA 8-bit pixels.
+ * Attachments that are not 8-bit (e.g. half-float normal-depth) are converted through an 8-bit copy.
+ *
  * @param renderer - WebGL renderer instance
  * @param renderTarget - Source render target
- * @param fileName - Output filename (without extension)
- * @param textureIndex - Index of texture attachment to export
+ * @param textureIndex - Index of texture attachment to read (default: 0)
+ * @returns Pixels with rows ordered top to bottom
  */
-export function exportTextureFromRenderTarget(
+export function readRenderTargetPixels(
   renderer: WebGLRenderer,
   renderTarget: WebGLRenderTarget,
-  fileName: string,
-  textureIndex: number
-): void {
-  const { width, height } = renderTarget.texture.image;
+  textureIndex = 0
+): TexturePixels {
+  const texture = renderTarget.textures[textureIndex];
+
+  if (!texture) {
+    throw new Error(`readRenderTargetPixels: render target has no attachment ${textureIndex}`);
+  }
+  if (texture.type !== UnsignedByteType) {
+    return readTexturePixels(renderer, texture);
+  }
+
+  const { width, height } = renderTarget;
   const pixelBuffer = new Uint8Array(width * height * 4);
-  
+
   // Read pixels from render target
   (renderer as any).readRenderTargetPixels(
     renderTarget, 0, 0, width, height, pixelBuffer, undefined, textureIndex
   );
-  
-  // Create canvas and flip image vertically
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  
-  const context = canvas.getContext('2d')!;
-  const imageData = context.createImageData(width, height);
-  const { data: imageDataArray } = imageData;
-  
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const destIndex = (x + y * width) * 4;
-      const srcIndex = (x + (height - y - 1) * width) * 4; // Vertical flip
-      
-      imageDataArray[destIndex] = pixelBuffer[srcIndex];
-      imageDataArray[destIndex + 1] = pixelBuffer[srcIndex + 1];
-      imageDataArray[destIndex + 2] = pixelBuffer[srcIndex + 2];
-      imageDataArray[destIndex + 3] = pixelBuffer[srcIndex + 3];
-    }
+
+  return { width, height, data: flipRows(pixelBuffer, width, height) };
+}
+
+/**
+ * Reads any texture back as RGBA 8-bit pixels by drawing it into a temporary render target.
+ * Sampling decodes sRGB textures to linear, so sRGB output is copied as floats and its RGB re-encoded
+ * (see quantizePixels): by default the bytes match what the texture stores, as readRenderTargetPixels returns.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @param colorSpace - Color space of the returned bytes (default: the texture color space)
+ * @returns Pixels with rows ordered top to bottom
+ */
+export function readTexturePixels(
+  renderer: WebGLRenderer,
+  texture: Texture,
+  colorSpace: string = texture.colorSpace
+): TexturePixels {
+  if (colorSpace === SRGBColorSpace) {
+    return quantizePixels(readTextureFloatPixels(renderer, texture), colorSpace);
   }
-  
-  context.putImageData(imageData, 0, 0);
-  
-  // Trigger download
-  const link = document.createElement('a');
-  link.href = canvas.toDataURL('image/png');
-  link.download = `${fileName}.png`;
-  link.click();
+
+  return readTextureThroughCopy(renderer, texture, UnsignedByteType, (width, height) => new Uint8Array(width * height * 4));
 }
 
 /**
- * Exports a Three.js texture as a downloadable PNG image.
- * Creates a temporary render target to facilitate the export process.
- * 
+ * Reads any texture back as RGBA 32-bit float pixels, preserving signed and out of range values.
+ * Requires float color buffer support (EXT_color_buffer_float), available on WebGL 2 desktop and most mobile GPUs.
+ *
  * @param renderer - WebGL renderer instance
- * @param texture - Source texture to export
- * @param fileName - Output filename (without extension)
+ * @param texture - Source texture
+ * @returns Pixels with rows ordered top to bottom
  */
-export function exportTextureAsPNG(
+export function readTextureFloatPixels(renderer: WebGLRenderer, texture: Texture): FloatTexturePixels {
+  return readTextureThroughCopy(renderer, texture, FloatType, (width, height) => new Float32Array(width * height * 4));
+}
+
+/**
+ * Quantizes linear pixels to 8 bits, clamped to [0, 1].
+ * For sRGB, RGB is encoded with the sRGB transfer first, as 8-bit sRGB textures store it; alpha stays linear.
+ *
+ * @param pixels - Linear pixels, e.g. returned by readTextureFloatPixels
+ * @param colorSpace - Color space of the texture the bytes are meant for
+ * @returns Pixels in the same row order
+ */
+export function quantizePixels(pixels: FloatTexturePixels, colorSpace: string): TexturePixels {
+  const isSRGB = colorSpace === SRGBColorSpace;
+  const data = new Uint8Array(pixels.data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const value = isSRGB && i % 4 !== 3 ? linearToSRGB(pixels.data[i]) : pixels.data[i];
+    data[i] = Math.round(Math.min(Math.max(value, 0), 1) * 255);
+  }
+
+  return { width: pixels.width, height: pixels.height, data };
+}
+
+/**
+ * sRGB transfer function, for 8-bit sRGB attachments read back as linear values.
+ * @internal
+ */
+export function linearToSRGB(value: number): number {
+  return value < 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 0.41666) - 0.055;
+}
+
+/**
+ * Draws a texture into a temporary render target of the given type and reads it back.
+ */
+function readTextureThroughCopy<T extends Uint8Array | Float32Array>(
   renderer: WebGLRenderer,
   texture: Texture,
-  fileName: string
-): void {
-  const { width, height } = texture.image;
-  
+  type: TextureDataType,
+  createBuffer: (width: number, height: number) => T
+): { width: number; height: number; data: T } {
+  const { width, height } = texture.image ?? {};
+
   if (!width || !height) {
-    console.warn('Texture export failed: Invalid dimensions');
-    return;
+    throw new Error('readTexturePixels: texture has invalid dimensions');
   }
-  
+
   // Create temporary rendering setup
-  const renderTarget = new WebGLRenderTarget(width, height);
+  const renderTarget = new WebGLRenderTarget(width, height, { type });
   const geometry = new PlaneGeometry(2, 2);
   const material = new ShaderMaterial({
     vertexShader: /* glsl */ `
@@ -107,23 +191,383 @@ export function exportTextureAsPNG(
     `,
     uniforms: { tTexture: { value: texture } }
   });
-  
+
   const mesh = new Mesh(geometry, material);
   const scene = new Scene();
   scene.add(mesh);
-  
+
   const camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1);
-  
-  // Render and export
+
+  // Render and read back
   const previousTarget = renderer.getRenderTarget();
   renderer.setRenderTarget(renderTarget);
   renderer.render(scene, camera);
   renderer.setRenderTarget(previousTarget);
-  
-  exportTextureFromRenderTarget(renderer, renderTarget, fileName, 0);
-  
+
+  const pixelBuffer = createBuffer(width, height);
+  renderer.readRenderTargetPixels(renderTarget, 0, 0, width, height, pixelBuffer);
+
   // Cleanup
   renderTarget.dispose();
   geometry.dispose();
   material.dispose();
-}
\ No newline at end of file
+
+  return { width, height, data: flipRows(pixelBuffer, width, height) };
+}
+
+/**
+ * Reads a render target attachment of a WebGPURenderer back as RGBA 8-bit pixels.
+ * Float attachments are clamped to [0, 1], as the 8-bit copy of readTexturePixels does.
+ *
+ * @param renderer - WebGPU renderer instance
+ * @param renderTarget - Source render target
+ * @param textureIndex - Index of texture attachment to read (default: 0)
+ * @returns Pixels with rows ordered top to bottom
+ */
+export async function readRenderTargetPixelsAsync(
+  renderer: WebGPURenderer,
+  renderTarget: RenderTarget,
+  textureIndex = 0
+): Promise<TexturePixels> {
+  return readRenderTargetThroughBackend(renderer, renderTarget, textureIndex, 'readRenderTargetPixelsAsync', (samples, length) => {
+    if (samples instanceof Uint8Array) {
+      return samples.slice(0, length);
+    }
+
+    const toFloat = getSampleConverter(samples);
+    const pixelBuffer = new Uint8Array(length);
+
+    for (let i = 0; i < length; i++) {
+      pixelBuffer[i] = Math.round(Math.min(Math.max(toFloat(samples[i]), 0), 1) * 255);
+    }
+
+    return pixelBuffer;
+  });
+}
+
+/**
+ * Reads a render target attachment of a WebGPURenderer back as RGBA float pixels, preserving signed values.
+ * 8-bit attachments are mapped to [0, 1] as stored, without color space conversion.
+ *
+ * @param renderer - WebGPU renderer instance
+ * @param renderTarget - Source render target
+ * @param textureIndex - Index of texture attachment to read (default: 0)
+ * @returns Pixels with rows ordered top to bottom
+ */
+export async function readRenderTargetFloatPixelsAsync(
+  renderer: WebGPURenderer,
+  renderTarget: RenderTarget,
+  textureIndex = 0
+): Promise<FloatTexturePixels> {
+  return readRenderTargetThroughBackend(renderer, renderTarget, textureIndex, 'readRenderTargetFloatPixelsAsync', (samples, length) => {
+    const toFloat = samples instanceof Uint8Array ? (value: number) => value / 255 : getSampleConverter(samples);
+    const pixelBuffer = new Float32Array(length);
+
+    for (let i = 0; i < length; i++) {
+      pixelBuffer[i] = toFloat(samples[i]);
+    }
+
+    return pixelBuffer;
+  });
+}
+
+/**
+ * Reads a WebGPURenderer attachment back and converts its samples, returning rows top to bottom.
+ */
+async function readRenderTargetThroughBackend<T extends Uint8Array | Float32Array>(
+  renderer: WebGPURenderer,
+  renderTarget: RenderTarget,
+  textureIndex: number,
+  caller: string,
+  convert: (samples: ArrayLike<number>, length: number) => T
+): Promise<{ width: number; height: number; data: T }> {
+  const texture = renderTarget.textures[textureIndex];
+
+  if (!texture) {
+    throw new Error(`${caller}: render target has no attachment ${textureIndex}`);
+  }
+
+  const { width, height } = renderTarget;
+  const samples = await renderer.readRenderTargetPixelsAsync(renderTarget, 0, 0, width, height, textureIndex);
+  const pixelBuffer = convert(samples, width * height * 4);
+
+  // WebGPU textures store rows top to bottom, the WebGL 2 fallback bottom to top
+  const isWebGPUBackend = (renderer.backend as { isWebGPUBackend?: boolean }).isWebGPUBackend === true;
+
+  return { width, height, data: isWebGPUBackend ? pixelBuffer : flipRows(pixelBuffer, width, height) };
+}
+
+/**
+ * Returns how to turn non 8-bit samples into floats: half float attachments come back as raw 16-bit halves.
+ */
+function getSampleConverter(samples: ArrayLike<number>): (value: number) => number {
+  return samples instanceof Uint16Array ? DataUtils.fromHalfFloat : (value: number) => value;
+}
+
+/**
+ * Flips RGBA rows between GPU order (bottom to top) and image order (top to bottom).
+ */
+export function flipRows<T extends Uint8Array | Float32Array>(pixels: T, width: number, height: number): T {
+  const rowLength = width * 4;
+  const flipped = new (pixels.constructor as new (length: number) => T)(pixels.length);
+
+  for (let y = 0; y < height; y++) {
+    const srcStart = (height - y - 1) * rowLength;
+    flipped.set(pixels.subarray(srcStart, srcStart + rowLength), y * rowLength);
+  }
+
+  return flipped;
+}
+
+// ============================================================================
+// PNG EXPORT
+// ============================================================================
+
+/**
+ * Encodes a render target attachment as PNG bytes.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param renderTarget - Source render target
+ * @param textureIndex - Index of texture attachment to export (default: 0)
+ * @returns PNG file bytes
+ */
+export function encodeRenderTargetAsPNG(
+  renderer: WebGLRenderer,
+  renderTarget: WebGLRenderTarget,
+  textureIndex = 0
+): Uint8Array {
+  return encodePNG(readRenderTargetPixels(renderer, renderTarget, textureIndex));
+}
+
+/**
+ * Encodes a texture as PNG bytes.
+ * RGB is stored in the texture color space by default, e.g. sRGB-encoded for an albedo atlas,
+ * like encodeAtlasAttachmentAsPNG stores render target attachments.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @param colorSpace - Color space of the stored bytes (default: the texture color space)
+ * @returns PNG file bytes
+ */
+export function encodeTextureAsPNG(
+  renderer: WebGLRenderer,
+  texture: Texture,
+  colorSpace: string = texture.colorSpace
+): Uint8Array {
+  return encodePNG(readTexturePixels(renderer, texture, colorSpace));
+}
+
+/**
+ * Encodes a texture as a 16-bit PNG, keeping far more precision than 8-bit exports.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @param signed - Whether RGB holds signed values (e.g. normals) to remap from [-1, 1] to [0, 1]
+ * @returns PNG file bytes
+ */
+export function encodeTextureAsPNG16(renderer: WebGLRenderer, texture: Texture, signed = false): Uint8Array {
+  return encodeFloatPixelsAsPNG16(readTextureFloatPixels(renderer, texture), signed);
+}
+
+/**
+ * Quantizes float pixels to 16 bits, remapping signed RGB from [-1, 1] to [0, 1], and encodes them as PNG.
+ */
+function encodeFloatPixelsAsPNG16({ width, height, data }: FloatTexturePixels, signed: boolean): Uint8Array {
+  const samples = new Uint16Array(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const isColor = (i & 3) !== 3;
+    const value = signed && isColor ? data[i] * 0.5 + 0.5 : data[i];
+    samples[i] = Math.round(Math.min(Math.max(value, 0), 1) * 65535);
+  }
+
+  return encodePNG({ width, height, data: samples });
+}
+
+/**
+ * Encodes a texture as a half-float OpenEXR file, storing values as is.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @returns EXR file bytes
+ */
+export function encodeTextureAsEXR(renderer: WebGLRenderer, texture: Texture): Uint8Array {
+  return encodeEXR(readTextureFloatPixels(renderer, texture));
+}
+
+/**
+ * Encodes a texture with the given file encoding.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture
+ * @param encoding - File encoding
+ * @returns Encoded file bytes
+ */
+export function encodeTexture(renderer: WebGLRenderer, texture: Texture, encoding: AtlasImageEncoding): Uint8Array {
+  switch (encoding) {
+    case AtlasImageEncoding.PNG16:
+      return encodeTextureAsPNG16(renderer, texture);
+    case AtlasImageEncoding.PNG16_SIGNED:
+      return encodeTextureAsPNG16(renderer, texture, true);
+    case AtlasImageEncoding.EXR:
+      return encodeTextureAsEXR(renderer, texture);
+    case AtlasImageEncoding.KTX2:
+      throw new Error('encodeTexture: use encodeCompressedTextureAsKTX2 for compressed textures');
+    case AtlasImageEncoding.PNG8:
+    default:
+      return encodeTextureAsPNG(renderer, texture);
+  }
+}
+
+/**
+ * Returns the file extension matching an atlas image encoding.
+ */
+export function getAtlasImageExtension(encoding: AtlasImageEncoding): string {
+  switch (encoding) {
+    case AtlasImageEncoding.EXR:
+      return 'exr';
+    case AtlasImageEncoding.KTX2:
+      return 'ktx2';
+    default:
+      return 'png';
+  }
+}
+
+/**
+ * Encodes one attachment of a baked atlas as PNG bytes.
+ * RGB is stored in the attachment color space, i.e. sRGB-encoded albedo and linear data attachments.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param atlas - Texture atlas returned by createTextureAtlas
+ * @param attachment - Attachment to export
+ * @returns PNG file bytes
+ */
+export function encodeAtlasAttachmentAsPNG(
+  renderer: WebGLRenderer,
+  atlas: TextureAtlas,
+  attachment: AtlasAttachment
+): Uint8Array {
+  const texture = atlas[attachment];
+
+  if (!texture) {
+    throw new Error(`encodeAtlasAttachmentAsPNG: atlas has no ${attachment} attachment`);
+  }
+
+  const textureIndex = atlas.renderTarget.textures.indexOf(texture);
+  return textureIndex >= 0
+    ? encodeRenderTargetAsPNG(renderer, atlas.renderTarget, textureIndex)
+    : encodeTextureAsPNG(renderer, texture);
+}
+
+/**
+ * Encodes one attachment of an atlas baked with a WebGPURenderer as PNG bytes.
+ * RGB is stored in the attachment color space, as encodeAtlasAttachmentAsPNG does.
+ *
+ * @param renderer - WebGPU renderer instance
+ * @param atlas - Texture atlas returned by createTextureAtlas or createTextureAtlasAsync
+ * @param attachment - Attachment to export
+ * @returns PNG file bytes
+ */
+export async function encodeAtlasAttachmentAsPNGAsync(
+  renderer: WebGPURenderer,
+  atlas: TextureAtlas<RenderTarget>,
+  attachment: AtlasAttachment
+): Promise<Uint8Array> {
+  const texture = atlas[attachment];
+  const textureIndex = texture ? atlas.renderTarget.textures.indexOf(texture) : -1;
+
+  if (textureIndex < 0) {
+    throw new Error(`encodeAtlasAttachmentAsPNGAsync: atlas has no ${attachment} attachment`);
+  }
+
+  return encodePNG(await readRenderTargetPixelsAsync(renderer, atlas.renderTarget, textureIndex));
+}
+
+/**
+ * Encodes one attachment of an atlas baked with a WebGPURenderer as a 16-bit PNG,
+ * e.g. a half-float normal-depth attachment with signed normals (see encodeTextureAsPNG16).
+ *
+ * @param renderer - WebGPU renderer instance
+ * @param atlas - Texture atlas returned by createTextureAtlas or createTextureAtlasAsync
+ * @param attachment - Attachment to export
+ * @param signed - Whether RGB holds signed values to remap from [-1, 1] to [0, 1]
+ * @returns PNG file bytes
+ */
+export async function encodeAtlasAttachmentAsPNG16Async(
+  renderer: WebGPURenderer,
+  atlas: TextureAtlas<RenderTarget>,
+  attachment: AtlasAttachment,
+  signed = false
+): Promise<Uint8Array> {
+  const texture = atlas[attachment];
+  const textureIndex = texture ? atlas.renderTarget.textures.indexOf(texture) : -1;
+
+  if (textureIndex < 0) {
+    throw new Error(`encodeAtlasAttachmentAsPNG16Async: atlas has no ${attachment} attachment`);
+  }
+
+  return encodeFloatPixelsAsPNG16(await readRenderTargetFloatPixelsAsync(renderer, atlas.renderTarget, textureIndex), signed);
+}
+
+// ============================================================================
+// DOWNLOAD HELPERS
+// ============================================================================
+
+/**
+ * Triggers a browser download of in-memory data.
+ *
+ * @param data - File contents
+ * @param fileName - Output filename (with extension)
+ * @param mimeType - MIME type used when data is not already a Blob (default: image/png)
+ */
+export function downloadFile(data: Uint8Array | Blob, fileName: string, mimeType = 'image/png'): void {
+  const blob = data instanceof Blob ? data : new Blob([data as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Revoke once the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Exports a render target texture as a downloadable PNG image.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param renderTarget - Source render target
+ * @param fileName - Output filename (without extension)
+ * @param textureIndex - Index of texture attachment to export
+ */
+export function exportTextureFromRenderTarget(
+  renderer: WebGLRenderer,
+  renderTarget: WebGLRenderTarget,
+  fileName: string,
+  textureIndex: number
+): void {
+  downloadFile(encodeRenderTargetAsPNG(renderer, renderTarget, textureIndex), `${fileName}.png`);
+}
+
+/**
+ * Exports a Three.js texture as a downloadable PNG image.
+ *
+ * @param renderer - WebGL renderer instance
+ * @param texture - Source texture to export
+ * @param fileName - Output filename (without extension)
+ */
+export function exportTextureAsPNG(
+  renderer: WebGLRenderer,
+  texture: Texture,
+  fileName: string
+): void {
+  const { width, height } = texture.image ?? {};
+
+  if (!width || !height) {
+    console.warn('Texture export failed: Invalid dimensions');
+    return;
+  }
+
+  downloadFile(encodeTextureAsPNG(renderer, texture), `${fileName}.png`);
+}